@@ -22,6 +22,8 @@ const nextConfig = {
 
     return config;
   },
+  // Loaded natively by the latency WebSocket server (see src/instrumentation.ts)
+  serverExternalPackages: ["ws"],
   images: {
     domains: [],
   },
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AlertRule, LatencyData } from "@/types";
+import {
+  acknowledgeAlerts,
+  deleteAlertRule,
+  evaluateLatencyAlerts,
+  loadAlertState,
+  saveAlertRule,
+  sendTestWebhook,
+  setAlertWebhooks,
+  validateAlertRule,
+  validateWebhookUrl,
+} from "@/lib/alerts";
+import { validateLatencyRecords } from "@/lib/timeseries";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const badRequest = (error: string) =>
+  NextResponse.json({ success: false, error }, { status: 400 });
+
+const unauthorized = () =>
+  NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+
+// Helper: Webhook targets are edited and tested with
+// `Authorization: Bearer $ALERTS_ADMIN_TOKEN`. Without the variable set, only
+// `ALERT_WEBHOOK_URLS` is used.
+const isAuthorizedAdmin = (request: NextRequest): boolean => {
+  const token = process.env.ALERTS_ADMIN_TOKEN;
+  return !!token && request.headers.get("authorization") === `Bearer ${token}`;
+};
+
+// Helper: The first invalid webhook's error, or null when all are usable.
+// Webhooks already saved (or from `ALERT_WEBHOOK_URLS`) are not re-checked.
+const validateWebhookUrls = async (urls: unknown[]) => {
+  const { webhooks } = await loadAlertState();
+  const added = urls.filter((url) => !webhooks.includes(url as string));
+  return (
+    (await Promise.all(added.map(validateWebhookUrl))).find(Boolean) ?? null
+  );
+};
+
+// Rules, alert history (newest first) and webhook targets
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get("status");
+
+  try {
+    const state = await loadAlertState();
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...state,
+        alerts: status
+          ? state.alerts.filter((a) => a.status === status)
+          : state.alerts,
+      },
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error("Alerts API error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { action, payload } = body;
+
+    switch (action) {
+      case "evaluate": {
+        if (
+          typeof payload?.feed !== "string" ||
+          !Array.isArray(payload?.data)
+        ) {
+          return badRequest("Expected payload { feed, data }");
+        }
+        const invalid = validateLatencyRecords(payload.data);
+        if (invalid) return badRequest(invalid);
+        const triggered = await evaluateLatencyAlerts(
+          payload.feed,
+          payload.data as LatencyData[]
+        );
+        return NextResponse.json({ success: true, data: triggered });
+      }
+
+      case "acknowledge": {
+        const ids = payload?.ids;
+        if (!Array.isArray(ids) || !ids.every((id) => typeof id === "string")) {
+          return badRequest("Expected payload { ids: string[] }");
+        }
+        return NextResponse.json({
+          success: true,
+          data: await acknowledgeAlerts(ids),
+        });
+      }
+
+      case "saveRule": {
+        const rule = payload?.rule as AlertRule;
+        const invalid = validateAlertRule(rule);
+        if (invalid) return badRequest(invalid);
+        return NextResponse.json({
+          success: true,
+          data: await saveAlertRule(rule),
+        });
+      }
+
+      case "deleteRule": {
+        if (typeof payload?.id !== "string") {
+          return badRequest("Expected payload { id }");
+        }
+        return NextResponse.json({
+          success: true,
+          data: await deleteAlertRule(payload.id),
+        });
+      }
+
+      case "setWebhooks": {
+        if (!isAuthorizedAdmin(request)) return unauthorized();
+        const urls = payload?.urls;
+        if (!Array.isArray(urls)) {
+          return badRequest("Expected payload { urls } of http(s) URLs");
+        }
+        const invalid = await validateWebhookUrls(urls);
+        if (invalid) return badRequest(invalid);
+        return NextResponse.json({
+          success: true,
+          data: await setAlertWebhooks(urls),
+        });
+      }
+
+      case "testWebhook": {
+        if (!isAuthorizedAdmin(request)) return unauthorized();
+        const invalid = await validateWebhookUrls([payload?.url]);
+        if (invalid) return badRequest(invalid);
+        try {
+          const status = await sendTestWebhook(payload.url);
+          return NextResponse.json({ success: true, status });
+        } catch (error) {
+          return NextResponse.json(
+            { success: false, error: String(error) },
+            { status: 502 }
+          );
+        }
+      }
+
+      default:
+        return badRequest("Unknown action");
+    }
+  } catch (error) {
+    console.error("Alerts POST error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to process request" },
+      { status: 500 }
+    );
+  }
+}
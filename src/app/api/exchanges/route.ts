@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ExchangeCatalogState, ExchangeLocation } from "@/types";
+import {
+  deleteExchange,
+  loadExchangeCatalogState,
+  normalizeExchangeLocation,
+  replaceExchangeCatalog,
+  saveExchange,
+  validateExchangeCatalog,
+  validateExchangeLocation,
+} from "@/lib/exchangeCatalog";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const badRequest = (error: string) =>
+  NextResponse.json({ success: false, error }, { status: 400 });
+
+// Helper: Respond with the catalog plus where it was loaded from
+const catalogResponse = (state: ExchangeCatalogState) =>
+  NextResponse.json({
+    success: true,
+    data: state.exchanges,
+    meta: { source: state.source, path: state.path, error: state.error },
+    timestamp: Date.now(),
+  });
+
+// Helper: Refuse edits while the catalog file is invalid; the built-ins are
+// being served, and writing them would discard the hand-edited file
+const invalidCatalog = (state: ExchangeCatalogState) =>
+  NextResponse.json(
+    {
+      success: false,
+      error: `The catalog file ${state.path} is invalid (${state.error}). Fix it or delete it to reset to the built-in venues before editing.`,
+    },
+    { status: 409 }
+  );
+
+// The exchange venues shown on the map
+export async function GET() {
+  try {
+    return catalogResponse(await loadExchangeCatalogState());
+  } catch (error) {
+    console.error("Exchanges API error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { action, payload } = body;
+    const current = await loadExchangeCatalogState();
+    if (current.error) return invalidCatalog(current);
+
+    switch (action) {
+      case "save": {
+        const exchange = normalizeExchangeLocation(
+          payload?.exchange as ExchangeLocation
+        );
+        const invalid = validateExchangeLocation(exchange);
+        if (invalid) return badRequest(invalid);
+        return catalogResponse(await saveExchange(exchange));
+      }
+
+      case "delete": {
+        if (typeof payload?.id !== "string") {
+          return badRequest("Expected payload { id }");
+        }
+        if (!current.exchanges.some((e) => e.id === payload.id)) {
+          return NextResponse.json(
+            { success: false, error: `Unknown exchange ${payload.id}` },
+            { status: 404 }
+          );
+        }
+        return catalogResponse(await deleteExchange(payload.id));
+      }
+
+      case "replace": {
+        if (!Array.isArray(payload?.exchanges)) {
+          return badRequest("Expected payload { exchanges: [...] }");
+        }
+        const exchanges = (payload.exchanges as ExchangeLocation[]).map(
+          normalizeExchangeLocation
+        );
+        const invalid = validateExchangeCatalog(exchanges);
+        if (invalid) return badRequest(invalid);
+        return catalogResponse(await replaceExchangeCatalog(exchanges));
+      }
+
+      default:
+        return badRequest("Unknown action");
+    }
+  } catch (error) {
+    console.error("Exchanges POST error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to process request" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getExchangeStatus } from "@/lib/exchangeStatus";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Status page derived status, rolling uptime and incident history (newest
+// first) per exchange; `exchange` narrows to one venue, `refresh` re-polls
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const exchange = searchParams.get("exchange");
+  const refresh = searchParams.get("refresh") === "true";
+
+  try {
+    const state = await getExchangeStatus(refresh);
+    return NextResponse.json({
+      success: true,
+      data: exchange
+        ? {
+            reports: state.reports.filter((r) => r.exchangeId === exchange),
+            incidents: state.incidents.filter(
+              (i) => i.exchangeId === exchange
+            ),
+          }
+        : state,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error("Exchange status API error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createTextExportStream,
+  EXPORT_CONTENT_TYPES,
+  loadExportRecords,
+  parseExportQuery,
+  validateExportOptions,
+  writeParquetExport,
+} from "@/lib/export";
+import { parseBucket } from "@/lib/timeseries";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const EXTENSIONS = { csv: "csv", ndjson: "ndjson", parquet: "parquet" };
+
+// Download current or historical latency as CSV, NDJSON or Parquet
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const options = parseExportQuery(searchParams);
+  const invalid = validateExportOptions(options);
+  const bucketMs = parseBucket(options.bucket ?? null);
+  if (!invalid && options.bucket && !bucketMs) {
+    return NextResponse.json(
+      { success: false, error: "Invalid bucket parameter" },
+      { status: 400 }
+    );
+  }
+  if (invalid) {
+    return NextResponse.json(
+      { success: false, error: invalid },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { batches, nodes } = await loadExportRecords(
+      options,
+      options.type === "historical" ? bucketMs : undefined
+    );
+    const filename = `latency-${options.feed}-${options.type}-${new Date()
+      .toISOString()
+      .slice(0, 10)}.${EXTENSIONS[options.format]}`;
+    const headers = {
+      "Content-Type": EXPORT_CONTENT_TYPES[options.format],
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    };
+
+    if (options.format === "parquet") {
+      return new Response(
+        await writeParquetExport(batches, options.columns, nodes),
+        { headers }
+      );
+    }
+    return new Response(
+      createTextExportStream(options.format, batches, options.columns, nodes),
+      { headers }
+    );
+  } catch (error) {
+    console.error("Latency export error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
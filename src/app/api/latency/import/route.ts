@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from "next/server";
+import { LatencyImportFormat, LatencyImportRequest } from "@/types";
+import {
+  countImportedDatasets,
+  deleteImportedDataset,
+  detectImportFormat,
+  listImportedDatasets,
+  loadImportedLatency,
+  parseImportForCatalog,
+  saveLatencyImport,
+  validateImportRequest,
+} from "@/lib/latencyImport";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Largest capture accepted in one upload
+const MAX_IMPORT_BYTES = 10 * 1024 * 1024;
+
+// Datasets kept at once; more have to wait for a delete
+const MAX_IMPORTED_DATASETS = 20;
+
+const badRequest = (error: string) =>
+  NextResponse.json({ success: false, error }, { status: 400 });
+
+// Helper: Import request from a multipart upload (`curl -F file=@...`)
+async function requestFromForm(
+  request: NextRequest
+): Promise<LatencyImportRequest | string> {
+  const form = await request.formData();
+  const file = form.get("file");
+  if (!file || typeof file === "string") return "Expected a file field";
+  if (file.size > MAX_IMPORT_BYTES) return "File is too large";
+  const content = await file.text();
+  const field = (key: string) => {
+    const value = form.get(key);
+    return typeof value === "string" && value ? value : undefined;
+  };
+  const timestamp = field("timestamp");
+  return {
+    name: field("name") ?? file.name,
+    format:
+      (field("format") as LatencyImportFormat) ??
+      detectImportFormat(file.name, content),
+    content,
+    source: field("source"),
+    target: field("target"),
+    timestamp: timestamp !== undefined ? Number(timestamp) : undefined,
+  };
+}
+
+// Validate, parse against the catalog and store an upload
+async function importDataset(importRequest: LatencyImportRequest) {
+  const invalid = validateImportRequest(importRequest);
+  if (invalid) return badRequest(invalid);
+  if (importRequest.content.length > MAX_IMPORT_BYTES) {
+    return badRequest("File is too large");
+  }
+  if ((await countImportedDatasets()) >= MAX_IMPORTED_DATASETS) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `At most ${MAX_IMPORTED_DATASETS} datasets can be stored; delete one first`,
+      },
+      { status: 409 }
+    );
+  }
+  const parsed = await parseImportForCatalog(importRequest);
+  if (parsed.records.length === 0) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: parsed.issues[0]?.message ?? "No latency records found",
+        skipped: parsed.issues,
+      },
+      { status: 400 }
+    );
+  }
+  return NextResponse.json({
+    success: true,
+    data: await saveLatencyImport(importRequest, parsed),
+    timestamp: Date.now(),
+  });
+}
+
+// Imported datasets; `id` returns one dataset's latency and history
+export async function GET(request: NextRequest) {
+  const id = new URL(request.url).searchParams.get("id");
+
+  try {
+    if (!id) {
+      return NextResponse.json({
+        success: true,
+        data: await listImportedDatasets(),
+        timestamp: Date.now(),
+      });
+    }
+    const imported = await loadImportedLatency(id);
+    if (!imported) {
+      return NextResponse.json(
+        { success: false, error: `Unknown dataset ${id}` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({
+      success: true,
+      data: imported,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error("Latency import API error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (request.headers.get("content-type")?.includes("multipart/form-data")) {
+      const importRequest = await requestFromForm(request);
+      return typeof importRequest === "string"
+        ? badRequest(importRequest)
+        : await importDataset(importRequest);
+    }
+
+    const body = await request.json();
+    const { action, payload } = body;
+
+    switch (action) {
+      case "import":
+        return await importDataset(payload as LatencyImportRequest);
+
+      case "delete": {
+        if (typeof payload?.id !== "string") {
+          return badRequest("Expected payload { id }");
+        }
+        if (!(await deleteImportedDataset(payload.id))) {
+          return NextResponse.json(
+            { success: false, error: `Unknown dataset ${payload.id}` },
+            { status: 404 }
+          );
+        }
+        return NextResponse.json({
+          success: true,
+          data: await listImportedDatasets(),
+          timestamp: Date.now(),
+        });
+      }
+
+      default:
+        return badRequest("Unknown action");
+    }
+  } catch (error) {
+    console.error("Latency import POST error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to process request" },
+      { status: 500 }
+    );
+  }
+}
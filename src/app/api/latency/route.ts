@@ -1,14 +1,47 @@
 import { NextRequest, NextResponse } from "next/server";
+import { generateMockLatencyData, generateMockMetrics } from "@/lib/mockApi";
 import {
-  generateMockLatencyData,
-  generateHistoricalData,
-  generateMockMetrics,
-} from "@/lib/mockApi";
+  appendRecords,
+  ensureMockHistory,
+  HISTORY_BUCKET_MS,
+  isValidFeedName,
+  parseBucket,
+  pickHistoryBucket,
+  queryBuckets,
+  queryDistribution,
+  queryHistory,
+  recordSnapshot,
+  toStoredRecords,
+  validateBucketWindow,
+  validateLatencyRecords,
+} from "@/lib/timeseries";
+import { evaluateLatencyAlerts } from "@/lib/alerts";
+import { loadExchangeCatalog } from "@/lib/exchangeCatalog";
+import { fetchRadarSeries } from "@/lib/radar";
+import {
+  exportOptionsToQuery,
+  parseExportQuery,
+  validateExportOptions,
+} from "@/lib/export";
+import { LatencyData, LatencyExportOptions } from "@/types";
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const type = searchParams.get("type") || "current";
   const days = parseInt(searchParams.get("days") || "7");
+  const feed = searchParams.get("feed") || "mock";
+  const from = searchParams.get("from");
+  const to = searchParams.get("to");
+  const range = {
+    from: from ? parseInt(from) : Date.now() - days * 24 * 60 * 60 * 1000,
+    to: to ? parseInt(to) : undefined,
+  };
+  if (!isValidFeedName(feed)) {
+    return NextResponse.json(
+      { success: false, error: "Invalid feed" },
+      { status: 400 }
+    );
+  }
 
   try {
     // Simulate network delay
@@ -18,7 +51,11 @@ export async function GET(request: NextRequest) {
 
     switch (type) {
       case "current":
-        const currentData = generateMockLatencyData();
+        const currentData = generateMockLatencyData(
+          await loadExchangeCatalog()
+        );
+        await recordSnapshot("mock", currentData);
+        await evaluateLatencyAlerts("mock", currentData);
         return NextResponse.json({
           success: true,
           data: currentData,
@@ -26,15 +63,67 @@ export async function GET(request: NextRequest) {
         });
 
       case "historical":
-        const historicalData = generateHistoricalData(days);
+        if (feed === "mock") await ensureMockHistory();
+        const historicalData = await queryHistory({
+          feed,
+          source: searchParams.get("source") || undefined,
+          target: searchParams.get("target") || undefined,
+          ...range,
+          bucketMs: parseBucket(searchParams.get("bucket")),
+        });
         return NextResponse.json({
           success: true,
           data: historicalData,
           timestamp: Date.now(),
         });
 
+      // Every queried pair together: count/min/avg/max and percentiles per
+      // bucket. For the Radar feed, Radar's own daily series is merged in.
+      case "buckets": {
+        const window = { from: range.from, to: range.to ?? Date.now() };
+        const bucketMs =
+          parseBucket(searchParams.get("bucket")) ??
+          HISTORY_BUCKET_MS[pickHistoryBucket(window.from, window.to)];
+        const invalid = validateBucketWindow(window, bucketMs);
+        if (invalid) {
+          return NextResponse.json(
+            { success: false, error: invalid },
+            { status: 400 }
+          );
+        }
+        if (feed === "mock") await ensureMockHistory();
+        const source = searchParams.get("source") || undefined;
+        const target = searchParams.get("target") || undefined;
+        const extra =
+          feed === "radar" ? await fetchRadarSeries(source, target) : [];
+        return NextResponse.json({
+          success: true,
+          data: await queryBuckets(
+            { feed, source, target, ...window, bucketMs },
+            extra
+          ),
+          timestamp: Date.now(),
+        });
+      }
+
+      case "percentiles":
+        if (feed === "mock") await ensureMockHistory();
+        const distribution = await queryDistribution({
+          feed,
+          source: searchParams.get("source") || undefined,
+          target: searchParams.get("target") || undefined,
+          ...range,
+        });
+        return NextResponse.json({
+          success: true,
+          data: distribution,
+          timestamp: Date.now(),
+        });
+
       case "metrics":
-        const metricsData = generateMockMetrics();
+        const metricsData = generateMockMetrics(
+          await loadExchangeCatalog()
+        );
         return NextResponse.json({
           success: true,
           data: metricsData,
@@ -65,28 +154,74 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const {
-      action,
-      // payload
-    } = body;
+    const { action, payload } = body;
 
     // Simulate different POST actions
     switch (action) {
       case "refresh":
-        const refreshedData = generateMockLatencyData();
+        const refreshedData = generateMockLatencyData(
+          await loadExchangeCatalog()
+        );
         return NextResponse.json({
           success: true,
           data: refreshedData,
           message: "Data refreshed successfully",
         });
 
-      case "export":
-        // Simulate export functionality
+      case "record":
+        // Persist a snapshot captured elsewhere (e.g. an external collector)
+        // and run the alert rules against it
+        if (
+          typeof payload?.feed !== "string" ||
+          !Array.isArray(payload?.data)
+        ) {
+          return NextResponse.json(
+            { success: false, error: "Expected payload { feed, data }" },
+            { status: 400 }
+          );
+        }
+        const invalidRecord = isValidFeedName(payload.feed)
+          ? validateLatencyRecords(payload.data)
+          : "Invalid feed";
+        if (invalidRecord) {
+          return NextResponse.json(
+            { success: false, error: invalidRecord },
+            { status: 400 }
+          );
+        }
+        // Stored as sent (not throttled), and a failed write fails the request
+        await appendRecords(
+          toStoredRecords(payload.feed, payload.data as LatencyData[])
+        );
+        await evaluateLatencyAlerts(
+          payload.feed,
+          payload.data as LatencyData[]
+        );
+        return NextResponse.json({
+          success: true,
+          message: "Snapshot recorded",
+        });
+
+      case "export": {
+        // Validate the export and hand back a link to stream it from;
+        // anything left out of the payload takes the export route's default
+        const options: LatencyExportOptions = {
+          ...parseExportQuery(new URLSearchParams()),
+          ...payload,
+        };
+        const invalid = validateExportOptions(options);
+        if (invalid) {
+          return NextResponse.json(
+            { success: false, error: invalid },
+            { status: 400 }
+          );
+        }
         return NextResponse.json({
           success: true,
-          downloadUrl: "/api/latency/export/data.json",
+          downloadUrl: `/api/latency/export?${exportOptionsToQuery(options)}`,
           message: "Export prepared successfully",
         });
+      }
 
       default:
         return NextResponse.json(
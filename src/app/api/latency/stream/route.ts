@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { LatencyStreamEvent, LatencyStreamSource } from "@/types";
+import { getLatencyFeed, STREAM_SOURCE_IDS } from "@/lib/stream";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_MS = 15000;
+// Suggested client reconnect delay; clients apply their own backoff on top
+const RETRY_MS = 3000;
+
+const formatEvent = (event: LatencyStreamEvent) =>
+  `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const source = (searchParams.get("source") ||
+    "mock") as LatencyStreamSource;
+
+  if (!STREAM_SOURCE_IDS.includes(source)) {
+    return NextResponse.json(
+      { success: false, error: "Invalid source parameter" },
+      { status: 400 }
+    );
+  }
+
+  // EventSource sends Last-Event-ID on its own reconnects; manual reconnects use the query
+  const lastEventId =
+    request.headers.get("last-event-id") || searchParams.get("lastEventId");
+  const feed = getLatencyFeed(source);
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      send(`retry: ${RETRY_MS}\n\n`);
+
+      // Resume from the client's last event when the buffer still covers it,
+      // otherwise start over with a full snapshot
+      const missed = lastEventId ? feed.eventsSince(lastEventId) : null;
+      if (missed) {
+        missed.forEach((event) => send(formatEvent(event)));
+      } else {
+        const snapshot = feed.snapshot();
+        if (snapshot) send(formatEvent(snapshot));
+      }
+
+      const unsubscribe = feed.subscribe((event) => send(formatEvent(event)));
+      const heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
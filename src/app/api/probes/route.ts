@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ProbeResult } from "@/types";
+import {
+  getLastProbeTime,
+  getLatestProbeResults,
+  getProbeHistory,
+  loadProbeConfig,
+  probeResultsToLatencyData,
+  recordProbeResults,
+  runProbes,
+} from "@/lib/probes";
+import {
+  appendRecords,
+  recordSnapshot,
+  toStoredRecords,
+} from "@/lib/timeseries";
+import { evaluateLatencyAlerts } from "@/lib/alerts";
+
+// Probes need raw TCP sockets
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Reuse measurements younger than this instead of re-probing on every request
+const MAX_RESULT_AGE_MS = 30 * 1000;
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const type = searchParams.get("type") || "current";
+  const refresh = searchParams.get("refresh") === "true";
+  const exchangeParam = searchParams.get("exchange");
+  const exchangeIds = exchangeParam ? exchangeParam.split(",") : undefined;
+
+  try {
+    switch (type) {
+      case "current": {
+        const config = await loadProbeConfig();
+        if (
+          refresh ||
+          Date.now() - getLastProbeTime(config.origin) > MAX_RESULT_AGE_MS
+        ) {
+          const fresh = await runProbes(config, exchangeIds);
+          recordProbeResults(fresh);
+          const data = probeResultsToLatencyData(fresh);
+          await recordSnapshot("probes", data);
+          await evaluateLatencyAlerts("probes", data);
+        }
+        const results = getLatestProbeResults().filter(
+          (r) =>
+            !exchangeIds ||
+            exchangeIds.includes(r.source) ||
+            exchangeIds.includes(r.target)
+        );
+        return NextResponse.json({
+          success: true,
+          origin: config.origin,
+          data: probeResultsToLatencyData(results),
+          results,
+          timestamp: Date.now(),
+        });
+      }
+
+      case "historical": {
+        const since = parseInt(searchParams.get("since") || "0");
+        const history = getProbeHistory(since || undefined);
+        return NextResponse.json({
+          success: true,
+          data: history
+            .filter((r) => r.packetLoss < 100)
+            .map((r) => ({
+              timestamp: r.timestamp,
+              latency: r.rtt,
+              source: r.source,
+              target: r.target,
+            })),
+          timestamp: Date.now(),
+        });
+      }
+
+      default:
+        return NextResponse.json(
+          { success: false, error: "Invalid type parameter" },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    console.error("Probe API error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to run probes",
+        details: String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+const isProbeResult = (value: ProbeResult): boolean =>
+  !!value &&
+  typeof value.source === "string" &&
+  typeof value.target === "string" &&
+  typeof value.rtt === "number" &&
+  isFinite(value.rtt) &&
+  value.rtt >= 0 &&
+  typeof value.packetLoss === "number" &&
+  value.packetLoss >= 0 &&
+  value.packetLoss <= 100 &&
+  typeof value.timestamp === "number" &&
+  isFinite(value.timestamp);
+
+// Helper: Agents authenticate with `Authorization: Bearer $PROBE_AGENT_TOKEN`.
+// Without the variable set, ingestion is disabled.
+const isAuthorizedAgent = (request: NextRequest): boolean => {
+  const token = process.env.PROBE_AGENT_TOKEN;
+  return !!token && request.headers.get("authorization") === `Bearer ${token}`;
+};
+
+// Remote probe agents running at other venues push their measurements here
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedAgent(request)) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+  try {
+    const body = await request.json();
+    const results: ProbeResult[] = Array.isArray(body?.results)
+      ? body.results
+      : [];
+    if (results.length === 0 || !results.every(isProbeResult)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            "Expected a non-empty 'results' array with rtt >= 0 and packetLoss 0-100",
+        },
+        { status: 400 }
+      );
+    }
+    const normalized = results.map((r) => ({
+      ...r,
+      jitter: r.jitter ?? 0,
+      min: r.min ?? r.rtt,
+      max: r.max ?? r.rtt,
+      method: r.method ?? "tcp",
+      samples: r.samples ?? 1,
+    }));
+    recordProbeResults(normalized);
+    // Agent results are stored unthrottled; each agent reports its own pairs
+    const data = probeResultsToLatencyData(normalized);
+    await appendRecords(toStoredRecords("probes", data));
+    await evaluateLatencyAlerts("probes", data);
+    return NextResponse.json({ success: true, accepted: results.length });
+  } catch (error) {
+    console.error("Probe ingest error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to process request" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRadarDiagnostics, resetRadarCache } from "@/lib/radar";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Radar proxy cache hits, upstream calls and rate limiter state
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    data: getRadarDiagnostics(),
+    timestamp: Date.now(),
+  });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { action } = await request.json();
+    if (action !== "reset") {
+      return NextResponse.json(
+        { success: false, error: "Unknown action" },
+        { status: 400 }
+      );
+    }
+    resetRadarCache();
+    return NextResponse.json({
+      success: true,
+      data: getRadarDiagnostics(),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error("Radar diagnostics POST error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to process request" },
+      { status: 500 }
+    );
+  }
+}
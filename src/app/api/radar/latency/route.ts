@@ -1,14 +1,31 @@
 import { NextRequest, NextResponse } from "next/server";
+import { RadarCacheStatus, RadarResponse } from "@/types";
+import { fetchRadar, isRadarLocationCode, radarApiKey } from "@/lib/radar";
 
-const RADAR_API_BASE = "https://api.cloudflare.com/client/v4/radar";
-const API_KEY = process.env.CLOUDFLARE_API_KEY;
+// Helper: Pass a (possibly cached) Radar reply on, with CORS for localhost dev
+const radarResponse = (response: RadarResponse, cache: RadarCacheStatus) => {
+  const res = response.error
+    ? NextResponse.json(
+        { success: false, error: response.error, details: response.details },
+        { status: response.status }
+      )
+    : NextResponse.json({ success: true, data: response.data });
+  res.headers.set("X-Cache", cache.toUpperCase());
+  res.headers.set("Access-Control-Allow-Origin", "*");
+  res.headers.set("Access-Control-Allow-Methods", "GET, OPTIONS");
+  res.headers.set(
+    "Access-Control-Allow-Headers",
+    "Content-Type, Authorization"
+  );
+  return res;
+};
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const type = searchParams.get("type") || "realtime";
   const location = searchParams.get("location") || "US";
 
-  if (!API_KEY) {
+  if (!radarApiKey()) {
     return NextResponse.json(
       {
         success: false,
@@ -18,47 +35,22 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  let radarUrl = "";
-  if (type === "realtime") {
-    radarUrl = `${RADAR_API_BASE}/quality/speed/summary?location=${location}`;
-  } else if (type === "historical") {
-    radarUrl = `${RADAR_API_BASE}/quality/iqi/timeseries_groups?location=${location}&metric=latency&aggInterval=1d&dateRange=30d`;
-  } else {
+  if (type !== "realtime" && type !== "historical") {
     return NextResponse.json(
       { success: false, error: "Invalid type parameter" },
       { status: 400 }
     );
   }
+  if (!isRadarLocationCode(location)) {
+    return NextResponse.json(
+      { success: false, error: "Invalid location parameter" },
+      { status: 400 }
+    );
+  }
 
   try {
-    const radarRes = await fetch(radarUrl, {
-      headers: {
-        Authorization: `Bearer ${API_KEY}`,
-        "Content-Type": "application/json",
-      },
-    });
-    if (!radarRes.ok) {
-      const text = await radarRes.text();
-      console.error("Radar API error:", radarUrl, radarRes.status, text);
-      return NextResponse.json(
-        {
-          success: false,
-          error: `Radar API error: ${radarRes.status}`,
-          details: text,
-        },
-        { status: radarRes.status }
-      );
-    }
-    const data = await radarRes.json();
-    // Set CORS headers for localhost dev
-    const response = NextResponse.json({ success: true, data });
-    response.headers.set("Access-Control-Allow-Origin", "*");
-    response.headers.set("Access-Control-Allow-Methods", "GET, OPTIONS");
-    response.headers.set(
-      "Access-Control-Allow-Headers",
-      "Content-Type, Authorization"
-    );
-    return response;
+    const { response, cache } = await fetchRadar(type, location);
+    return radarResponse(response, cache);
   } catch (error) {
     console.error("Internal server error:", error);
     return NextResponse.json(
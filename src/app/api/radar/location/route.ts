@@ -1,72 +1,139 @@
 import { NextRequest, NextResponse } from "next/server";
+import { RadarLocationRegistry } from "@/types";
+import {
+  isRadarLocationCode,
+  loadRadarLocations,
+  normalizeRadarLocationCodes,
+  resolveRadarLocation,
+  saveMonitoredRadarLocations,
+  validateRadarLocationCodes,
+} from "@/lib/radar";
 
-const RADAR_API_BASE = "https://api.cloudflare.com/client/v4/radar";
-const API_KEY = process.env.CLOUDFLARE_API_KEY;
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
 
-export async function GET(request: NextRequest) {
-  const { searchParams } = new URL(request.url);
-  const code = searchParams.get("code");
+// Helper: Allow localhost dev clients on other ports to read (not edit) the
+// registry
+const withCors = (res: NextResponse) => {
+  res.headers.set("Access-Control-Allow-Origin", "*");
+  res.headers.set("Access-Control-Allow-Methods", "GET, OPTIONS");
+  res.headers.set(
+    "Access-Control-Allow-Headers",
+    "Content-Type, Authorization"
+  );
+  return res;
+};
 
-  if (!API_KEY) {
-    return NextResponse.json(
-      {
-        success: false,
-        error: "CLOUDFLARE_API_KEY is not set in environment variables.",
-      },
-      { status: 500 }
-    );
-  }
+const badRequest = (error: string) =>
+  NextResponse.json({ success: false, error }, { status: 400 });
 
-  if (!code) {
-    return NextResponse.json(
-      { success: false, error: "Missing 'code' query parameter" },
-      { status: 400 }
-    );
-  }
+// Helper: Respond with the registry plus where the monitored set came from
+const registryResponse = (registry: RadarLocationRegistry) =>
+  NextResponse.json({
+    success: true,
+    data: registry,
+    timestamp: Date.now(),
+  });
 
-  const radarUrl = `${RADAR_API_BASE}/entities/locations/${code}`;
+// Without ?code, the location registry; with it, one country's metadata
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const code = searchParams.get("code");
 
   try {
-    const radarRes = await fetch(radarUrl, {
-      headers: {
-        Authorization: `Bearer ${API_KEY}`,
-        "Content-Type": "application/json",
-      },
-    });
-    if (!radarRes.ok) {
-      const text = await radarRes.text();
-      console.error(
-        "Radar Location API error:",
-        radarUrl,
-        radarRes.status,
-        text
+    if (code === null) {
+      return withCors(registryResponse(await loadRadarLocations()));
+    }
+    if (!isRadarLocationCode(code)) {
+      return withCors(badRequest("Invalid 'code' query parameter"));
+    }
+
+    const { location, response } = await resolveRadarLocation(code);
+    if (!location) {
+      return withCors(
+        NextResponse.json(
+          {
+            success: false,
+            error: response?.error,
+            details: response?.details,
+          },
+          { status: response?.status ?? 502 }
+        )
       );
-      return NextResponse.json(
+    }
+    return withCors(NextResponse.json({ success: true, data: location }));
+  } catch (error) {
+    console.error("Internal server error (location):", error);
+    return withCors(
+      NextResponse.json(
         {
           success: false,
-          error: `Radar Location API error: ${radarRes.status}`,
-          details: text,
+          error: "Internal server error",
+          details: String(error),
         },
-        { status: radarRes.status }
-      );
-    }
-    const data = await radarRes.json();
-    const response = NextResponse.json({ success: true, data });
-    response.headers.set("Access-Control-Allow-Origin", "*");
-    response.headers.set("Access-Control-Allow-Methods", "GET, OPTIONS");
-    response.headers.set(
-      "Access-Control-Allow-Headers",
-      "Content-Type, Authorization"
+        { status: 500 }
+      )
     );
-    return response;
+  }
+}
+
+// Change which countries the Radar feed monitors
+export async function POST(request: NextRequest) {
+  try {
+    const { action, payload } = await request.json();
+    const registry = await loadRadarLocations();
+
+    switch (action) {
+      case "add": {
+        if (!isRadarLocationCode(payload?.code)) {
+          return badRequest("Expected payload { code } with a country code");
+        }
+        return registryResponse(
+          await saveMonitoredRadarLocations(
+            normalizeRadarLocationCodes([...registry.monitored, payload.code])
+          )
+        );
+      }
+
+      case "remove": {
+        if (typeof payload?.code !== "string") {
+          return badRequest("Expected payload { code }");
+        }
+        const code = payload.code.toUpperCase();
+        if (!registry.monitored.includes(code)) {
+          return NextResponse.json(
+            { success: false, error: `${code} is not monitored` },
+            { status: 404 }
+          );
+        }
+        return registryResponse(
+          await saveMonitoredRadarLocations(
+            registry.monitored.filter((c) => c !== code)
+          )
+        );
+      }
+
+      case "replace": {
+        const invalid = validateRadarLocationCodes(payload?.codes);
+        if (invalid) return badRequest(invalid);
+        return registryResponse(
+          await saveMonitoredRadarLocations(
+            normalizeRadarLocationCodes(payload.codes)
+          )
+        );
+      }
+
+      // Back to RADAR_LOCATIONS from the server config
+      case "reset":
+        return registryResponse(await saveMonitoredRadarLocations(null));
+
+      default:
+        return badRequest("Unknown action");
+    }
   } catch (error) {
-    console.error("Internal server error (location):", error);
+    console.error("Radar location POST error:", error);
     return NextResponse.json(
-      {
-        success: false,
-        error: "Internal server error",
-        details: String(error),
-      },
+      { success: false, error: "Failed to process request" },
       { status: 500 }
     );
   }
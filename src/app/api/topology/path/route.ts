@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { LatencyStreamSource } from "@/types";
+import { createLatencyConnections } from "@/lib/exchangeData";
+import { loadExchangeCatalog } from "@/lib/exchangeCatalog";
+import { getCurrentLatencyData, STREAM_SOURCE_IDS } from "@/lib/stream";
+import { findFastestPaths } from "@/lib/topology";
+
+export const dynamic = "force-dynamic";
+
+const MAX_PATHS = 10;
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const from = searchParams.get("from");
+  const to = searchParams.get("to");
+  const k = Math.min(
+    Math.max(parseInt(searchParams.get("k") || "3") || 1, 1),
+    MAX_PATHS
+  );
+  const source = (searchParams.get("source") ||
+    "mock") as LatencyStreamSource;
+
+  if (!from || !to) {
+    return NextResponse.json(
+      { success: false, error: "Missing 'from' or 'to' query parameter" },
+      { status: 400 }
+    );
+  }
+  if (!STREAM_SOURCE_IDS.includes(source)) {
+    return NextResponse.json(
+      { success: false, error: "Invalid source parameter" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const connections = createLatencyConnections(
+      await loadExchangeCatalog(),
+      await getCurrentLatencyData(source)
+    );
+    const paths = findFastestPaths(connections, from, to, k);
+    if (paths.length === 0) {
+      return NextResponse.json(
+        { success: false, error: `No path from ${from} to ${to}` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({
+      success: true,
+      data: { from, to, paths },
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error("Topology path error:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
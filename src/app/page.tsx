@@ -1,134 +1,251 @@
 "use client";
 
 import React, { useState, useCallback, useEffect } from "react";
-import { MapPin, BarChart3, RefreshCw, X } from "lucide-react";
+import {
+  Activity,
+  MapPin,
+  BarChart3,
+  Bell,
+  Download,
+  Globe,
+  RefreshCw,
+  Route,
+  Upload,
+} from "lucide-react";
 import Map3D from "../components/Map3D";
+import AlertCenter from "@/components/AlertCenter";
+import ConnectionQualityTable from "@/components/ConnectionQualityTable";
 import ControlPanel from "@/components/ControlPanel";
+import ExchangeDetailPanel from "@/components/ExchangeDetailPanel";
+import ExportPanel from "@/components/ExportPanel";
+import ImportPanel from "@/components/ImportPanel";
 import LatencyChart from "@/components/LatencyChart";
 import Legend from "@/components/Legend";
 import LoadingSpinner from "@/components/LoadingSpinner";
 import MetricsDashboard from "@/components/MetricsDashboard";
+import PathFinder from "@/components/PathFinder";
+import PlaybackTimeline from "@/components/PlaybackTimeline";
+import RadarLocationPanel from "@/components/RadarLocationPanel";
+import RegionDetails from "@/components/RegionDetails";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { useLatencyData } from "@/hooks/useLatencyData";
-import { useExchangeData } from "@/hooks/useExchangeData";
 import {
-  FilterOptions,
+  LatencyStoreProvider,
+  useLatencyStore,
+} from "@/components/LatencyStoreProvider";
+import { useAlerts } from "@/hooks/useAlerts";
+import { usePlayback } from "@/hooks/usePlayback";
+import { useViewStateUrl } from "@/hooks/useViewStateUrl";
+import { useRadarLocations } from "@/hooks/useRadarLocations";
+import {
   VisualizationSettings,
   ThemeSettings,
   TimeRange,
-  ExchangeLocation,
+  LatencyPath,
+  NetworkNode,
+  CloudRegionCluster,
+  CameraPosition,
+  ViewState,
 } from "@/types";
-import { createLatencyConnections } from "@/lib/exchangeData";
+import { CLOUD_REGIONS } from "@/constants/exchangeLocations";
+import {
+  DEFAULT_THEME,
+  DEFAULT_TIME_RANGE,
+  DEFAULT_VISUALIZATION_SETTINGS,
+} from "@/constants/viewDefaults";
+import {
+  buildRegionClusters,
+  createLatencyConnections,
+  describeNode,
+} from "@/lib/exchangeData";
+import { detectCurrentAnomalies } from "@/lib/anomalyDetection";
+import { buildPlaybackFrames } from "@/lib/playback";
+import {
+  selectFilteredConnections,
+  selectFilteredNodes,
+  selectShownMetrics,
+} from "@/lib/latencyStore";
+import { buildViewUrl } from "@/lib/viewState";
+import { buildExportOptions } from "@/lib/export/query";
+import { TIME_RANGE_MS } from "@/lib/chartUtils";
 import { PerformanceMonitor } from "@/components/PerformanceMonitor";
 import { MobileNavigation } from "@/components/MobileNavigation";
-import { synthesizeRegionExchanges } from "@/hooks/useLatencyData";
 import useIsMobile from "@/hooks/useIsMobile";
 import { Tooltip } from "@/components/ui/tooltip";
 
-export default function CryptoLatencyVisualizer() {
-  const [theme, setTheme] = useState<ThemeSettings>({
-    mode: "dark",
-    mapStyle: "realistic",
-  });
-
-  const [filters, setFilters] = useState<FilterOptions>({
-    exchanges: [],
-    cloudProviders: [],
-    latencyRange: { min: 0, max: 500 },
-    showRealTime: true,
-    showHistorical: false,
-    showRegions: true,
-  });
+export default function Page() {
+  return (
+    <LatencyStoreProvider>
+      <CryptoLatencyVisualizer />
+    </LatencyStoreProvider>
+  );
+}
+
+function CryptoLatencyVisualizer() {
+  const [theme, setTheme] = useState<ThemeSettings>(DEFAULT_THEME);
 
   const [visualizationSettings, setVisualizationSettings] =
-    useState<VisualizationSettings>({
-      showLatencyHeatmap: false,
-      showNetworkTopology: true,
-      showDataFlow: true,
-      animationSpeed: 1.0,
-      particleCount: 50,
-    });
+    useState<VisualizationSettings>(DEFAULT_VISUALIZATION_SETTINGS);
 
   // Chart state
   const [selectedPair, setSelectedPair] = useState<
     { source: string; target: string } | undefined
   >();
-  const [timeRange, setTimeRange] = useState<TimeRange>("24h");
+  const [timeRange, setTimeRange] = useState<TimeRange>(DEFAULT_TIME_RANGE);
   const [showChart, setShowChart] = useState(false);
 
-  // State for region exchanges
-  const [regionExchanges, setRegionExchanges] = useState<ExchangeLocation[]>(
-    []
+  // Camera: the last position the user orbited to, and one to move the globe
+  // to when a view is restored from the URL
+  const [camera, setCamera] = useState<CameraPosition | null>(null);
+  const [restoredCamera, setRestoredCamera] = useState<CameraPosition>();
+  // Exchange selected by a link, held until the exchange list has loaded
+  const [pendingExchangeId, setPendingExchangeId] = useState<string | null>(
+    null
+  );
+
+  // Route finder state
+  const [highlightedPath, setHighlightedPath] = useState<LatencyPath | null>(
+    null
   );
-  const [regionExError, setRegionExError] = useState<string | null>(null);
-  const [regionExLoading, setRegionExLoading] = useState(false);
 
-  // Data hooks
+  // Cloud region drill-down
+  const [selectedRegionId, setSelectedRegionId] = useState<string | null>(
+    null
+  );
+
+  const [selectedExchange, setSelectedExchange] = useState<NetworkNode | null>(
+    null
+  );
+  const [hoveredExchange, setHoveredExchange] = useState<NetworkNode | null>(
+    null
+  );
+
+  // One snapshot of the feed, shared with every view
+  const store = useLatencyStore();
   const {
+    filters,
+    setFilters,
     latencyData,
     historicalData,
+    nodes,
+    connections,
     metrics,
     isLoading,
     error,
     refreshData,
     lastUpdated,
-  } = useLatencyData(5 * 60 * 1000); // Refresh every 5 minutes (passed as prop)
+    dataSource,
+    streamStatus,
+    statusReports,
+    incidents,
+    imports,
+  } = store;
+  const filteredNodes = selectFilteredNodes(store);
+  const filteredConnections = selectFilteredConnections(store);
+  const shownMetrics = selectShownMetrics(store);
+
+  // Countries the Radar feed monitors; refetch when the set changes
+  const radarLocations = useRadarLocations(refreshData);
+  const isRadarFeed = dataSource.id === "radar";
+
+  // Alert rules run server-side on each update; refetch when data refreshes
+  const alertCenter = useAlerts(15000, lastUpdated);
+
+  // Historical playback: replay stored snapshots over the chart's range
+  const playbackFrames = React.useMemo(() => {
+    if (!filters.showHistorical) return [];
+    const to = lastUpdated || Date.now();
+    return buildPlaybackFrames(
+      historicalData,
+      to - TIME_RANGE_MS[timeRange],
+      to
+    );
+  }, [filters.showHistorical, historicalData, timeRange, lastUpdated]);
+  const playback = usePlayback(playbackFrames);
+  const replayFrame = filters.showHistorical ? playback.frame : null;
+
+  // What the map shows: the replayed snapshot, or the live feed
+  const displayedLatency = replayFrame ? replayFrame.data : latencyData;
+  const mapConnections = React.useMemo(
+    () =>
+      replayFrame
+        ? createLatencyConnections(nodes, replayFrame.data)
+        : connections,
+    [replayFrame, nodes, connections]
+  );
 
-  const {
-    exchanges,
-    // connections,
-    filteredExchanges,
-    filteredConnections,
-    selectedExchange,
-    setSelectedExchange,
-    hoveredExchange,
-    setHoveredExchange,
-  } = useExchangeData(filters);
-
-  console.log(JSON.stringify(latencyData, null, 2));
-
-  // Fetch region exchanges when latencyData changes
+  // Cloud regions with the exchanges they host and live average latency
+  const regionClusters = React.useMemo(
+    () => buildRegionClusters(CLOUD_REGIONS, filteredNodes, mapConnections),
+    [filteredNodes, mapConnections]
+  );
+  const selectedRegion = regionClusters.find((r) => r.id === selectedRegionId);
+
+  // Pairs whose latest (or replayed) latency is unusual for that pair
+  const anomalies = React.useMemo(
+    () => detectCurrentAnomalies(historicalData, displayedLatency),
+    [historicalData, displayedLatency]
+  );
+
+  // Select an exchange restored from the URL once it's known
   useEffect(() => {
-    let cancelled = false;
-    async function fetchRegions() {
-      setRegionExLoading(true);
-      setRegionExError(null);
-      try {
-        const regions = await synthesizeRegionExchanges(latencyData);
-        if (!cancelled) setRegionExchanges(regions);
-      } catch (e: unknown) {
-        const errorMessage = e instanceof Error ? e.message : "Unknown error";
-        if (!cancelled) setRegionExError(errorMessage);
-      } finally {
-        if (!cancelled) setRegionExLoading(false);
-      }
+    if (!pendingExchangeId) return;
+    const exchange = nodes.find((e) => e.id === pendingExchangeId);
+    if (exchange) {
+      setSelectedExchange(exchange);
+      setPendingExchangeId(null);
     }
-    if (latencyData.length > 0) fetchRegions();
-    else setRegionExchanges([]);
-    return () => {
-      cancelled = true;
-    };
-  }, [latencyData]);
-
-  // Merge real and region exchanges for the map and connections
-  const allExchanges = React.useMemo(
-    () => [...exchanges, ...regionExchanges],
-    [exchanges, regionExchanges]
+  }, [pendingExchangeId, nodes, setSelectedExchange]);
+
+  // Shareable view state, mirrored into the URL
+  const viewState = React.useMemo<ViewState>(
+    () => ({
+      filters,
+      visualization: visualizationSettings,
+      theme,
+      selectedExchangeId: selectedExchange?.id ?? pendingExchangeId,
+      selectedPair: selectedPair ?? null,
+      timeRange,
+      camera,
+    }),
+    [
+      filters,
+      visualizationSettings,
+      theme,
+      selectedExchange,
+      pendingExchangeId,
+      selectedPair,
+      timeRange,
+      camera,
+    ]
   );
-  const allFilteredExchanges = React.useMemo(
-    () => [...filteredExchanges, ...regionExchanges],
-    [filteredExchanges, regionExchanges]
+
+  const restoreViewState = useCallback(
+    (view: ViewState) => {
+      setFilters(view.filters);
+      setVisualizationSettings(view.visualization);
+      setTheme(view.theme);
+      setTimeRange(view.timeRange);
+      setSelectedPair(view.selectedPair ?? undefined);
+      setPendingExchangeId(view.selectedExchangeId);
+      if (!view.selectedExchangeId) setSelectedExchange(null);
+      setCamera(view.camera);
+      if (view.camera) setRestoredCamera(view.camera);
+    },
+    [setFilters]
   );
 
-  // Calculate uptime as percent of online exchanges in allFilteredExchanges
-  const onlineCount = allFilteredExchanges.filter(
-    (e) => e.status === "online"
-  ).length;
-  const uptime =
-    allFilteredExchanges.length > 0
-      ? (onlineCount / allFilteredExchanges.length) * 100
-      : 0;
+  useViewStateUrl(viewState, restoreViewState);
+
+  const getShareUrl = useCallback(
+    () => buildViewUrl(viewState, window.location.href),
+    [viewState]
+  );
+
+  const getExportOptions = useCallback(
+    () => buildExportOptions(filters, timeRange, dataSource.id),
+    [filters, timeRange, dataSource.id]
+  );
 
   // Apply theme to document
   useEffect(() => {
@@ -137,7 +254,7 @@ export default function CryptoLatencyVisualizer() {
 
   // Handle exchange click
   const handleExchangeClick = useCallback(
-    (exchange: ExchangeLocation) => {
+    (exchange: NetworkNode) => {
       setSelectedExchange(exchange);
 
       // Find a connection involving this exchange for the chart
@@ -157,9 +274,15 @@ export default function CryptoLatencyVisualizer() {
     [filteredConnections, setSelectedExchange]
   );
 
+  // Handle cloud region click: drill into the exchanges it hosts
+  const handleRegionClick = useCallback((region: CloudRegionCluster) => {
+    setSelectedRegionId(region.id);
+    setOpenPopup("region");
+  }, []);
+
   // Handle exchange hover
   const handleExchangeHover = useCallback(
-    (exchange: ExchangeLocation | null) => {
+    (exchange: NetworkNode | null) => {
       setHoveredExchange(exchange);
     },
     [setHoveredExchange]
@@ -171,7 +294,17 @@ export default function CryptoLatencyVisualizer() {
   >("map");
   // Floating panel state for desktop
   const [openPopup, setOpenPopup] = useState<
-    "control" | "metrics" | "chart" | null
+    | "control"
+    | "metrics"
+    | "chart"
+    | "path"
+    | "alerts"
+    | "region"
+    | "links"
+    | "export"
+    | "import"
+    | "locations"
+    | null
   >("metrics");
 
   const isTabletOrMobile = useIsMobile(1024);
@@ -184,7 +317,7 @@ export default function CryptoLatencyVisualizer() {
   }, [isTabletOrMobile]);
 
   // Error state
-  if (error || regionExError) {
+  if (error) {
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
         <Card className="p-8 text-center max-w-md">
@@ -192,9 +325,7 @@ export default function CryptoLatencyVisualizer() {
             <MapPin className="w-12 h-12 mx-auto" />
           </div>
           <h2 className="text-xl font-semibold mb-2">Unable to Load Data</h2>
-          <p className="text-gray-600 dark:text-gray-400 mb-4">
-            {error || regionExError}
-          </p>
+          <p className="text-gray-600 dark:text-gray-400 mb-4">{error}</p>
           <Button onClick={refreshData}>
             <RefreshCw className="w-4 h-4 mr-2" />
             Try Again
@@ -203,7 +334,7 @@ export default function CryptoLatencyVisualizer() {
       </div>
     );
   }
-  if (isLoading || regionExLoading) {
+  if (isLoading) {
     return (
       <div className="fixed inset-0 bg-black/20 dark:bg-black/40 backdrop-blur-sm z-50 flex items-center justify-center">
         <Card className="p-8">
@@ -251,6 +382,73 @@ export default function CryptoLatencyVisualizer() {
                 <BarChart3 className="w-4 h-4 mr-2" />
                 {openPopup === "chart" ? "Hide" : "Show"} Chart
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setOpenPopup(openPopup === "path" ? null : "path")
+                }
+              >
+                <Route className="w-4 h-4 mr-2" />
+                Route
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setOpenPopup(openPopup === "links" ? null : "links")
+                }
+              >
+                <Activity className="w-4 h-4 mr-2" />
+                Links
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setOpenPopup(openPopup === "alerts" ? null : "alerts")
+                }
+              >
+                <Bell className="w-4 h-4 mr-2" />
+                Alerts
+                {alertCenter.unacknowledgedCount > 0 && (
+                  <span className="ml-2 rounded-full bg-red-600 px-1.5 text-xs text-white">
+                    {alertCenter.unacknowledgedCount}
+                  </span>
+                )}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setOpenPopup(openPopup === "export" ? null : "export")
+                }
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Export
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setOpenPopup(openPopup === "import" ? null : "import")
+                }
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Import
+              </Button>
+              {isRadarFeed && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setOpenPopup(openPopup === "locations" ? null : "locations")
+                  }
+                >
+                  <Globe className="w-4 h-4 mr-2" />
+                  Locations
+                </Button>
+              )}
               <Button variant="outline" size="sm" onClick={refreshData}>
                 <RefreshCw
                   className={`w-4 h-4 mr-2 ${isLoading ? "animate-spin" : ""}`}
@@ -282,6 +480,8 @@ export default function CryptoLatencyVisualizer() {
                 onViewChange={setActiveView}
                 isLoading={isLoading}
                 showOnlyMenu={true}
+                getShareUrl={getShareUrl}
+                getExportOptions={getExportOptions}
               />
             </div>
           )}
@@ -295,6 +495,8 @@ export default function CryptoLatencyVisualizer() {
           onViewChange={setActiveView}
           isLoading={isLoading}
           showOnlyBottomNav={true}
+          getShareUrl={getShareUrl}
+          getExportOptions={getExportOptions}
         />
       )}
 
@@ -306,11 +508,8 @@ export default function CryptoLatencyVisualizer() {
             {activeView === "map" && (
               <div className="h-screen w-full">
                 <Map3D
-                  exchanges={allFilteredExchanges}
-                  connections={createLatencyConnections(
-                    allExchanges,
-                    latencyData
-                  )}
+                  exchanges={filteredNodes}
+                  connections={mapConnections}
                   filters={filters}
                   visualizationSettings={visualizationSettings}
                   theme={theme.mode}
@@ -318,7 +517,48 @@ export default function CryptoLatencyVisualizer() {
                   onExchangeClick={handleExchangeClick}
                   onExchangeHover={handleExchangeHover}
                   isMobile={true}
+                  highlightedPath={highlightedPath}
+                  anomalies={anomalies}
+                  regions={regionClusters}
+                  selectedRegionId={selectedRegionId}
+                  onRegionClick={(region) => setSelectedRegionId(region.id)}
+                  isReplaying={!!replayFrame}
+                  cameraPosition={restoredCamera}
+                  onCameraChange={setCamera}
                 />
+                {filters.showHistorical && (
+                  <PlaybackTimeline
+                    frames={playbackFrames}
+                    playback={playback}
+                    className="absolute bottom-24 inset-x-2 z-30"
+                  />
+                )}
+                {selectedExchange && (
+                  <ExchangeDetailPanel
+                    exchange={selectedExchange}
+                    exchanges={nodes}
+                    connections={mapConnections}
+                    history={historicalData}
+                    timeRange={timeRange}
+                    statusReport={statusReports.get(selectedExchange.id)}
+                    incidents={incidents}
+                    onPairSelect={(pair) => {
+                      setSelectedPair(pair);
+                      setActiveView("chart");
+                    }}
+                    onExchangeSelect={handleExchangeClick}
+                    onClose={() => setSelectedExchange(null)}
+                    className="absolute top-20 inset-x-2 z-30 max-h-[50vh] overflow-y-auto"
+                  />
+                )}
+                {selectedRegion && !selectedExchange && (
+                  <RegionDetails
+                    region={selectedRegion}
+                    onExchangeClick={handleExchangeClick}
+                    onClose={() => setSelectedRegionId(null)}
+                    className="absolute top-20 inset-x-2 z-30 max-h-[50vh] overflow-y-auto"
+                  />
+                )}
               </div>
             )}
             {activeView === "chart" && (
@@ -330,6 +570,12 @@ export default function CryptoLatencyVisualizer() {
                   onTimeRangeChange={setTimeRange}
                   theme={theme.mode}
                   className="h-full"
+                  cursorTimestamp={replayFrame?.timestamp}
+                  onCursorChange={
+                    filters.showHistorical
+                      ? playback.seekToTimestamp
+                      : undefined
+                  }
                 />
               </div>
             )}
@@ -350,20 +596,41 @@ export default function CryptoLatencyVisualizer() {
               <div className="my-10 mb-28 z-40 bg-white dark:bg-gray-900 overflow-y-auto flex flex-col items-center justify-center">
                 {/* Info tab redesign will be implemented next */}
                 <Legend className="w-full max-w-md mx-auto mb-4" />
-                <MetricsDashboard
-                  metrics={{
-                    totalExchanges: allFilteredExchanges.length,
-                    activeConnections: filteredConnections.length,
-                    averageLatency:
-                      filteredConnections.length > 0
-                        ? filteredConnections.reduce(
-                            (sum, c) => sum + c.latency,
-                            0
-                          ) / filteredConnections.length
-                        : 0,
-                    uptime,
-                    lastUpdated: lastUpdated,
+                <AlertCenter
+                  center={alertCenter}
+                  exchanges={nodes}
+                  className="w-full max-w-md mx-auto mb-4"
+                />
+                <ConnectionQualityTable
+                  connections={mapConnections}
+                  packetLossThreshold={
+                    visualizationSettings.packetLossThreshold
+                  }
+                  jitterThreshold={visualizationSettings.jitterThreshold}
+                  onPairSelect={(pair) => {
+                    setSelectedPair(pair);
+                    setActiveView("chart");
                   }}
+                  className="w-full max-w-md mx-auto mb-4"
+                />
+                <ExportPanel
+                  filters={filters}
+                  timeRange={timeRange}
+                  feed={dataSource.id}
+                  className="w-full max-w-md mx-auto mb-4"
+                />
+                <ImportPanel
+                  imports={imports}
+                  className="w-full max-w-md mx-auto mb-4"
+                />
+                {isRadarFeed && (
+                  <RadarLocationPanel
+                    locations={radarLocations}
+                    className="w-full max-w-md mx-auto mb-4"
+                  />
+                )}
+                <MetricsDashboard
+                  metrics={shownMetrics}
                   isLoading={isLoading}
                   className="w-full max-w-md mx-auto"
                   isOpen={true}
@@ -375,16 +642,37 @@ export default function CryptoLatencyVisualizer() {
         ) : (
           <div className="h-screen relative">
             <Map3D
-              exchanges={allFilteredExchanges}
-              connections={createLatencyConnections(allExchanges, latencyData)}
+              exchanges={filteredNodes}
+              connections={mapConnections}
               filters={filters}
               visualizationSettings={visualizationSettings}
               theme={theme.mode}
               mapStyle={theme.mapStyle}
               onExchangeClick={handleExchangeClick}
               onExchangeHover={handleExchangeHover}
+              highlightedPath={highlightedPath}
+              anomalies={anomalies}
+              regions={regionClusters}
+              selectedRegionId={
+                openPopup === "region" ? selectedRegionId : null
+              }
+              onRegionClick={handleRegionClick}
+              isReplaying={!!replayFrame}
+              cameraPosition={restoredCamera}
+              onCameraChange={setCamera}
             />
 
+            {/* Historical playback timeline */}
+            {filters.showHistorical && (
+              <PlaybackTimeline
+                frames={playbackFrames}
+                playback={playback}
+                className={`fixed left-64 right-[25rem] z-30 ${
+                  openPopup === "chart" ? "bottom-[26.5rem]" : "bottom-10"
+                }`}
+              />
+            )}
+
             {/* Control Panel as popup */}
             <ControlPanel
               filters={filters}
@@ -403,19 +691,7 @@ export default function CryptoLatencyVisualizer() {
 
             {/* Metrics Dashboard as popup */}
             <MetricsDashboard
-              metrics={{
-                totalExchanges: allFilteredExchanges.length,
-                activeConnections: filteredConnections.length,
-                averageLatency:
-                  filteredConnections.length > 0
-                    ? filteredConnections.reduce(
-                        (sum, c) => sum + c.latency,
-                        0
-                      ) / filteredConnections.length
-                    : 0,
-                uptime,
-                lastUpdated: lastUpdated,
-              }}
+              metrics={shownMetrics}
               isLoading={isLoading}
               className="fixed bottom-10 right-2 z-30 w-96"
               isOpen={openPopup === "metrics"}
@@ -425,57 +701,100 @@ export default function CryptoLatencyVisualizer() {
 
             <PerformanceMonitor className="fixed top-22 left-2 z-30 w-60 max-w-sm" />
 
-            {/* Selected Exchange Info */}
+            {/* Alert center as popup */}
+            {openPopup === "alerts" && (
+              <AlertCenter
+                center={alertCenter}
+                exchanges={nodes}
+                onClose={() => setOpenPopup(null)}
+                className="fixed top-22 right-2 z-50 w-96"
+              />
+            )}
+
+            {/* Route finder as popup */}
+            {openPopup === "path" && (
+              <PathFinder
+                exchanges={nodes}
+                connections={connections}
+                selectedPath={highlightedPath}
+                onPathSelect={setHighlightedPath}
+                onClose={() => setOpenPopup(null)}
+                className="fixed top-22 right-2 z-30 w-80"
+              />
+            )}
+
+            {/* Link quality table as popup */}
+            {openPopup === "links" && (
+              <ConnectionQualityTable
+                connections={mapConnections}
+                packetLossThreshold={visualizationSettings.packetLossThreshold}
+                jitterThreshold={visualizationSettings.jitterThreshold}
+                onPairSelect={(pair) => {
+                  setSelectedPair(pair);
+                  setOpenPopup("chart");
+                }}
+                onClose={() => setOpenPopup(null)}
+                className="fixed top-22 right-2 z-30 w-[28rem] max-h-[70vh] overflow-y-auto"
+              />
+            )}
+
+            {/* Export column picker as popup */}
+            {openPopup === "export" && (
+              <ExportPanel
+                filters={filters}
+                timeRange={timeRange}
+                feed={dataSource.id}
+                onClose={() => setOpenPopup(null)}
+                className="fixed top-22 right-2 z-30 w-96 max-h-[70vh] overflow-y-auto"
+              />
+            )}
+
+            {/* Dataset import as popup */}
+            {openPopup === "import" && (
+              <ImportPanel
+                imports={imports}
+                onClose={() => setOpenPopup(null)}
+                className="fixed top-22 right-2 z-30 w-96 max-h-[70vh] overflow-y-auto"
+              />
+            )}
+
+            {/* Radar location picker as popup */}
+            {openPopup === "locations" && isRadarFeed && (
+              <RadarLocationPanel
+                locations={radarLocations}
+                onClose={() => setOpenPopup(null)}
+                className="fixed top-22 right-2 z-30 w-80 max-h-[70vh] overflow-y-auto"
+              />
+            )}
+
+            {/* Cloud region drill-down as popup */}
+            {openPopup === "region" && selectedRegion && (
+              <RegionDetails
+                region={selectedRegion}
+                onExchangeClick={handleExchangeClick}
+                onClose={() => setOpenPopup(null)}
+                className="fixed top-22 right-2 z-30 w-80 max-h-[70vh] overflow-y-auto"
+              />
+            )}
+
+            {/* Selected exchange detail panel */}
             {selectedExchange && (
-              <Card className="fixed top-22 left-2 z-30 p-4 pt-3 w-60 max-w-sm">
-                <div className="flex items-center justify-between mb-2">
-                  <h4 className="font-semibold">
-                    {selectedExchange.displayName}
-                  </h4>
-                  <Button
-                    size="icon"
-                    variant="ghost"
-                    onClick={() => setSelectedExchange(null)}
-                    className="text-gray-400 hover:text-gray-600 rounded-full"
-                  >
-                    <X />
-                  </Button>
-                </div>
-                <div className="space-y-2 text-sm">
-                  <div className="flex justify-between">
-                    <span className="text-gray-600">Provider:</span>
-                    <span className="font-medium">
-                      {selectedExchange.cloudProvider}
-                    </span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-gray-600">Region:</span>
-                    <span className="font-medium">
-                      {selectedExchange.region}
-                    </span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-gray-600">Servers:</span>
-                    <span className="font-medium">
-                      {selectedExchange.serverCount}
-                    </span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-gray-600">Status:</span>
-                    <span
-                      className={`font-medium capitalize ${
-                        selectedExchange.status === "online"
-                          ? "text-green-600"
-                          : selectedExchange.status === "maintenance"
-                          ? "text-yellow-600"
-                          : "text-red-600"
-                      }`}
-                    >
-                      {selectedExchange.status}
-                    </span>
-                  </div>
-                </div>
-              </Card>
+              <ExchangeDetailPanel
+                exchange={selectedExchange}
+                exchanges={nodes}
+                connections={mapConnections}
+                history={historicalData}
+                timeRange={timeRange}
+                statusReport={statusReports.get(selectedExchange.id)}
+                incidents={incidents}
+                onPairSelect={(pair) => {
+                  setSelectedPair(pair);
+                  setOpenPopup("chart");
+                }}
+                onExchangeSelect={handleExchangeClick}
+                onClose={() => setSelectedExchange(null)}
+                className="fixed top-22 left-2 z-30 w-96 max-h-[75vh] overflow-y-auto"
+              />
             )}
 
             {/* Hovered Exchange Tooltip */}
@@ -485,7 +804,7 @@ export default function CryptoLatencyVisualizer() {
                   {hoveredExchange.displayName}
                 </p>
                 <p className="text-xs text-gray-600 dark:text-gray-400">
-                  {hoveredExchange.cloudProvider} • {hoveredExchange.region}
+                  {describeNode(hoveredExchange)}
                 </p>
               </Card>
             )}
@@ -502,6 +821,10 @@ export default function CryptoLatencyVisualizer() {
               onTimeRangeChange={setTimeRange}
               theme={theme.mode}
               className="h-full"
+              cursorTimestamp={replayFrame?.timestamp}
+              onCursorChange={
+                filters.showHistorical ? playback.seekToTimestamp : undefined
+              }
             />
           </div>
         )}
@@ -512,15 +835,40 @@ export default function CryptoLatencyVisualizer() {
         <div className="flex items-center justify-between max-w-screen-xl mx-auto">
           <div className="flex items-center space-x-4">
             <span>
-              Exchanges: {filteredExchanges.length}/{exchanges.length}
+              Exchanges: {filteredNodes.length}/{nodes.length}
             </span>
             <span>Connections: {filteredConnections.length}</span>
             <span>Avg Latency: {metrics.averageLatency.toFixed(1)}ms</span>
+            {replayFrame && (
+              <span className="text-amber-400" suppressHydrationWarning>
+                Replaying: {new Date(replayFrame.timestamp).toLocaleString()}
+              </span>
+            )}
+            {imports.active && (
+              <span className="text-sky-400">
+                Imported: {imports.active.dataset.name} (
+                {imports.mode === "replace" ? "instead of" : "alongside"} live)
+              </span>
+            )}
+            {anomalies.length > 0 && (
+              <span className="text-fuchsia-400">
+                Anomalies: {anomalies.length}
+              </span>
+            )}
           </div>
           <div className="flex items-center space-x-2">
-            <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse" />
+            <div
+              className={`w-2 h-2 rounded-full animate-pulse ${
+                streamStatus === "reconnecting"
+                  ? "bg-yellow-400"
+                  : "bg-green-400"
+              }`}
+            />
             <span suppressHydrationWarning>
-              Live • Last updated: {new Date(lastUpdated).toLocaleTimeString()}
+              {dataSource.isLive ? "Live" : dataSource.name}
+              {streamStatus === "open" && " (streaming)"}
+              {streamStatus === "reconnecting" && " (reconnecting…)"} • Last
+              updated: {new Date(lastUpdated).toLocaleTimeString()}
             </span>
           </div>
         </div>
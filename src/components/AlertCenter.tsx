@@ -0,0 +1,443 @@
+"use client";
+
+import React, { useState } from "react";
+import { Bell, Check, History, Settings2, Trash2, X } from "lucide-react";
+import { AlertRule, LatencyAlert, NetworkNode } from "@/types";
+import {
+  ALERT_RULE_TYPE_LABELS,
+  ALERT_SEVERITY_COLORS,
+} from "@/constants/alertRules";
+import { UseAlertsReturn } from "@/hooks/useAlerts";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface AlertCenterProps {
+  center: UseAlertsReturn;
+  exchanges: NetworkNode[];
+  onClose?: () => void;
+  className?: string;
+}
+
+type AlertTab = "active" | "history" | "rules";
+
+// Radix Select can't hold an empty value, so "any" stands in for no scope
+const ANY = "any";
+
+const NEW_RULE: Omit<AlertRule, "id"> = {
+  name: "",
+  type: "threshold",
+  threshold: 100,
+  scope: {},
+  severity: "warning",
+  enabled: true,
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const AlertRow: React.FC<{
+  alert: LatencyAlert;
+  onAcknowledge: (ids: string[]) => void;
+}> = ({ alert, onAcknowledge }) => (
+  <div
+    className="rounded-md border border-gray-200 dark:border-gray-700 p-2 border-l-4"
+    style={{ borderLeftColor: ALERT_SEVERITY_COLORS[alert.severity] }}
+  >
+    <div className="flex items-center justify-between">
+      <span className="font-medium text-sm">{alert.ruleName}</span>
+      {alert.acknowledged ? (
+        <span className="text-xs text-gray-500">Acknowledged</span>
+      ) : (
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-6 px-2 text-xs"
+          onClick={() => onAcknowledge([alert.id])}
+        >
+          <Check className="w-3 h-3 mr-1" />
+          Ack
+        </Button>
+      )}
+    </div>
+    <p className="text-xs text-gray-600 dark:text-gray-400">{alert.message}</p>
+    <p className="text-xs text-gray-500 mt-1">
+      {formatTime(alert.triggeredAt)}
+      {alert.resolvedAt && ` → resolved ${formatTime(alert.resolvedAt)}`}
+      {` • ${alert.feed}`}
+    </p>
+  </div>
+);
+
+const AlertCenter: React.FC<AlertCenterProps> = ({
+  center,
+  exchanges,
+  onClose,
+  className = "",
+}) => {
+  const [activeTab, setActiveTab] = useState<AlertTab>("active");
+  const [draft, setDraft] = useState<Omit<AlertRule, "id">>(NEW_RULE);
+  const [webhookUrl, setWebhookUrl] = useState("");
+  const [adminToken, setAdminToken] = useState("");
+
+  const pendingIds = center.activeAlerts
+    .filter((a) => !a.acknowledged)
+    .map((a) => a.id);
+
+  const addRule = async () => {
+    if (!draft.name.trim()) return;
+    await center.saveRule({ ...draft, id: `rule-${Date.now()}` });
+    setDraft(NEW_RULE);
+  };
+
+  const addWebhook = async () => {
+    if (!webhookUrl.trim()) return;
+    await center.setWebhooks(
+      [...center.webhooks, webhookUrl.trim()],
+      adminToken
+    );
+    setWebhookUrl("");
+  };
+
+  const scopeLabel = (rule: AlertRule) => {
+    const parts = [rule.scope.source, rule.scope.target]
+      .filter(Boolean)
+      .map((id) => exchanges.find((e) => e.id === id)?.displayName ?? id);
+    if (rule.scope.cloudProvider) parts.push(rule.scope.cloudProvider);
+    return parts.length > 0 ? parts.join(" • ") : "All pairs";
+  };
+
+  const renderScopeSelect = (
+    value: string | undefined,
+    placeholder: string,
+    options: { value: string; label: string }[],
+    onChange: (value: string | undefined) => void
+  ) => (
+    <Select
+      value={value ?? ANY}
+      onValueChange={(v) => onChange(v === ANY ? undefined : v)}
+    >
+      <SelectTrigger className="w-full" size="sm">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY}>{placeholder}</SelectItem>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const exchangeOptions = exchanges.map((e) => ({
+    value: e.id,
+    label: e.displayName,
+  }));
+
+  return (
+    <Card
+      className={`p-4 shadow-xl bg-white dark:bg-gray-900 max-h-[80vh] overflow-y-auto ${className}`}
+      aria-label="Alert center"
+      role="region"
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <Bell className="w-5 h-5 mr-2 text-red-500" />
+          <h3 className="text-lg font-semibold">Alerts</h3>
+        </div>
+        {onClose && (
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label="Close alerts"
+            onClick={onClose}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      <div className="flex space-x-1 bg-gray-100 dark:bg-gray-800 rounded-lg p-1 -mt-3">
+        {[
+          { key: "active", label: "Active", icon: Bell },
+          { key: "history", label: "History", icon: History },
+          { key: "rules", label: "Rules", icon: Settings2 },
+        ].map((tab) => (
+          <Button
+            key={tab.key}
+            variant={activeTab === tab.key ? "default" : "ghost"}
+            size="sm"
+            className="flex-1"
+            onClick={() => setActiveTab(tab.key as AlertTab)}
+          >
+            <tab.icon className="w-3 h-3 mr-1" />
+            {tab.label}
+          </Button>
+        ))}
+      </div>
+
+      {center.error && <p className="text-xs text-red-500">{center.error}</p>}
+
+      {activeTab === "active" && (
+        <div className="space-y-2">
+          {pendingIds.length > 0 && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="w-full"
+              onClick={() => center.acknowledge(pendingIds)}
+            >
+              <Check className="w-4 h-4 mr-2" />
+              Acknowledge all ({pendingIds.length})
+            </Button>
+          )}
+          {center.activeAlerts.length === 0 && (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              No active alerts.
+            </p>
+          )}
+          {center.activeAlerts.map((alert) => (
+            <AlertRow
+              key={alert.id}
+              alert={alert}
+              onAcknowledge={center.acknowledge}
+            />
+          ))}
+        </div>
+      )}
+
+      {activeTab === "history" && (
+        <div className="space-y-2">
+          {center.alerts.length === 0 && (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              No alerts recorded yet.
+            </p>
+          )}
+          {center.alerts.map((alert) => (
+            <AlertRow
+              key={alert.id}
+              alert={alert}
+              onAcknowledge={center.acknowledge}
+            />
+          ))}
+        </div>
+      )}
+
+      {activeTab === "rules" && (
+        <div className="space-y-4 text-sm">
+          {/* Existing rules */}
+          <div className="space-y-2">
+            {center.rules.map((rule) => (
+              <div
+                key={rule.id}
+                className="flex items-center justify-between rounded-md border border-gray-200 dark:border-gray-700 p-2"
+              >
+                <div>
+                  <p className="font-medium">
+                    <span
+                      className="inline-block w-2 h-2 rounded-full mr-2"
+                      style={{
+                        backgroundColor: ALERT_SEVERITY_COLORS[rule.severity],
+                      }}
+                    />
+                    {rule.name}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {ALERT_RULE_TYPE_LABELS[rule.type]} ≥ {rule.threshold} •{" "}
+                    {scopeLabel(rule)}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-1">
+                  <Switch
+                    checked={rule.enabled}
+                    onCheckedChange={(enabled) =>
+                      center.saveRule({ ...rule, enabled })
+                    }
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    aria-label={`Delete ${rule.name}`}
+                    onClick={() => center.deleteRule(rule.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* New rule */}
+          <div className="space-y-2 border-t border-gray-200 dark:border-gray-700 pt-3">
+            <label className="block font-semibold">New rule</label>
+            <input
+              type="text"
+              placeholder="Rule name"
+              className="w-full px-3 py-2 border rounded-lg bg-white dark:bg-gray-800 dark:border-gray-600"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <Select
+                value={draft.type}
+                onValueChange={(type) =>
+                  setDraft({ ...draft, type: type as AlertRule["type"] })
+                }
+              >
+                <SelectTrigger className="w-full" size="sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ALERT_RULE_TYPE_LABELS).map(
+                    ([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    )
+                  )}
+                </SelectContent>
+              </Select>
+              <input
+                type="number"
+                aria-label="Threshold"
+                className="w-full px-3 py-1 border rounded-md bg-white dark:bg-gray-800 dark:border-gray-600"
+                value={draft.threshold}
+                onChange={(e) =>
+                  setDraft({ ...draft, threshold: Number(e.target.value) })
+                }
+              />
+              {renderScopeSelect(
+                draft.scope.source,
+                "Any source",
+                exchangeOptions,
+                (source) =>
+                  setDraft({ ...draft, scope: { ...draft.scope, source } })
+              )}
+              {renderScopeSelect(
+                draft.scope.target,
+                "Any target",
+                exchangeOptions,
+                (target) =>
+                  setDraft({ ...draft, scope: { ...draft.scope, target } })
+              )}
+              {renderScopeSelect(
+                draft.scope.cloudProvider,
+                "Any provider",
+                ["AWS", "GCP", "Azure"].map((p) => ({ value: p, label: p })),
+                (provider) =>
+                  setDraft({
+                    ...draft,
+                    scope: {
+                      ...draft.scope,
+                      cloudProvider:
+                        provider as AlertRule["scope"]["cloudProvider"],
+                    },
+                  })
+              )}
+              <Select
+                value={draft.severity}
+                onValueChange={(severity) =>
+                  setDraft({
+                    ...draft,
+                    severity: severity as AlertRule["severity"],
+                  })
+                }
+              >
+                <SelectTrigger className="w-full capitalize" size="sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.keys(ALERT_SEVERITY_COLORS).map((severity) => (
+                    <SelectItem
+                      key={severity}
+                      value={severity}
+                      className="capitalize"
+                    >
+                      {severity}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              size="sm"
+              className="w-full"
+              disabled={!draft.name.trim()}
+              onClick={addRule}
+            >
+              Add rule
+            </Button>
+          </div>
+
+          {/* Webhooks */}
+          <div className="space-y-2 border-t border-gray-200 dark:border-gray-700 pt-3">
+            <label className="block font-semibold">Webhooks</label>
+            {center.webhooks.map((url) => (
+              <div key={url} className="flex items-center justify-between">
+                <span className="text-xs truncate mr-2">{url}</span>
+                <div className="flex items-center">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => center.testWebhook(url, adminToken)}
+                  >
+                    Test
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    aria-label={`Remove ${url}`}
+                    onClick={() =>
+                      center.setWebhooks(
+                        center.webhooks.filter((w) => w !== url),
+                        adminToken
+                      )
+                    }
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <input
+              type="password"
+              placeholder="Admin token (ALERTS_ADMIN_TOKEN)"
+              className="w-full px-3 py-1 border rounded-md bg-white dark:bg-gray-800 dark:border-gray-600"
+              value={adminToken}
+              onChange={(e) => setAdminToken(e.target.value)}
+            />
+            <div className="flex space-x-2">
+              <input
+                type="url"
+                placeholder="https://hooks.example.com/alerts"
+                className="flex-1 px-3 py-1 border rounded-md bg-white dark:bg-gray-800 dark:border-gray-600"
+                value={webhookUrl}
+                onChange={(e) => setWebhookUrl(e.target.value)}
+              />
+              <Button size="sm" variant="outline" onClick={addWebhook}>
+                Add
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default AlertCenter;
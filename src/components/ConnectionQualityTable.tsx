@@ -0,0 +1,206 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Activity, ArrowDown, ArrowUp, ArrowUpDown, X } from "lucide-react";
+import { LatencyConnection, LatencyPair } from "@/types";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+interface ConnectionQualityTableProps {
+  connections: LatencyConnection[];
+  packetLossThreshold: number;
+  jitterThreshold: number;
+  onPairSelect?: (pair: LatencyPair) => void;
+  onClose?: () => void;
+  className?: string;
+}
+
+type SortKey = "pair" | "latency" | "packetLoss" | "jitter";
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: "pair", label: "Link" },
+  { key: "latency", label: "Latency" },
+  { key: "packetLoss", label: "Loss" },
+  { key: "jitter", label: "Jitter" },
+];
+
+const pairName = (c: LatencyConnection) =>
+  `${c.source.displayName} → ${c.target.displayName}`;
+
+// Helper: Sort value for a column; missing loss/jitter sorts lowest
+const sortValue = (c: LatencyConnection, key: SortKey): number | string => {
+  switch (key) {
+    case "pair":
+      return pairName(c);
+    case "latency":
+      return c.latency;
+    case "packetLoss":
+      return c.packetLoss ?? -1;
+    case "jitter":
+      return c.jitter ?? -1;
+  }
+};
+
+const ConnectionQualityTable: React.FC<ConnectionQualityTableProps> = ({
+  connections,
+  packetLossThreshold,
+  jitterThreshold,
+  onPairSelect,
+  onClose,
+  className = "",
+}) => {
+  const [sortKey, setSortKey] = useState<SortKey>("packetLoss");
+  const [descending, setDescending] = useState(true);
+
+  const rows = useMemo(
+    () =>
+      [...connections].sort((a, b) => {
+        const va = sortValue(a, sortKey);
+        const vb = sortValue(b, sortKey);
+        const order =
+          typeof va === "string"
+            ? va.localeCompare(String(vb))
+            : va - (vb as number);
+        return descending ? -order : order;
+      }),
+    [connections, sortKey, descending]
+  );
+
+  const issueCount = connections.filter(
+    (c) =>
+      (c.packetLoss ?? 0) > packetLossThreshold ||
+      (c.jitter ?? 0) > jitterThreshold
+  ).length;
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setDescending(!descending);
+    } else {
+      setSortKey(key);
+      setDescending(key !== "pair");
+    }
+  };
+
+  const renderSortIcon = (key: SortKey) => {
+    if (key !== sortKey) return <ArrowUpDown className="w-3 h-3 opacity-50" />;
+    return descending ? (
+      <ArrowDown className="w-3 h-3" />
+    ) : (
+      <ArrowUp className="w-3 h-3" />
+    );
+  };
+
+  const metricClass = (value: number | undefined, threshold: number) =>
+    value !== undefined && value > threshold
+      ? "text-red-600 font-semibold"
+      : "text-gray-700 dark:text-gray-300";
+
+  return (
+    <Card
+      className={`p-4 shadow-lg bg-white dark:bg-gray-900 ${className}`}
+      aria-label="Link quality"
+      role="region"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center">
+          <Activity className="w-5 h-5 mr-2 text-blue-600" />
+          <h4 className="font-semibold text-base">Link Quality</h4>
+          {issueCount > 0 && (
+            <span className="ml-2 rounded-full bg-red-600 px-1.5 text-xs text-white">
+              {issueCount}
+            </span>
+          )}
+        </div>
+        {onClose && (
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label="Close link quality"
+            onClick={onClose}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+      <p className="text-xs text-gray-600 dark:text-gray-400 mb-2">
+        Highlighting loss above {packetLossThreshold.toFixed(1)}% and jitter
+        above {jitterThreshold}ms
+      </p>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          No connections to show.
+        </p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-600 dark:text-gray-400">
+              {COLUMNS.map((column) => (
+                <th
+                  key={column.key}
+                  className={`py-1 ${
+                    column.key === "pair" ? "text-left" : "text-right"
+                  }`}
+                  aria-sort={
+                    column.key === sortKey
+                      ? descending
+                        ? "descending"
+                        : "ascending"
+                      : "none"
+                  }
+                >
+                  <button
+                    type="button"
+                    onClick={() => toggleSort(column.key)}
+                    className="inline-flex items-center gap-1 hover:text-gray-900 dark:hover:text-white"
+                  >
+                    {column.label}
+                    {renderSortIcon(column.key)}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((c) => (
+              <tr
+                key={c.id}
+                onClick={() =>
+                  onPairSelect?.({ source: c.source.id, target: c.target.id })
+                }
+                className={`border-t border-gray-200 dark:border-gray-700 ${
+                  onPairSelect
+                    ? "cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800"
+                    : ""
+                }`}
+              >
+                <td className="py-1 pr-2">{pairName(c)}</td>
+                <td className="py-1 text-right">{c.latency.toFixed(1)}ms</td>
+                <td
+                  className={`py-1 text-right ${metricClass(
+                    c.packetLoss,
+                    packetLossThreshold
+                  )}`}
+                >
+                  {c.packetLoss !== undefined
+                    ? `${c.packetLoss.toFixed(2)}%`
+                    : "-"}
+                </td>
+                <td
+                  className={`py-1 text-right ${metricClass(
+                    c.jitter,
+                    jitterThreshold
+                  )}`}
+                >
+                  {c.jitter !== undefined ? `${c.jitter.toFixed(1)}ms` : "-"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </Card>
+  );
+};
+
+export default ConnectionQualityTable;
@@ -3,10 +3,9 @@
 import React, { useState } from "react";
 import { Settings, Search, Filter, Eye, EyeOff, Sun, Moon } from "lucide-react";
 import { FilterOptions, VisualizationSettings, ThemeSettings } from "@/types";
-import {
-  EXCHANGE_LOCATIONS,
-  PROVIDER_COLORS,
-} from "@/constants/exchangeLocations";
+import { PROVIDER_COLORS } from "@/constants/exchangeLocations";
+import { useLatencyStore } from "@/components/LatencyStoreProvider";
+import { selectExchanges } from "@/lib/latencyStore";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import {
@@ -68,9 +67,8 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   // Detect mobile (tailwind: max-width 768px)
   const isMobile = typeof window !== "undefined" && window.innerWidth < 768;
 
-  const uniqueExchanges = Array.from(
-    new Set(EXCHANGE_LOCATIONS.map((loc) => loc.name))
-  );
+  const catalog = useLatencyStore(selectExchanges);
+  const uniqueExchanges = Array.from(new Set(catalog.map((loc) => loc.name)));
 
   const handleFilterChange = (
     key: keyof FilterOptions,
@@ -424,6 +422,53 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
               />
             </div>
 
+            <div>
+              <label className="block text-base font-semibold mb-3">
+                Packet Loss Threshold:{" "}
+                {visualizationSettings.packetLossThreshold.toFixed(1)}%
+              </label>
+              <input
+                type="range"
+                min="0"
+                max="5"
+                step="0.1"
+                value={visualizationSettings.packetLossThreshold}
+                onChange={(e) =>
+                  handleVisualizationChange(
+                    "packetLossThreshold",
+                    parseFloat(e.target.value)
+                  )
+                }
+                className="w-full accent-blue-600"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Links losing more packets are drawn dashed and flicker
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-base font-semibold mb-3">
+                Jitter Threshold: {visualizationSettings.jitterThreshold}ms
+              </label>
+              <input
+                type="range"
+                min="0"
+                max="30"
+                step="1"
+                value={visualizationSettings.jitterThreshold}
+                onChange={(e) =>
+                  handleVisualizationChange(
+                    "jitterThreshold",
+                    parseInt(e.target.value)
+                  )
+                }
+                className="w-full accent-blue-600"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Particles on links with more jitter wobble
+              </p>
+            </div>
+
             <div className="space-y-3">
               <div className="flex items-center gap-3">
                 <Switch
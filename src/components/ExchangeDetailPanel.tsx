@@ -0,0 +1,380 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { LineChart, Line, YAxis } from "recharts";
+import { MapPin, Server, X } from "lucide-react";
+import {
+  ExchangeIncident,
+  ExchangeLocation,
+  ExchangeStatusReport,
+  ExchangeStatusSegment,
+  HistoricalLatencyData,
+  LatencyConnection,
+  LatencyPair,
+  NetworkNode,
+  TimeRange,
+} from "@/types";
+import {
+  LATENCY_QUALITY_COLORS,
+  NODE_KIND_LABELS,
+} from "@/constants/exchangeLocations";
+import {
+  buildPeerSparklines,
+  buildStatusTimeline,
+  findNearestExchanges,
+  rankExchangeConnections,
+} from "@/lib/exchangeAnalytics";
+import { TIME_RANGE_MS } from "@/lib/chartUtils";
+import { describeNode, getNodeColor } from "@/lib/exchangeData";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+// Works for any node; venue-only details are left out for the other kinds
+interface ExchangeDetailPanelProps {
+  exchange: NetworkNode;
+  exchanges: NetworkNode[];
+  connections: LatencyConnection[];
+  history: HistoricalLatencyData[];
+  timeRange: TimeRange;
+  statusReport?: ExchangeStatusReport;
+  incidents?: ExchangeIncident[];
+  onPairSelect?: (pair: LatencyPair) => void;
+  onExchangeSelect?: (exchange: NetworkNode) => void;
+  onClose?: () => void;
+  className?: string;
+}
+
+const STATUS_COLORS: Record<ExchangeStatusSegment["status"], string> = {
+  online: "bg-green-500",
+  maintenance: "bg-yellow-500",
+  offline: "bg-red-500",
+  unknown: "bg-gray-300 dark:bg-gray-700",
+};
+
+const STATUS_TEXT_COLORS: Record<ExchangeLocation["status"], string> = {
+  online: "text-green-600",
+  maintenance: "text-yellow-600",
+  offline: "text-red-600",
+};
+
+// Same bands as the globe's arc colors
+const latencyColor = (latency: number) =>
+  latency <= 50
+    ? LATENCY_QUALITY_COLORS.low
+    : latency <= 100
+    ? LATENCY_QUALITY_COLORS.medium
+    : LATENCY_QUALITY_COLORS.high;
+
+const TIMELINE_STATUSES = Object.keys(
+  STATUS_COLORS
+) as ExchangeStatusSegment["status"][];
+
+const formatDistance = (km: number) =>
+  km < 10 ? "same site" : `${Math.round(km).toLocaleString()} km`;
+
+// Most recent status page incidents listed per venue
+const MAX_INCIDENTS = 5;
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  return minutes < 60
+    ? `${minutes}m`
+    : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const ExchangeDetailPanel: React.FC<ExchangeDetailPanelProps> = ({
+  exchange,
+  exchanges,
+  connections,
+  history,
+  timeRange,
+  statusReport,
+  incidents = [],
+  onPairSelect,
+  onExchangeSelect,
+  onClose,
+  className = "",
+}) => {
+  const { ranked, sparklines, timeline, nearest } = useMemo(() => {
+    const to = Date.now();
+    const from = to - TIME_RANGE_MS[timeRange];
+    return {
+      ranked: rankExchangeConnections(exchange.id, connections),
+      sparklines: buildPeerSparklines(exchange.id, history, from, to),
+      timeline: buildStatusTimeline(exchange, history, from, to, 48, incidents),
+      nearest: findNearestExchanges(exchange, exchanges, connections),
+    };
+  }, [exchange, exchanges, connections, history, timeRange, incidents]);
+
+  const recentIncidents = useMemo(
+    () =>
+      incidents
+        .filter((i) => i.exchangeId === exchange.id)
+        .slice(0, MAX_INCIDENTS),
+    [incidents, exchange.id]
+  );
+
+  const timelineSpan =
+    timeline.length > 0
+      ? timeline[timeline.length - 1].to - timeline[0].from
+      : 1;
+
+  return (
+    <Card
+      className={`p-4 shadow-lg bg-white dark:bg-gray-900 ${className}`}
+      aria-label={`${exchange.displayName} details`}
+      role="region"
+    >
+      {/* Header */}
+      <div className="flex items-start justify-between mb-3">
+        <div>
+          <h4 className="font-semibold text-base">{exchange.displayName}</h4>
+          <p className="text-xs text-gray-600 dark:text-gray-400 flex items-center">
+            <span
+              className="inline-block w-2 h-2 rounded-full mr-1"
+              style={{
+                backgroundColor: getNodeColor(exchange),
+              }}
+            />
+            {describeNode(exchange)}
+            {"regionCode" in exchange && ` (${exchange.regionCode})`}
+          </p>
+        </div>
+        {onClose && (
+          <Button
+            size="icon"
+            variant="ghost"
+            aria-label="Close exchange details"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 rounded-full"
+          >
+            <X />
+          </Button>
+        )}
+      </div>
+
+      {/* Metadata */}
+      <div className="grid grid-cols-3 gap-2 mb-4 text-center text-sm">
+        <div className="p-2 bg-gray-50 dark:bg-gray-800 rounded-lg">
+          <p className="text-xs text-gray-600 dark:text-gray-400">Status</p>
+          <p
+            className={`font-semibold capitalize ${
+              STATUS_TEXT_COLORS[exchange.status]
+            }`}
+          >
+            {exchange.status}
+          </p>
+        </div>
+        <div className="p-2 bg-gray-50 dark:bg-gray-800 rounded-lg">
+          {exchange.kind === "exchange" ? (
+            <>
+              <p className="text-xs text-gray-600 dark:text-gray-400 flex items-center justify-center">
+                <Server className="w-3 h-3 mr-1" />
+                Servers
+              </p>
+              <p className="font-semibold">{exchange.serverCount}</p>
+            </>
+          ) : (
+            <>
+              <p className="text-xs text-gray-600 dark:text-gray-400">Type</p>
+              <p className="font-semibold text-xs leading-5">
+                {NODE_KIND_LABELS[exchange.kind]}
+              </p>
+            </>
+          )}
+        </div>
+        <div className="p-2 bg-gray-50 dark:bg-gray-800 rounded-lg">
+          <p className="text-xs text-gray-600 dark:text-gray-400 flex items-center justify-center">
+            <MapPin className="w-3 h-3 mr-1" />
+            Location
+          </p>
+          <p className="font-semibold text-xs leading-5">
+            {exchange.coordinates.latitude.toFixed(1)},{" "}
+            {exchange.coordinates.longitude.toFixed(1)}
+          </p>
+        </div>
+      </div>
+
+      {/* Status timeline */}
+      <div className="mb-4">
+        <p className="text-sm font-medium mb-1">Status ({timeRange})</p>
+        <div className="flex h-3 rounded overflow-hidden">
+          {timeline.map((segment) => (
+            <div
+              key={segment.from}
+              className={STATUS_COLORS[segment.status]}
+              style={{
+                width: `${
+                  ((segment.to - segment.from) / timelineSpan) * 100
+                }%`,
+              }}
+              title={`${segment.status}: ${new Date(
+                segment.from
+              ).toLocaleString()} – ${new Date(segment.to).toLocaleString()}`}
+            />
+          ))}
+        </div>
+        <div className="flex gap-3 mt-1 text-xs text-gray-600 dark:text-gray-400">
+          {TIMELINE_STATUSES.map((status) => (
+            <span key={status} className="flex items-center capitalize">
+              <span
+                className={`inline-block w-2 h-2 rounded-sm mr-1 ${STATUS_COLORS[status]}`}
+              />
+              {status === "unknown" ? "no data" : status}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Status page uptime and incidents */}
+      {statusReport && (
+        <div className="mb-4">
+          <p className="text-sm font-medium mb-1">Uptime</p>
+          <div className="grid grid-cols-3 gap-2 text-center text-sm">
+            {(
+              [
+                ["24h", statusReport.uptime.day],
+                ["7d", statusReport.uptime.week],
+                ["30d", statusReport.uptime.month],
+              ] as const
+            ).map(([label, value]) => (
+              <div
+                key={label}
+                className="p-1 bg-gray-50 dark:bg-gray-800 rounded-lg"
+              >
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  {label}
+                </p>
+                <p className="font-semibold">{value.toFixed(2)}%</p>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+            {statusReport.error
+              ? `Status page unreachable: ${statusReport.error}`
+              : statusReport.description}
+          </p>
+          {recentIncidents.length > 0 && (
+            <div className="mt-2 space-y-1">
+              {recentIncidents.map((incident) => (
+                <div
+                  key={incident.id}
+                  className="flex items-center justify-between text-xs"
+                >
+                  <span className="flex items-center min-w-0">
+                    <span
+                      className={`inline-block w-2 h-2 rounded-full mr-1 shrink-0 ${
+                        STATUS_COLORS[incident.status]
+                      }`}
+                    />
+                    {incident.url ? (
+                      <a
+                        href={incident.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="truncate hover:underline"
+                      >
+                        {incident.name}
+                      </a>
+                    ) : (
+                      <span className="truncate">{incident.name}</span>
+                    )}
+                  </span>
+                  <span
+                    className="text-gray-600 dark:text-gray-400 whitespace-nowrap ml-2"
+                    suppressHydrationWarning
+                  >
+                    {new Date(incident.startedAt).toLocaleDateString()} •{" "}
+                    {incident.resolvedAt !== undefined
+                      ? formatDuration(incident.resolvedAt - incident.startedAt)
+                      : "ongoing"}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Connections ranked by latency */}
+      <div className="mb-4">
+        <p className="text-sm font-medium mb-1">
+          Connections ({ranked.length})
+        </p>
+        {ranked.length === 0 ? (
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            No live connections from this venue.
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {ranked.map(({ peer, connection }, idx) => {
+              const sparkline = sparklines.get(peer.id) ?? [];
+              return (
+                <button
+                  key={connection.id}
+                  type="button"
+                  onClick={() =>
+                    onPairSelect?.({
+                      source: connection.source.id,
+                      target: connection.target.id,
+                    })
+                  }
+                  className="w-full flex items-center gap-2 rounded-md px-2 py-1 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-800"
+                >
+                  <span className="w-5 text-xs text-gray-500">{idx + 1}.</span>
+                  <span className="flex-1 truncate">{peer.displayName}</span>
+                  {sparkline.length > 1 ? (
+                    <LineChart width={80} height={24} data={sparkline}>
+                      <YAxis hide domain={["dataMin", "dataMax"]} />
+                      <Line
+                        type="monotone"
+                        dataKey="latency"
+                        stroke="#3b82f6"
+                        strokeWidth={1.5}
+                        dot={false}
+                        isAnimationActive={false}
+                      />
+                    </LineChart>
+                  ) : (
+                    <span className="w-20 text-center text-xs text-gray-400">
+                      -
+                    </span>
+                  )}
+                  <span
+                    className="w-16 text-right font-medium"
+                    style={{ color: latencyColor(connection.latency) }}
+                  >
+                    {connection.latency.toFixed(1)}ms
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Nearest venues */}
+      <div>
+        <p className="text-sm font-medium mb-1">Nearest Venues</p>
+        <div className="space-y-1">
+          {nearest.map(({ exchange: near, distanceKm, latency }) => (
+            <button
+              key={near.id}
+              type="button"
+              onClick={() => onExchangeSelect?.(near)}
+              className="w-full flex items-center justify-between rounded-md px-2 py-1 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-800"
+            >
+              <span className="truncate">{near.displayName}</span>
+              <span className="text-xs text-gray-600 dark:text-gray-400 whitespace-nowrap ml-2">
+                {formatDistance(distanceKm)}
+                {latency !== undefined && ` • ${latency.toFixed(1)}ms`}
+              </span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default ExchangeDetailPanel;
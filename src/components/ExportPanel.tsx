@@ -0,0 +1,184 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Download, X } from "lucide-react";
+import {
+  ExportColumn,
+  ExportFormat,
+  FilterOptions,
+  LatencyDataSourceId,
+  LatencyExportOptions,
+  TimeRange,
+} from "@/types";
+import {
+  buildExportOptions,
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  exportOptionsToQuery,
+  MAX_PARQUET_RANGE_MS,
+} from "@/lib/export/query";
+import { TIME_RANGE_MS } from "@/lib/chartUtils";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface ExportPanelProps {
+  filters: FilterOptions;
+  timeRange: TimeRange;
+  feed: LatencyDataSourceId;
+  onClose?: () => void;
+  className?: string;
+}
+
+const ExportPanel: React.FC<ExportPanelProps> = ({
+  filters,
+  timeRange,
+  feed,
+  onClose,
+  className = "",
+}) => {
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [type, setType] = useState<LatencyExportOptions["type"]>(
+    filters.showHistorical ? "historical" : "current"
+  );
+  const [columns, setColumns] = useState<ExportColumn[]>(
+    DEFAULT_EXPORT_COLUMNS
+  );
+
+  const toggleColumn = (column: ExportColumn) =>
+    setColumns((prev) =>
+      prev.includes(column)
+        ? prev.filter((c) => c !== column)
+        : // Keep the picker's column order in the file
+          EXPORT_COLUMNS.map((c) => c.key).filter(
+            (c) => c === column || prev.includes(c)
+          )
+    );
+
+  // Resolved on click so the historical window ends now
+  const downloadUrl = () =>
+    `/api/latency/export?${exportOptionsToQuery(
+      buildExportOptions(filters, timeRange, feed, { format, type, columns })
+    )}`;
+
+  // Parquet is built in memory server-side, so its window is capped
+  const rangeTooLong =
+    format === "parquet" &&
+    type === "historical" &&
+    TIME_RANGE_MS[timeRange] > MAX_PARQUET_RANGE_MS;
+
+  const filterSummary = useMemo(() => {
+    const parts = [
+      filters.exchanges.length > 0
+        ? `${filters.exchanges.length} exchanges`
+        : "all exchanges",
+      filters.cloudProviders.length > 0
+        ? filters.cloudProviders.join("/")
+        : "all providers",
+    ];
+    if (type === "historical") parts.push(`last ${timeRange}`);
+    return parts.join(" • ");
+  }, [filters.exchanges, filters.cloudProviders, type, timeRange]);
+
+  return (
+    <Card
+      className={`p-4 shadow-lg bg-white dark:bg-gray-900 ${className}`}
+      aria-label="Export latency data"
+      role="region"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center">
+          <Download className="w-5 h-5 mr-2 text-blue-600" />
+          <h4 className="font-semibold text-base">Export Data</h4>
+        </div>
+        {onClose && (
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label="Close export"
+            onClick={onClose}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+      <p className="text-xs text-gray-600 dark:text-gray-400 mb-3">
+        {feed} feed • {filterSummary}
+      </p>
+
+      <div className="flex gap-2 mb-3">
+        <Select
+          value={format}
+          onValueChange={(value) => setFormat(value as ExportFormat)}
+        >
+          <SelectTrigger className="w-32 h-8" aria-label="Export format">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EXPORT_FORMATS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {(["current", "historical"] as const).map((option) => (
+          <Button
+            key={option}
+            size="sm"
+            variant={type === option ? "default" : "outline"}
+            className="capitalize"
+            onClick={() => setType(option)}
+          >
+            {option}
+          </Button>
+        ))}
+      </div>
+
+      <p className="text-sm font-medium mb-1">Columns</p>
+      <div className="grid grid-cols-2 gap-x-3 gap-y-1 mb-3 text-sm">
+        {EXPORT_COLUMNS.map((column) => (
+          <label
+            key={column.key}
+            htmlFor={`export-column-${column.key}`}
+            className="flex items-center gap-2"
+          >
+            <input
+              type="checkbox"
+              id={`export-column-${column.key}`}
+              checked={columns.includes(column.key)}
+              onChange={() => toggleColumn(column.key)}
+              className="accent-blue-600 w-4 h-4"
+            />
+            {column.label}
+          </label>
+        ))}
+      </div>
+
+      {rangeTooLong && (
+        <p className="text-xs text-amber-600 dark:text-amber-400 mb-2">
+          Parquet exports cover at most 7 days; use CSV or NDJSON for longer
+          ranges.
+        </p>
+      )}
+      <Button
+        className="w-full"
+        size="sm"
+        disabled={columns.length === 0 || rangeTooLong}
+        onClick={() => window.location.assign(downloadUrl())}
+      >
+        <Download className="w-4 h-4 mr-2" />
+        Download {format.toUpperCase()}
+      </Button>
+    </Card>
+  );
+};
+
+export default ExportPanel;
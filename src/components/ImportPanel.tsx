@@ -0,0 +1,267 @@
+"use client";
+
+import React, { useState } from "react";
+import { Eye, EyeOff, Trash2, Upload, X } from "lucide-react";
+import { LatencyImportFormat } from "@/types";
+import {
+  detectImportFormat,
+  IMPORT_FORMATS,
+  PAIRLESS_IMPORT_FORMATS,
+} from "@/lib/latencyImport/parsers";
+import { UseLatencyImportsReturn } from "@/hooks/useLatencyImports";
+import { useLatencyStore } from "@/components/LatencyStoreProvider";
+import { selectExchanges } from "@/lib/latencyStore";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface ImportPanelProps {
+  imports: UseLatencyImportsReturn;
+  onClose?: () => void;
+  className?: string;
+}
+
+// Skipped lines listed under an import result
+const MAX_ISSUES = 5;
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const ImportPanel: React.FC<ImportPanelProps> = ({
+  imports,
+  onClose,
+  className = "",
+}) => {
+  // Imports are checked against the catalog, so only its venues are offered
+  const exchanges = useLatencyStore(selectExchanges);
+  const [file, setFile] = useState<{ name: string; content: string } | null>(
+    null
+  );
+  const [format, setFormat] = useState<LatencyImportFormat>("csv");
+  const [source, setSource] = useState("");
+  const [target, setTarget] = useState("");
+  const needsPair = PAIRLESS_IMPORT_FORMATS.includes(format);
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    const content = await selected.text();
+    setFile({ name: selected.name, content });
+    setFormat(detectImportFormat(selected.name, content));
+  };
+
+  const handleImport = () => {
+    if (!file) return;
+    imports.importDataset({
+      name: file.name,
+      format,
+      content: file.content,
+      source: needsPair ? source : undefined,
+      target: needsPair ? target : undefined,
+    });
+  };
+
+  const { lastResult } = imports;
+
+  const renderExchangeSelect = (
+    label: string,
+    value: string,
+    onChange: (value: string) => void
+  ) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="flex-1 h-8" aria-label={label}>
+        <SelectValue placeholder={label} />
+      </SelectTrigger>
+      <SelectContent>
+        {exchanges.map((exchange) => (
+          <SelectItem key={exchange.id} value={exchange.id}>
+            {exchange.displayName}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card
+      className={`p-4 shadow-lg bg-white dark:bg-gray-900 ${className}`}
+      aria-label="Import latency data"
+      role="region"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center">
+          <Upload className="w-5 h-5 mr-2 text-blue-600" />
+          <h4 className="font-semibold text-base">Import Data</h4>
+        </div>
+        {onClose && (
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label="Close import"
+            onClick={onClose}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+      <p className="text-xs text-gray-600 dark:text-gray-400 mb-3">
+        CSV or NDJSON rows with source, target and latency, or ping/mtr output
+        for one pair. Exchange ids must be in the catalog.
+      </p>
+
+      <input
+        type="file"
+        accept=".csv,.ndjson,.jsonl,.json,.txt,.log"
+        aria-label="Latency file"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        className="block w-full text-sm mb-2 file:mr-2 file:rounded-md file:border-0 file:bg-blue-600 file:px-2 file:py-1 file:text-white"
+      />
+      <div className="flex gap-2 mb-2">
+        <Select
+          value={format}
+          onValueChange={(value) => setFormat(value as LatencyImportFormat)}
+        >
+          <SelectTrigger className="w-36 h-8" aria-label="Import format">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {IMPORT_FORMATS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="sm"
+          className="flex-1"
+          disabled={
+            !file || imports.isImporting || (needsPair && !(source && target))
+          }
+          onClick={handleImport}
+        >
+          {imports.isImporting ? "Importing..." : "Import"}
+        </Button>
+      </div>
+      {needsPair && (
+        <div className="flex gap-2 mb-2">
+          {renderExchangeSelect("Source", source, setSource)}
+          {renderExchangeSelect("Target", target, setTarget)}
+        </div>
+      )}
+
+      {imports.error && (
+        <p className="text-xs text-red-600 mb-2">{imports.error}</p>
+      )}
+      {lastResult && (
+        <div className="text-xs text-gray-600 dark:text-gray-400 mb-2">
+          <p>
+            Imported {lastResult.dataset.recordCount} records from{" "}
+            {lastResult.dataset.name}
+            {lastResult.skipped.length > 0 &&
+              `, skipped ${lastResult.skipped.length} lines`}
+          </p>
+          {lastResult.skipped.slice(0, MAX_ISSUES).map((issue) => (
+            <p
+              key={`${issue.line}-${issue.message}`}
+              className="text-amber-600"
+            >
+              {issue.line > 0 ? `Line ${issue.line}: ` : ""}
+              {issue.message}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {imports.datasets.length > 0 && (
+        <div className="border-t border-gray-200 dark:border-gray-700 pt-2">
+          <div className="flex items-center justify-between mb-1">
+            <p className="text-sm font-medium">Datasets</p>
+            <div className="flex gap-1">
+              {(
+                [
+                  ["overlay", "Alongside live"],
+                  ["replace", "Instead of live"],
+                ] as const
+              ).map(([mode, label]) => (
+                <Button
+                  key={mode}
+                  size="sm"
+                  variant={imports.mode === mode ? "default" : "outline"}
+                  className="h-7 px-2 text-xs"
+                  onClick={() => imports.setMode(mode)}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-1">
+            {imports.datasets.map((dataset) => {
+              const shown = imports.active?.dataset.id === dataset.id;
+              return (
+                <div
+                  key={dataset.id}
+                  className="flex items-center gap-2 rounded-md px-2 py-1 text-sm hover:bg-gray-100 dark:hover:bg-gray-800"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate font-medium">{dataset.name}</p>
+                    <p
+                      className="text-xs text-gray-600 dark:text-gray-400"
+                      suppressHydrationWarning
+                    >
+                      {[
+                        dataset.format,
+                        `${dataset.recordCount} records`,
+                        `${dataset.pairs.length} pairs`,
+                        dataset.to > dataset.from
+                          ? `${formatDate(dataset.from)} – ${formatDate(
+                              dataset.to
+                            )}`
+                          : formatDate(dataset.from),
+                      ].join(" • ")}
+                    </p>
+                  </div>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    aria-label={shown ? "Hide on map" : "Show on map"}
+                    onClick={() => imports.show(shown ? null : dataset.id)}
+                  >
+                    {shown ? (
+                      <EyeOff className="w-4 h-4" />
+                    ) : (
+                      <Eye className="w-4 h-4" />
+                    )}
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 text-gray-400 hover:text-red-600"
+                    aria-label={`Delete ${dataset.name}`}
+                    onClick={() => imports.remove(dataset.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default ImportPanel;
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useMemo } from "react";
+import React, { useMemo, useState } from "react";
 import {
   // LineChart,
   Line,
@@ -12,10 +12,40 @@ import {
   Area,
   AreaChart,
   ReferenceLine,
+  DotProps,
 } from "recharts";
-import { Clock, TrendingUp, TrendingDown, Minus } from "lucide-react";
-import { HistoricalLatencyData, TimeRange, ChartDataPoint } from "@/types";
+import {
+  Clock,
+  TrendingUp,
+  TrendingDown,
+  Minus,
+  AlertTriangle,
+} from "lucide-react";
+import {
+  HistoricalLatencyData,
+  TimeRange,
+  TimeWindow,
+  ChartDataPoint,
+  LatencyPair,
+} from "@/types";
+import { detectAnomaliesByPair } from "@/lib/anomalyDetection";
+import {
+  calculateStats,
+  findNearestPoint,
+  formatTimestamp,
+  TIME_RANGE_MS,
+  timeRangeForSpan,
+} from "@/lib/chartUtils";
+import {
+  HISTORY_BUCKET_MS,
+  historyToPoints,
+  pickHistoryBucket,
+} from "@/lib/timeseries/history";
+import { useLatencyHistory } from "@/hooks/useLatencyHistory";
+import { useLatencyStore } from "@/components/LatencyStoreProvider";
 import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import PairComparisonChart from "@/components/PairComparisonChart";
 import {
   Select,
   SelectContent,
@@ -25,12 +55,16 @@ import {
 } from "@/components/ui/select";
 
 interface LatencyChartProps {
+  // Loaded history; only used to offer pairs for comparison
   data: HistoricalLatencyData[];
-  selectedPair?: { source: string; target: string };
+  selectedPair?: LatencyPair;
   timeRange: TimeRange;
   onTimeRangeChange: (range: TimeRange) => void;
   theme: "dark" | "light";
   className?: string;
+  // Historical playback position, drawn as a vertical cursor
+  cursorTimestamp?: number;
+  onCursorChange?: (timestamp: number) => void;
 }
 
 const timeRangeOptions = [
@@ -38,58 +72,14 @@ const timeRangeOptions = [
   { value: "24h", label: "24 Hours" },
   { value: "7d", label: "7 Days" },
   { value: "30d", label: "30 Days" },
+  { value: "custom", label: "Custom" },
 ];
 
-const formatTimestamp = (timestamp: number, range: TimeRange): string => {
-  const date = new Date(timestamp);
-
-  switch (range) {
-    case "1h":
-      return date.toLocaleTimeString("en-US", {
-        hour: "2-digit",
-        minute: "2-digit",
-      });
-    case "24h":
-      return date.toLocaleTimeString("en-US", {
-        hour: "2-digit",
-        minute: "2-digit",
-      });
-    case "7d":
-      return date.toLocaleDateString("en-US", {
-        month: "short",
-        day: "numeric",
-        hour: "2-digit",
-      });
-    case "30d":
-      return date.toLocaleDateString("en-US", {
-        month: "short",
-        day: "numeric",
-      });
-    default:
-      return date.toLocaleString();
-  }
-};
-
-const calculateStats = (data: ChartDataPoint[]) => {
-  if (data.length === 0)
-    return { min: 0, max: 0, avg: 0, trend: "stable" as const };
-
-  const values = data.map((d) => d.value);
-  const min = Math.min(...values);
-  const max = Math.max(...values);
-  const avg = values.reduce((sum, val) => sum + val, 0) / values.length;
-
-  // Calculate trend based on first and last values
-  const firstValue = values[0];
-  const lastValue = values[values.length - 1];
-  const trendThreshold = avg * 0.05; // 5% threshold
-
-  let trend: "up" | "down" | "stable" = "stable";
-  if (lastValue - firstValue > trendThreshold) trend = "up";
-  else if (firstValue - lastValue > trendThreshold) trend = "down";
-
-  return { min, max, avg, trend };
-};
+// Helper: Timestamp as a datetime-local input value, in local time
+const toDateTimeInput = (timestamp: number) =>
+  new Date(timestamp - new Date(timestamp).getTimezoneOffset() * 60000)
+    .toISOString()
+    .slice(0, 16);
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const CustomTooltip = ({ active, payload }: any) => {
@@ -99,14 +89,65 @@ const CustomTooltip = ({ active, payload }: any) => {
       <div className="bg-white dark:bg-gray-800 p-3 rounded-lg shadow-lg border">
         <p className="text-sm text-gray-600 dark:text-gray-300">{data.label}</p>
         <p className="text-lg font-semibold text-blue-600">
-          {payload[0].value.toFixed(1)}ms
+          {data.value.toFixed(1)}ms
         </p>
+        {data.min !== undefined && data.max !== undefined && (
+          <p className="text-xs text-gray-600 dark:text-gray-300">
+            min {data.min.toFixed(1)} • max {data.max.toFixed(1)}ms
+          </p>
+        )}
+        {data.p90 !== undefined && (
+          <p className="text-xs text-gray-600 dark:text-gray-300">
+            p50 {data.p50.toFixed(1)} • p90 {data.p90.toFixed(1)} • p99{" "}
+            {data.p99?.toFixed(1) ?? "-"}ms
+          </p>
+        )}
+        {data.anomaly && (
+          <p className="text-xs font-medium text-fuchsia-500">
+            Anomalous {data.anomaly.direction}: expected ~
+            {data.anomaly.expected.toFixed(1)}ms (z=
+            {data.anomaly.zScore.toFixed(1)})
+          </p>
+        )}
       </div>
     );
   }
   return null;
 };
 
+const ANOMALY_COLOR = "#d946ef";
+const CURSOR_COLOR = "#f59e0b";
+
+const renderDot = (
+  props: DotProps & { payload: ChartDataPoint; index: number }
+) => {
+  const { cx, cy, payload, index } = props;
+  if (payload.anomaly) {
+    return (
+      <circle
+        key={`anomaly-${index}`}
+        cx={cx}
+        cy={cy}
+        r={6}
+        fill={ANOMALY_COLOR}
+        stroke="#fff"
+        strokeWidth={2}
+      />
+    );
+  }
+  return (
+    <circle
+      key={`dot-${index}`}
+      cx={cx}
+      cy={cy}
+      r={3}
+      fill="#3b82f6"
+      stroke="#3b82f6"
+      strokeWidth={2}
+    />
+  );
+};
+
 const LatencyChart: React.FC<LatencyChartProps> = ({
   data,
   selectedPair,
@@ -114,43 +155,120 @@ const LatencyChart: React.FC<LatencyChartProps> = ({
   onTimeRangeChange,
   theme,
   className,
+  cursorTimestamp,
+  onCursorChange,
 }) => {
-  // Process and filter data
-  const chartData = useMemo(() => {
-    let filteredData = data;
-
-    // Filter by selected pair if provided
-    if (selectedPair) {
-      filteredData = data.filter(
-        (d) =>
-          d.source === selectedPair.source && d.target === selectedPair.target
-      );
+  // Comparison mode overlays several pinned pairs
+  const [mode, setMode] = useState<"single" | "compare">("single");
+  const [pinnedPairs, setPinnedPairs] = useState<LatencyPair[]>([]);
+
+  const startComparison = () => {
+    if (
+      selectedPair &&
+      !pinnedPairs.some(
+        (p) =>
+          p.source === selectedPair.source && p.target === selectedPair.target
+      )
+    ) {
+      setPinnedPairs([...pinnedPairs, selectedPair]);
     }
+    setMode("compare");
+  };
 
-    // Filter by time range
-    const now = Date.now();
-    const timeRangeMs = {
-      "1h": 60 * 60 * 1000,
-      "24h": 24 * 60 * 60 * 1000,
-      "7d": 7 * 24 * 60 * 60 * 1000,
-      "30d": 30 * 24 * 60 * 60 * 1000,
-    };
+  // A preset window ends at the latest update, rounded up to its bucket so
+  // stream ticks within one bucket reuse the same query; a custom one is fixed
+  const lastUpdated = useLatencyStore((store) => store.lastUpdated);
+  const [customRange, setCustomRange] = useState<TimeWindow | null>(null);
+  const range = useMemo<TimeWindow>(() => {
+    if (customRange) return customRange;
+    const span = TIME_RANGE_MS[timeRange];
+    const bucketMs = HISTORY_BUCKET_MS[pickHistoryBucket(0, span)];
+    const to = Math.ceil((lastUpdated || Date.now()) / bucketMs) * bucketMs;
+    return { from: to - span, to };
+  }, [customRange, timeRange, lastUpdated]);
+  const labelRange = customRange
+    ? timeRangeForSpan(range.to - range.from)
+    : timeRange;
 
-    const cutoffTime = now - timeRangeMs[timeRange];
-    filteredData = filteredData.filter((d) => d.timestamp >= cutoffTime);
+  // Fetch exactly the window shown, bucketed server-side
+  const {
+    histories: [history],
+    bucket,
+    isLoading,
+    error,
+  } = useLatencyHistory([selectedPair ?? {}], range);
+  const points = useMemo(
+    () => (history ? historyToPoints(history) : []),
+    [history]
+  );
+
+  // Without a pair the series averages every pair, which has no baseline of
+  // its own, so anomalies are only detected for a selected pair
+  const anomalies = useMemo(
+    () =>
+      new Map(
+        (selectedPair ? detectAnomaliesByPair(points) : []).map((a) => [
+          `${a.source}->${a.target}@${a.timestamp}`,
+          a,
+        ])
+      ),
+    [points, selectedPair]
+  );
+
+  const chartData = useMemo(
+    () =>
+      (history?.buckets ?? []).map((b, idx): ChartDataPoint => ({
+        timestamp: b.timestamp,
+        value: b.avg,
+        label: formatTimestamp(b.timestamp, labelRange),
+        min: b.count > 1 ? b.min : undefined,
+        max: b.count > 1 ? b.max : undefined,
+        p50: b.percentiles.p50,
+        p90: b.percentiles.p90,
+        p99: b.percentiles.p99,
+        anomaly: anomalies.get(
+          `${points[idx].source}->${points[idx].target}@${b.timestamp}`
+        ),
+      })),
+    [history, points, anomalies, labelRange]
+  );
 
-    // Sort by timestamp
-    filteredData.sort((a, b) => a.timestamp - b.timestamp);
+  const anomalyCount = chartData.filter((d) => d.anomaly).length;
+  const hasPercentileBands = chartData.some((d) => d.p90 !== undefined);
 
-    // Convert to chart format
-    return filteredData.map((d) => ({
-      timestamp: d.timestamp,
-      value: d.latency,
-      label: formatTimestamp(d.timestamp, timeRange),
-    }));
-  }, [data, selectedPair, timeRange]);
+  // Min/max over every sample, not just the bucket averages
+  const stats = useMemo(() => {
+    const base = calculateStats(chartData);
+    const buckets = history?.buckets ?? [];
+    if (buckets.length === 0) return base;
+    return {
+      ...base,
+      min: buckets.reduce((min, b) => Math.min(min, b.min), Infinity),
+      max: buckets.reduce((max, b) => Math.max(max, b.max), -Infinity),
+    };
+  }, [chartData, history]);
 
-  const stats = useMemo(() => calculateStats(chartData), [chartData]);
+  const handleRangeChange = (value: string) => {
+    if (value === "custom") {
+      setCustomRange(range);
+      return;
+    }
+    setCustomRange(null);
+    onTimeRangeChange(value as TimeRange);
+  };
+
+  // Keep the custom window's ends in order; ignore cleared inputs
+  const updateCustomRange = (end: keyof TimeWindow, value: string) => {
+    const timestamp = new Date(value).getTime();
+    if (!customRange || isNaN(timestamp)) return;
+    const next = { ...customRange, [end]: timestamp };
+    if (next.from < next.to) setCustomRange(next);
+  };
+
+  const cursorPoint =
+    cursorTimestamp !== undefined
+      ? findNearestPoint(chartData, cursorTimestamp)
+      : undefined;
 
   const getTrendIcon = () => {
     switch (stats.trend) {
@@ -184,11 +302,36 @@ const LatencyChart: React.FC<LatencyChartProps> = ({
         <div className="flex items-center space-x-2">
           <Clock className="w-5 h-5 text-blue-600" />
           <h3 className="text-lg font-semibold">Latency Trends</h3>
+          {anomalyCount > 0 && (
+            <span
+              className="flex items-center text-xs font-medium"
+              style={{ color: ANOMALY_COLOR }}
+            >
+              <AlertTriangle className="w-3 h-3 mr-1" />
+              {anomalyCount} anomal{anomalyCount === 1 ? "y" : "ies"}
+            </span>
+          )}
         </div>
         <div className={isMobile ? "w-full" : "flex items-center space-x-2"}>
+          <div className="flex space-x-1 bg-gray-100 dark:bg-gray-800 rounded-lg p-1">
+            <Button
+              size="sm"
+              variant={mode === "single" ? "default" : "ghost"}
+              onClick={() => setMode("single")}
+            >
+              Single
+            </Button>
+            <Button
+              size="sm"
+              variant={mode === "compare" ? "default" : "ghost"}
+              onClick={startComparison}
+            >
+              Compare
+            </Button>
+          </div>
           <Select
-            value={timeRange}
-            onValueChange={(value) => onTimeRangeChange(value as TimeRange)}
+            value={customRange ? "custom" : timeRange}
+            onValueChange={handleRangeChange}
           >
             <SelectTrigger
               className={isMobile ? "w-full h-12 text-base" : "w-32"}
@@ -210,126 +353,234 @@ const LatencyChart: React.FC<LatencyChartProps> = ({
         </div>
       </div>
 
-      {/* Selected Pair Info */}
-      {selectedPair && (
-        <div className="mb-4 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
-          <p className="text-sm text-gray-600 dark:text-gray-300">
-            Showing latency between:
-          </p>
-          <p className="font-medium">
-            {selectedPair.source} → {selectedPair.target}
-          </p>
-        </div>
-      )}
-
-      {/* Stats Cards */}
-      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
-        <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
-          <p className="text-xs text-gray-600 dark:text-gray-400">Min</p>
-          <p className="text-lg font-semibold text-green-600">
-            {stats.min.toFixed(1)}ms
-          </p>
-        </div>
-        <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
-          <p className="text-xs text-gray-600 dark:text-gray-400">Max</p>
-          <p className="text-lg font-semibold text-red-600">
-            {stats.max.toFixed(1)}ms
-          </p>
-        </div>
-        <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
-          <p className="text-xs text-gray-600 dark:text-gray-400">Average</p>
-          <p className="text-lg font-semibold text-blue-600">
-            {stats.avg.toFixed(1)}ms
-          </p>
-        </div>
-        <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
-          <div className="flex items-center justify-center space-x-1">
-            {getTrendIcon()}
-            <p className="text-xs text-gray-600 dark:text-gray-400">Trend</p>
-          </div>
-          <p className={`text-sm font-semibold capitalize ${getTrendColor()}`}>
-            {stats.trend}
-          </p>
-        </div>
+      {/* Custom window, plus the bucket size the history is fetched at */}
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-xs text-gray-600 dark:text-gray-400">
+        {customRange && (
+          <>
+            <input
+              type="datetime-local"
+              aria-label="From"
+              className="px-2 py-1 border rounded-md bg-white dark:bg-gray-800 dark:border-gray-600"
+              value={toDateTimeInput(customRange.from)}
+              max={toDateTimeInput(customRange.to)}
+              onChange={(e) => updateCustomRange("from", e.target.value)}
+            />
+            <span>to</span>
+            <input
+              type="datetime-local"
+              aria-label="To"
+              className="px-2 py-1 border rounded-md bg-white dark:bg-gray-800 dark:border-gray-600"
+              value={toDateTimeInput(customRange.to)}
+              min={toDateTimeInput(customRange.from)}
+              onChange={(e) => updateCustomRange("to", e.target.value)}
+            />
+          </>
+        )}
+        <span>
+          {bucket} buckets{isLoading && " • Loading…"}
+        </span>
+        {error && <span className="text-red-600">{error}</span>}
       </div>
 
-      {/* Chart */}
-      {chartData.length > 0 ? (
-        <div className="h-80">
-          <ResponsiveContainer width="100%" height="100%">
-            <AreaChart data={chartData}>
-              <defs>
-                <linearGradient
-                  id="latencyGradient"
-                  x1="0"
-                  y1="0"
-                  x2="0"
-                  y2="1"
-                >
-                  <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.3} />
-                  <stop offset="95%" stopColor="#3b82f6" stopOpacity={0} />
-                </linearGradient>
-              </defs>
-              <CartesianGrid
-                strokeDasharray="3 3"
-                stroke={theme === "dark" ? "#374151" : "#e5e7eb"}
-              />
-              <XAxis
-                dataKey="label"
-                tick={{ fontSize: 12 }}
-                stroke={theme === "dark" ? "#9ca3af" : "#6b7280"}
-              />
-              <YAxis
-                tick={{ fontSize: 12 }}
-                stroke={theme === "dark" ? "#9ca3af" : "#6b7280"}
-                label={{
-                  value: "Latency (ms)",
-                  angle: -90,
-                  position: "insideLeft",
-                  style: { textAnchor: "middle" },
-                }}
-              />
-              <Tooltip content={<CustomTooltip />} />
-
-              {/* Average line */}
-              <ReferenceLine
-                y={stats.avg}
-                stroke="#6b7280"
-                strokeDasharray="5 5"
-                label="Avg"
-              />
-
-              {/* Area */}
-              <Area
-                type="monotone"
-                dataKey="value"
-                stroke="#3b82f6"
-                strokeWidth={2}
-                fill="url(#latencyGradient)"
-              />
-
-              {/* Line */}
-              <Line
-                type="monotone"
-                dataKey="value"
-                stroke="#3b82f6"
-                strokeWidth={2}
-                dot={{ fill: "#3b82f6", strokeWidth: 2, r: 3 }}
-                activeDot={{ r: 5, fill: "#3b82f6" }}
-              />
-            </AreaChart>
-          </ResponsiveContainer>
-        </div>
+      {mode === "compare" ? (
+        <PairComparisonChart
+          data={data}
+          pairs={pinnedPairs}
+          onPairsChange={setPinnedPairs}
+          range={range}
+          labelRange={labelRange}
+          theme={theme}
+          cursorTimestamp={cursorTimestamp}
+          onCursorChange={onCursorChange}
+        />
       ) : (
-        <div className="h-80 flex items-center justify-center text-gray-500">
-          <div className="text-center">
-            <Clock className="w-12 h-12 mx-auto mb-4 opacity-50" />
-            <p>No data available for the selected time range</p>
-            <p className="text-sm mt-2">
-              Try selecting a different time range or exchange pair
-            </p>
+        <>
+          {/* Selected Pair Info */}
+          <div className="mb-4 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+            {selectedPair ? (
+              <>
+                <p className="text-sm text-gray-600 dark:text-gray-300">
+                  Showing latency between:
+                </p>
+                <p className="font-medium">
+                  {selectedPair.source} → {selectedPair.target}
+                </p>
+              </>
+            ) : (
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                Showing the average over all connections. Select a connection to
+                see its own trend and anomalies.
+              </p>
+            )}
           </div>
-        </div>
+
+          {/* Stats Cards */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-4 mb-6">
+            <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+              <p className="text-xs text-gray-600 dark:text-gray-400">Min</p>
+              <p className="text-lg font-semibold text-green-600">
+                {stats.min.toFixed(1)}ms
+              </p>
+            </div>
+            <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+              <p className="text-xs text-gray-600 dark:text-gray-400">Max</p>
+              <p className="text-lg font-semibold text-red-600">
+                {stats.max.toFixed(1)}ms
+              </p>
+            </div>
+            <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+              <p className="text-xs text-gray-600 dark:text-gray-400">Average</p>
+              <p className="text-lg font-semibold text-blue-600">
+                {stats.avg.toFixed(1)}ms
+              </p>
+            </div>
+            {(["p50", "p90", "p99"] as const).map((key) => (
+              <div
+                key={key}
+                className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg"
+              >
+                <p className="text-xs text-gray-600 dark:text-gray-400 uppercase">
+                  {key}
+                </p>
+                <p className="text-lg font-semibold text-purple-600">
+                  {stats[key].toFixed(1)}ms
+                </p>
+              </div>
+            ))}
+            <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+              <div className="flex items-center justify-center space-x-1">
+                {getTrendIcon()}
+                <p className="text-xs text-gray-600 dark:text-gray-400">Trend</p>
+              </div>
+              <p className={`text-sm font-semibold capitalize ${getTrendColor()}`}>
+                {stats.trend}
+              </p>
+            </div>
+          </div>
+
+          {/* Chart */}
+          {chartData.length > 0 ? (
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart
+                  data={chartData}
+                  onClick={(state) => {
+                    const point = chartData[Number(state.activeTooltipIndex)];
+                    if (point && onCursorChange) onCursorChange(point.timestamp);
+                  }}
+                >
+                  <defs>
+                    <linearGradient
+                      id="latencyGradient"
+                      x1="0"
+                      y1="0"
+                      x2="0"
+                      y2="1"
+                    >
+                      <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.3} />
+                      <stop offset="95%" stopColor="#3b82f6" stopOpacity={0} />
+                    </linearGradient>
+                  </defs>
+                  <CartesianGrid
+                    strokeDasharray="3 3"
+                    stroke={theme === "dark" ? "#374151" : "#e5e7eb"}
+                  />
+                  <XAxis
+                    dataKey="label"
+                    tick={{ fontSize: 12 }}
+                    stroke={theme === "dark" ? "#9ca3af" : "#6b7280"}
+                  />
+                  <YAxis
+                    tick={{ fontSize: 12 }}
+                    stroke={theme === "dark" ? "#9ca3af" : "#6b7280"}
+                    label={{
+                      value: "Latency (ms)",
+                      angle: -90,
+                      position: "insideLeft",
+                      style: { textAnchor: "middle" },
+                    }}
+                  />
+                  <Tooltip content={<CustomTooltip />} />
+
+                  {/* Average line */}
+                  <ReferenceLine
+                    y={stats.avg}
+                    stroke="#6b7280"
+                    strokeDasharray="5 5"
+                    label="Avg"
+                  />
+
+                  {/* Playback cursor */}
+                  {cursorPoint && (
+                    <ReferenceLine
+                      x={cursorPoint.label}
+                      stroke={CURSOR_COLOR}
+                      strokeWidth={2}
+                      label={{ value: "Replay", fill: CURSOR_COLOR }}
+                    />
+                  )}
+
+                  {/* Percentile bands: p50-p90 and p90-p99 */}
+                  {hasPercentileBands && (
+                    <Area
+                      type="monotone"
+                      dataKey={(d: ChartDataPoint) =>
+                        d.p90 !== undefined ? [d.p90, d.p99 ?? d.p90] : null
+                      }
+                      stroke="none"
+                      fill="#a855f7"
+                      fillOpacity={0.12}
+                      isAnimationActive={false}
+                      activeDot={false}
+                    />
+                  )}
+                  {hasPercentileBands && (
+                    <Area
+                      type="monotone"
+                      dataKey={(d: ChartDataPoint) =>
+                        d.p90 !== undefined ? [d.p50 ?? d.value, d.p90] : null
+                      }
+                      stroke="none"
+                      fill="#a855f7"
+                      fillOpacity={0.25}
+                      isAnimationActive={false}
+                      activeDot={false}
+                    />
+                  )}
+
+                  {/* Area */}
+                  <Area
+                    type="monotone"
+                    dataKey="value"
+                    stroke="#3b82f6"
+                    strokeWidth={2}
+                    fill="url(#latencyGradient)"
+                  />
+
+                  {/* Line */}
+                  <Line
+                    type="monotone"
+                    dataKey="value"
+                    stroke="#3b82f6"
+                    strokeWidth={2}
+                    dot={renderDot}
+                    activeDot={{ r: 5, fill: "#3b82f6" }}
+                  />
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+          ) : (
+            <div className="h-80 flex items-center justify-center text-gray-500">
+              <div className="text-center">
+                <Clock className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                <p>No data available for the selected time range</p>
+                <p className="text-sm mt-2">
+                  Try selecting a different time range or exchange pair
+                </p>
+              </div>
+            </div>
+          )}
+        </>
       )}
     </Card>
   );
@@ -0,0 +1,211 @@
+"use client";
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import {
+  FilterOptions,
+  LatencyData,
+  LatencyDataSourceMetadata,
+  LatencyHistory,
+  LatencyHistoryQuery,
+  LatencySnapshot,
+  NetworkNode,
+  StreamStatus,
+} from "@/types";
+import { DEFAULT_FILTERS } from "@/constants/viewDefaults";
+import { createLatencyConnections } from "@/lib/exchangeData";
+import { averageUptime } from "@/lib/exchangeStatus/uptime";
+import { synthesizeRegionNodes } from "@/lib/latencyStore";
+import { aggregateHistory } from "@/lib/timeseries/history";
+import { useLatencyData } from "@/hooks/useLatencyData";
+import { useExchangeCatalog } from "@/hooks/useExchangeCatalog";
+import {
+  applyExchangeStatus,
+  useExchangeStatus,
+} from "@/hooks/useExchangeStatus";
+import {
+  mergeImportedLatency,
+  useLatencyImports,
+  UseLatencyImportsReturn,
+} from "@/hooks/useLatencyImports";
+
+export interface LatencyStore extends LatencySnapshot {
+  isLoading: boolean;
+  error: string | null;
+  dataSource: LatencyDataSourceMetadata;
+  streamStatus: StreamStatus;
+  imports: UseLatencyImportsReturn;
+  setFilters: (filters: FilterOptions) => void;
+  refreshData: () => void;
+  fetchHistory: (query: LatencyHistoryQuery) => Promise<LatencyHistory>;
+}
+
+// Region nodes resolved for one latency array, kept together so connections
+// are never built from latency whose endpoints aren't known yet
+interface ResolvedLatency {
+  latencyData: LatencyData[];
+  regionNodes: NetworkNode[];
+}
+
+const LatencyStoreContext = createContext<LatencyStore | null>(null);
+
+export function useLatencyStore(): LatencyStore;
+export function useLatencyStore<T>(selector: (store: LatencyStore) => T): T;
+export function useLatencyStore<T>(selector?: (store: LatencyStore) => T) {
+  const store = useContext(LatencyStoreContext);
+  if (!store) {
+    throw new Error("useLatencyStore must be used within LatencyStoreProvider");
+  }
+  return selector ? selector(store) : store;
+}
+
+/**
+ * Owns the latency feed for the page: one fetch (or stream), imported
+ * datasets, the exchange catalog and status pages, merged into a single
+ * snapshot that every view reads through `useLatencyStore`.
+ */
+export const LatencyStoreProvider: React.FC<{
+  children: React.ReactNode;
+  refreshInterval?: number;
+}> = ({ children, refreshInterval = 5 * 60 * 1000 }) => {
+  const [filters, setFilters] = useState<FilterOptions>(DEFAULT_FILTERS);
+  // Over the WebSocket transport the server pre-filters by this subscription
+  const subscription = useMemo(
+    () => ({
+      exchanges: filters.exchanges,
+      cloudProviders: filters.cloudProviders,
+      latencyRange: filters.latencyRange,
+    }),
+    [filters.exchanges, filters.cloudProviders, filters.latencyRange]
+  );
+  const live = useLatencyData(refreshInterval, undefined, subscription);
+  const imports = useLatencyImports();
+  const { exchanges: venues } = useExchangeCatalog();
+  const { reports: statusReports, incidents } = useExchangeStatus();
+
+  // Imported captures shown alongside or instead of the live feed
+  const { latencyData, historicalData } = useMemo(
+    () =>
+      mergeImportedLatency(
+        live.latencyData,
+        live.historicalData,
+        imports.active,
+        imports.mode
+      ),
+    [live.latencyData, live.historicalData, imports.active, imports.mode]
+  );
+
+  const [resolved, setResolved] = useState<ResolvedLatency>({
+    latencyData: [],
+    regionNodes: [],
+  });
+  const [resolveError, setResolveError] = useState<string | null>(null);
+
+  // Resolve the regions and PoPs each latency update refers to
+  useEffect(() => {
+    let cancelled = false;
+    synthesizeRegionNodes(latencyData, venues)
+      .then((regionNodes) => {
+        if (cancelled) return;
+        setResolved({ latencyData, regionNodes });
+        setResolveError(null);
+      })
+      .catch((e: unknown) => {
+        if (!cancelled) {
+          setResolveError(e instanceof Error ? e.message : "Unknown error");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [latencyData, venues]);
+
+  // Catalogued venues with their status taken from the status pages
+  const catalog = useMemo(
+    () => applyExchangeStatus(venues, statusReports),
+    [venues, statusReports]
+  );
+  const nodes = useMemo<NetworkNode[]>(
+    () => [...catalog, ...resolved.regionNodes],
+    [catalog, resolved.regionNodes]
+  );
+  const connections = useMemo(
+    () => createLatencyConnections(nodes, resolved.latencyData),
+    [nodes, resolved.latencyData]
+  );
+
+  // An imported dataset shown instead of the feed brings its own history
+  const { active: activeImport, mode: importMode } = imports;
+  const { fetchHistory: fetchLiveHistory } = live;
+  const fetchHistory = useCallback(
+    async (query: LatencyHistoryQuery) =>
+      activeImport && importMode === "replace"
+        ? aggregateHistory(activeImport.historicalData, query)
+        : fetchLiveHistory(query),
+    [activeImport, importMode, fetchLiveHistory]
+  );
+
+  // Uptime comes from the status pages' incident history when available
+  const metrics = useMemo(() => {
+    const uptime = averageUptime(Array.from(statusReports.values()));
+    return uptime !== null ? { ...live.metrics, uptime } : live.metrics;
+  }, [live.metrics, statusReports]);
+
+  // Still waiting on the first resolution of a non-empty feed
+  const isResolving =
+    resolved.latencyData.length === 0 && latencyData.length > 0;
+
+  const store = useMemo<LatencyStore>(
+    () => ({
+      latencyData: resolved.latencyData,
+      historicalData,
+      nodes,
+      connections,
+      filters,
+      metrics,
+      statusReports,
+      incidents,
+      lastUpdated: live.lastUpdated,
+      isLoading: live.isLoading || isResolving,
+      error: live.error || resolveError,
+      dataSource: live.dataSource,
+      streamStatus: live.streamStatus,
+      imports,
+      setFilters,
+      refreshData: live.refreshData,
+      fetchHistory,
+    }),
+    [
+      resolved.latencyData,
+      historicalData,
+      nodes,
+      connections,
+      filters,
+      metrics,
+      statusReports,
+      incidents,
+      live.lastUpdated,
+      live.isLoading,
+      isResolving,
+      live.error,
+      resolveError,
+      live.dataSource,
+      live.streamStatus,
+      imports,
+      live.refreshData,
+      fetchHistory,
+    ]
+  );
+
+  return (
+    <LatencyStoreContext.Provider value={store}>
+      {children}
+    </LatencyStoreContext.Provider>
+  );
+};
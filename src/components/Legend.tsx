@@ -2,8 +2,10 @@
 "use client";
 
 import React from "react";
-import { Info, Zap, Globe, Cloud } from "lucide-react";
+import { Info, Zap, Globe, Cloud, Shapes } from "lucide-react";
 import {
+  NODE_KIND_COLORS,
+  NODE_KIND_LABELS,
   PROVIDER_COLORS,
   LATENCY_QUALITY_COLORS,
 } from "@/constants/exchangeLocations";
@@ -91,6 +93,36 @@ const Legend: React.FC<LegendProps> = ({ className }) => {
           </div>
         </div>
 
+        {/* Node Types */}
+        <div>
+          <div className="flex items-center mb-2">
+            <Shapes className="w-4 h-4 mr-2" />
+            <span className="font-medium text-sm">Node Types</span>
+          </div>
+          <div className="space-y-1 ml-4">
+            {Object.entries(NODE_KIND_LABELS).map(([kind, label]) => {
+              // Exchanges and cloud regions take their provider's color
+              const color =
+                NODE_KIND_COLORS[kind as keyof typeof NODE_KIND_COLORS];
+              return (
+                <div key={kind} className="flex items-center">
+                  <div
+                    className={`w-3 h-3 rounded mr-2 ${color ? "" : "border-2 border-gray-400"}`}
+                    style={{ backgroundColor: color }}
+                  />
+                  <span className="text-xs">{label}</span>
+                  <span className="text-xs text-gray-500 ml-1">
+                    {kind === "exchange" && "(shape by map style)"}
+                    {kind === "cloud-region" && "(hex prism)"}
+                    {kind === "internet-region" && "(ring)"}
+                    {kind === "pop" && "(pyramid)"}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
         {/* Latency Quality */}
         <div>
           <div className="flex items-center mb-2">
@@ -134,6 +166,14 @@ const Legend: React.FC<LegendProps> = ({ className }) => {
               <div className="w-4 h-4 border-2 border-gray-400 rounded-full mr-2" />
               <span className="text-sm">Cloud Regions</span>
             </div>
+            <div className="flex items-center">
+              <div className="w-4 h-4 border-2 border-fuchsia-500 rounded-full mr-2" />
+              <span className="text-sm">Anomalous Latency</span>
+            </div>
+            <div className="flex items-center">
+              <div className="w-4 border-t-2 border-dashed border-gray-400 mr-2" />
+              <span className="text-sm">Packet Loss (dashed)</span>
+            </div>
           </div>
         </div>
       </div>
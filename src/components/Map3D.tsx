@@ -1,7 +1,7 @@
 "use client";
 
-import React, { useRef, useMemo, useState } from "react";
-import { Canvas, useFrame } from "@react-three/fiber";
+import React, { useRef, useMemo, useState, useEffect } from "react";
+import { Canvas, useFrame, useThree } from "@react-three/fiber";
 import {
   OrbitControls,
   Sphere,
@@ -9,13 +9,19 @@ import {
   Text,
   Billboard,
   Stars,
+  Html,
 } from "@react-three/drei";
 import * as THREE from "three";
 import type {
-  ExchangeLocation,
   LatencyConnection,
   FilterOptions,
   VisualizationSettings,
+  LatencyPath,
+  LatencyAnomaly,
+  CloudRegionCluster,
+  CameraPosition,
+  NetworkNode,
+  NetworkNodeKind,
 } from "@/types";
 
 import {
@@ -24,19 +30,36 @@ import {
   LATENCY_QUALITY_COLORS,
   // LATENCY_THRESHOLDS,
 } from "@/constants/exchangeLocations";
+import {
+  describeNode,
+  getNodeColor,
+  matchesExchangeNames,
+  matchesProviders,
+} from "@/lib/exchangeData";
 
 import useIsMobile from "@/hooks/useIsMobile";
 
 interface Map3DProps {
-  exchanges: ExchangeLocation[];
+  exchanges: NetworkNode[];
   connections: LatencyConnection[];
   filters: FilterOptions;
   visualizationSettings: VisualizationSettings;
   theme: "dark" | "light";
   mapStyle?: "realistic" | "neon" | "minimal";
-  onExchangeClick?: (exchange: ExchangeLocation) => void;
-  onExchangeHover?: (exchange: ExchangeLocation | null) => void;
+  onExchangeClick?: (exchange: NetworkNode) => void;
+  onExchangeHover?: (exchange: NetworkNode | null) => void;
   isMobile?: boolean; // add this line
+  highlightedPath?: LatencyPath | null;
+  anomalies?: LatencyAnomaly[];
+  regions?: CloudRegionCluster[];
+  selectedRegionId?: string | null;
+  onRegionClick?: (region: CloudRegionCluster) => void;
+  // Connections come from a historical snapshot rather than the live feed
+  isReplaying?: boolean;
+  // Move the camera here whenever this changes (e.g. a restored deep link)
+  cameraPosition?: CameraPosition;
+  // Called with the camera after the user finishes orbiting or zooming
+  onCameraChange?: (camera: CameraPosition) => void;
 }
 
 // Convert lat/lng to 3D coordinates on a sphere
@@ -51,6 +74,15 @@ const latLngToVector3 = (lat: number, lng: number, radius: number = 1) => {
   );
 };
 
+// Arc between two surface points, raised with distance so long hops clear the globe
+const createArcCurve = (sourcePos: THREE.Vector3, targetPos: THREE.Vector3) => {
+  const midPoint = sourcePos.clone().add(targetPos).multiplyScalar(0.5);
+  const distance = sourcePos.distanceTo(targetPos);
+  const height = 1.1 + distance * 0.3; // Dynamic arc height based on distance
+  midPoint.normalize().multiplyScalar(height);
+  return new THREE.QuadraticBezierCurve3(sourcePos, midPoint, targetPos);
+};
+
 // Get latency quality based on value
 const getLatencyQuality = (
   latency: number
@@ -336,28 +368,42 @@ const Earth: React.FC<{
   );
 };
 
-// Enhanced Exchange marker component with style variations
-const ExchangeMarker: React.FC<{
-  exchange: ExchangeLocation;
+type MarkerGeometry =
+  "box" | "octahedron" | "sphere" | "cylinder" | "torus" | "tetrahedron";
+
+// Exchanges take the map style's shape; the other kinds keep their own on
+// every style so they can't be mistaken for venues
+const NODE_GEOMETRY: Record<
+  Exclude<NetworkNodeKind, "exchange">,
+  MarkerGeometry
+> = {
+  "cloud-region": "cylinder",
+  "internet-region": "torus",
+  pop: "tetrahedron",
+};
+
+// Enhanced node marker component with style variations
+const NodeMarker: React.FC<{
+  node: NetworkNode;
   isFiltered: boolean;
   mapStyle?: "realistic" | "neon" | "minimal";
-  onClick: (exchange: ExchangeLocation) => void;
-  onHover: (exchange: ExchangeLocation | null) => void;
-}> = ({ exchange, isFiltered, mapStyle, onClick, onHover }) => {
+  onClick: (node: NetworkNode) => void;
+  onHover: (node: NetworkNode | null) => void;
+}> = ({ node, isFiltered, mapStyle, onClick, onHover }) => {
   const meshRef = useRef<THREE.Mesh>(null);
   const [hovered, setHovered] = useState(false);
 
   const position = useMemo(
     () =>
       latLngToVector3(
-        exchange.coordinates.latitude,
-        exchange.coordinates.longitude,
+        node.coordinates.latitude,
+        node.coordinates.longitude,
         1.05
       ),
-    [exchange.coordinates]
+    [node.coordinates]
   );
 
-  const color = PROVIDER_COLORS[exchange.cloudProvider];
+  const color = getNodeColor(node);
 
   // Style-specific marker properties
   const getMarkerProps = () => {
@@ -388,7 +434,12 @@ const ExchangeMarker: React.FC<{
     }
   };
 
-  const markerProps = getMarkerProps();
+  const styleProps = getMarkerProps();
+  const markerProps = {
+    ...styleProps,
+    geometry:
+      node.kind === "exchange" ? styleProps.geometry : NODE_GEOMETRY[node.kind],
+  };
 
   useFrame((state) => {
     if (meshRef.current) {
@@ -420,11 +471,20 @@ const ExchangeMarker: React.FC<{
   if (!isFiltered) return null;
 
   const renderGeometry = () => {
+    const size = markerProps.size;
     switch (markerProps.geometry) {
       case "octahedron":
-        return <octahedronGeometry args={[markerProps.size, 0]} />;
+        return <octahedronGeometry args={[size, 0]} />;
       case "sphere":
-        return <sphereGeometry args={[markerProps.size, 8, 6]} />;
+        return <sphereGeometry args={[size, 8, 6]} />;
+      // Hexagonal prism for cloud regions
+      case "cylinder":
+        return <cylinderGeometry args={[size * 0.7, size * 0.7, size, 6]} />;
+      // Ring for Internet regions: an area, not a site
+      case "torus":
+        return <torusGeometry args={[size * 0.8, size * 0.25, 8, 16]} />;
+      case "tetrahedron":
+        return <tetrahedronGeometry args={[size, 0]} />;
       default:
         return (
           <boxGeometry
@@ -439,10 +499,10 @@ const ExchangeMarker: React.FC<{
       {/* Main marker */}
       <mesh
         ref={meshRef}
-        onClick={() => onClick(exchange)}
+        onClick={() => onClick(node)}
         onPointerOver={() => {
           setHovered(true);
-          onHover(exchange);
+          onHover(node);
         }}
         onPointerOut={() => {
           setHovered(false);
@@ -504,9 +564,9 @@ const ExchangeMarker: React.FC<{
             <sphereGeometry args={[0.005, 8, 6]} />
             <meshBasicMaterial
               color={
-                exchange.status === "online"
+                node.status === "online"
                   ? "#10b981"
-                  : exchange.status === "maintenance"
+                  : node.status === "maintenance"
                   ? "#f59e0b"
                   : "#ef4444"
               }
@@ -528,7 +588,7 @@ const ExchangeMarker: React.FC<{
             outlineWidth={mapStyle === "minimal" ? 0 : 0.003}
             outlineColor={mapStyle === "neon" ? "#000033" : "#000000"}
           >
-            {exchange.displayName}
+            {node.displayName}
             {"\n"}
             <Text
               fontSize={mapStyle === "neon" ? 0.018 : 0.015}
@@ -536,7 +596,7 @@ const ExchangeMarker: React.FC<{
               outlineWidth={mapStyle === "minimal" ? 0 : 0.002}
               outlineColor={mapStyle === "neon" ? "#000033" : "#000000"}
             >
-              {exchange.region} • {exchange.status}
+              {describeNode(node)} • {node.status}
             </Text>
           </Text>
         </Billboard>
@@ -546,13 +606,29 @@ const ExchangeMarker: React.FC<{
 };
 
 // Enhanced Animated latency connection
+const ANOMALY_COLOR = "#d946ef";
+
 const LatencyConnection: React.FC<{
   connection: LatencyConnection;
   isVisible: boolean;
   animationSpeed: number;
-}> = ({ connection, isVisible, animationSpeed }) => {
-  // const lineRef = useRef<THREE.Line>(null);
+  isAnomalous?: boolean;
+  latencyDriven?: boolean;
+  packetLossThreshold: number;
+  jitterThreshold: number;
+}> = ({
+  connection,
+  isVisible,
+  animationSpeed,
+  isAnomalous,
+  latencyDriven,
+  packetLossThreshold,
+  jitterThreshold,
+}) => {
+  const lineRef = useRef<React.ComponentRef<typeof Line>>(null);
   const particleRef = useRef<THREE.Mesh>(null);
+  const anomalyRef = useRef<THREE.Mesh>(null);
+  const [hovered, setHovered] = useState(false);
   const [animationProgress, setAnimationProgress] = useState(Math.random());
 
   const sourcePos = useMemo(
@@ -575,35 +651,65 @@ const LatencyConnection: React.FC<{
     [connection.target.coordinates]
   );
 
-  const curve = useMemo(() => {
-    const midPoint = sourcePos.clone().add(targetPos).multiplyScalar(0.5);
-    const distance = sourcePos.distanceTo(targetPos);
-    const height = 1.1 + distance * 0.3; // Dynamic arc height based on distance
-    midPoint.normalize().multiplyScalar(height);
-    return new THREE.QuadraticBezierCurve3(sourcePos, midPoint, targetPos);
-  }, [sourcePos, targetPos]);
+  const curve = useMemo(
+    () => createArcCurve(sourcePos, targetPos),
+    [sourcePos, targetPos]
+  );
 
   const quality = getLatencyQuality(connection.latency);
   const color = LATENCY_QUALITY_COLORS[quality];
 
   // Use cloud provider color for the line
-  const providerColor = PROVIDER_COLORS[connection.source.cloudProvider] || '#888';
+  const providerColor = getNodeColor(connection.source);
+  // Replays color arcs by latency and slow particles on slow links, so the
+  // network looks the way it did at that moment
+  const lineColor = latencyDriven ? color : providerColor;
+  const speed = latencyDriven
+    ? animationSpeed * Math.min(Math.max(50 / connection.latency, 0.25), 2)
+    : animationSpeed;
+
+  // Lossy links are dashed (wider gaps for more loss) and flicker; jittery
+  // links wobble their particle in proportion to the jitter
+  const packetLoss = connection.packetLoss ?? 0;
+  const jitter = connection.jitter ?? 0;
+  const isLossy = packetLoss > packetLossThreshold;
+  const wobble = jitter > jitterThreshold ? Math.min(jitter, 50) * 0.0006 : 0;
+  const baseOpacity = isAnomalous || hovered ? 0.95 : 0.7;
 
   useFrame((state) => {
     if (!isVisible) return;
 
     const newProgress =
-      (state.clock.elapsedTime * animationSpeed + animationProgress) % 1;
+      (state.clock.elapsedTime * speed + animationProgress) % 1;
     setAnimationProgress(newProgress);
 
     if (particleRef.current) {
       const point = curve.getPoint(newProgress);
       particleRef.current.position.copy(point);
+      if (wobble > 0) {
+        const t = state.clock.elapsedTime * 25;
+        particleRef.current.position.x += Math.sin(t) * wobble;
+        particleRef.current.position.y += Math.sin(t * 1.7 + 1) * wobble;
+        particleRef.current.position.z += Math.cos(t * 1.3) * wobble;
+      }
 
       // Fade particle at the end of the curve
       const material = particleRef.current.material as THREE.MeshBasicMaterial;
       material.opacity = Math.sin(newProgress * Math.PI);
     }
+
+    // Drop the arc out briefly, more often the more packets are lost
+    if (lineRef.current && isLossy) {
+      const dropChance = Math.min(packetLoss / 20, 0.5);
+      lineRef.current.material.opacity =
+        Math.random() < dropChance ? 0.15 : baseOpacity;
+    }
+
+    // Pulse the anomaly marker
+    if (anomalyRef.current) {
+      const pulse = 1 + Math.sin(state.clock.elapsedTime * 4) * 0.3;
+      anomalyRef.current.scale.setScalar(pulse);
+    }
   });
 
   if (!isVisible || !connection.isActive) return null;
@@ -612,20 +718,73 @@ const LatencyConnection: React.FC<{
     <group>
       {/* Connection line with provider color */}
       <Line
-        // ref={lineRef}
+        ref={lineRef}
         points={curve.getPoints(50)}
-        color={providerColor}
-        lineWidth={connection.latency > 100 ? 3 : 2}
+        color={isAnomalous ? ANOMALY_COLOR : lineColor}
+        lineWidth={
+          hovered ? 4 : isAnomalous || connection.latency > 100 ? 3 : 2
+        }
         transparent
-        opacity={0.7}
+        opacity={baseOpacity}
+        dashed={isLossy}
+        dashSize={0.02}
+        gapSize={0.01 + Math.min(packetLoss, 10) * 0.004}
+        onPointerOver={(e) => {
+          e.stopPropagation();
+          setHovered(true);
+        }}
+        onPointerOut={() => setHovered(false)}
       />
 
+      {/* Latency distribution tooltip */}
+      {hovered && (
+        <Html position={curve.getPoint(0.5)} center zIndexRange={[40, 0]}>
+          <div className="pointer-events-none whitespace-nowrap rounded-md bg-black/80 px-2 py-1 text-xs text-white">
+            <p className="font-medium">
+              {connection.source.displayName} → {connection.target.displayName}
+            </p>
+            <p>{connection.latency.toFixed(1)}ms</p>
+            {(connection.packetLoss !== undefined ||
+              connection.jitter !== undefined) && (
+              <p className="text-gray-300">
+                loss {packetLoss.toFixed(2)}% • jitter {jitter.toFixed(1)}ms
+              </p>
+            )}
+            {connection.percentiles && (
+              <p className="text-gray-300">
+                p50 {connection.percentiles.p50.toFixed(1)}
+                {connection.percentiles.p90 !== undefined &&
+                  ` • p90 ${connection.percentiles.p90.toFixed(1)}`}
+                {connection.percentiles.p99 !== undefined &&
+                  ` • p99 ${connection.percentiles.p99.toFixed(1)}`}
+                ms
+              </p>
+            )}
+          </div>
+        </Html>
+      )}
+
       {/* Animated particle */}
       <mesh ref={particleRef}>
         <sphereGeometry args={[0.006, 8, 6]} />
-        <meshBasicMaterial color={providerColor} transparent opacity={0.9} />
+        <meshBasicMaterial color={lineColor} transparent opacity={0.9} />
       </mesh>
 
+      {/* Pulsing marker for statistically anomalous latency */}
+      {isAnomalous && (
+        <Billboard position={curve.getPoint(0.5)}>
+          <mesh ref={anomalyRef}>
+            <ringGeometry args={[0.015, 0.025, 16]} />
+            <meshBasicMaterial
+              color={ANOMALY_COLOR}
+              transparent
+              opacity={0.8}
+              side={THREE.DoubleSide}
+            />
+          </mesh>
+        </Billboard>
+      )}
+
       {/* Pulse effect for high latency */}
       {connection.latency > 100 && (
         <mesh position={curve.getPoint(0.5)}>
@@ -642,68 +801,291 @@ const LatencyConnection: React.FC<{
   );
 };
 
-// Enhanced Cloud region visualization
-// TODO: This component is available for future use when cloud regions are implemented
-// Temporarily disabled to avoid build errors
-// 
-// const CloudRegion: React.FC<{
-//   region: {
-//     name: string;
-//     coordinates: { latitude: number; longitude: number };
-//     provider: string;
-//   };
-//   isVisible: boolean;
-// }> = ({ region, isVisible }) => {
-//   const meshRef = useRef<THREE.Mesh>(null);
-//   const position = useMemo(
-//     () =>
-//       latLngToVector3(
-//         region.coordinates.latitude,
-//         region.coordinates.longitude,
-//         1.08
-//       ),
-//     [region.coordinates]
-//   );
-// 
-//   const color =
-//     PROVIDER_COLORS[region.provider as keyof typeof PROVIDER_COLORS];
-// 
-//   useFrame((state) => {
-//     if (meshRef.current) {
-//       meshRef.current.rotation.z = state.clock.elapsedTime * 0.5;
-//       // Subtle pulsing
-//       const pulse = Math.sin(state.clock.elapsedTime * 2) * 0.1 + 1;
-//       meshRef.current.scale.setScalar(pulse);
-//     }
-//   });
-// 
-//   if (!isVisible) return null;
-// 
-//   return (
-//     <group position={position}>
-//       <mesh ref={meshRef}>
-//         <ringGeometry args={[0.04, 0.06, 16]} />
-//         <meshBasicMaterial
-//           color={color}
-//           transparent
-//           opacity={0.4}
-//           side={THREE.DoubleSide}
-//         />
-//       </mesh>
-// 
-//       {/* Inner glow */}
-//       <mesh>
-//         <ringGeometry args={[0.02, 0.04, 16]} />
-//         <meshBasicMaterial
-//           color={color}
-//           transparent
-//           opacity={0.2}
-//           side={THREE.DoubleSide}
-//         />
-//       </mesh>
-//     </group>
-//   );
-// };
+// Heat color stops: green through the "low" band, yellow mid "medium",
+// red once latency is firmly "high" (see getLatencyQuality)
+const HEAT_STOPS = [
+  { latency: 25, color: new THREE.Color(LATENCY_QUALITY_COLORS.low) },
+  { latency: 75, color: new THREE.Color(LATENCY_QUALITY_COLORS.medium) },
+  { latency: 125, color: new THREE.Color(LATENCY_QUALITY_COLORS.high) },
+];
+
+const latencyToHeatColor = (latency: number): THREE.Color => {
+  if (latency <= HEAT_STOPS[0].latency) return HEAT_STOPS[0].color;
+  for (let i = 1; i < HEAT_STOPS.length; i++) {
+    const lower = HEAT_STOPS[i - 1];
+    const upper = HEAT_STOPS[i];
+    if (latency <= upper.latency) {
+      const t = (latency - lower.latency) / (upper.latency - lower.latency);
+      return lower.color.clone().lerp(upper.color, t);
+    }
+  }
+  return HEAT_STOPS[HEAT_STOPS.length - 1].color;
+};
+
+const HEATMAP_WIDTH = 360;
+const HEATMAP_HEIGHT = 180;
+// Angular radius (radians) over which a node's latency colors the surface
+const HEATMAP_INFLUENCE = (35 * Math.PI) / 180;
+
+// Globe-surface heatmap: each node's average latency is spread over the
+// surface by inverse-distance weighting, fading out away from any node
+const LatencyHeatmap: React.FC<{ connections: LatencyConnection[] }> = ({
+  connections,
+}) => {
+  const texture = useMemo(() => {
+    // Average latency per node across its connections
+    const nodes = new Map<
+      string,
+      { position: THREE.Vector3; sum: number; count: number }
+    >();
+    connections.forEach((connection) => {
+      [connection.source, connection.target].forEach((node) => {
+        const entry = nodes.get(node.id) ?? {
+          position: latLngToVector3(
+            node.coordinates.latitude,
+            node.coordinates.longitude
+          ),
+          sum: 0,
+          count: 0,
+        };
+        entry.sum += connection.latency;
+        entry.count++;
+        nodes.set(node.id, entry);
+      });
+    });
+    const samples = Array.from(nodes.values()).map((n) => ({
+      position: n.position,
+      latency: n.sum / n.count,
+    }));
+
+    const canvas = document.createElement("canvas");
+    canvas.width = HEATMAP_WIDTH;
+    canvas.height = HEATMAP_HEIGHT;
+    const context = canvas.getContext("2d");
+    if (!context || samples.length === 0) return null;
+
+    const image = context.createImageData(HEATMAP_WIDTH, HEATMAP_HEIGHT);
+    const point = new THREE.Vector3();
+    for (let y = 0; y < HEATMAP_HEIGHT; y++) {
+      // Equirectangular: row 0 is lat 90, column 0 is lng -180 (sphere UVs)
+      const lat = 90 - ((y + 0.5) / HEATMAP_HEIGHT) * 180;
+      for (let x = 0; x < HEATMAP_WIDTH; x++) {
+        const lng = ((x + 0.5) / HEATMAP_WIDTH) * 360 - 180;
+        point.copy(latLngToVector3(lat, lng));
+
+        let weightSum = 0;
+        let valueSum = 0;
+        let nearest = Math.PI;
+        for (const sample of samples) {
+          const angle = point.angleTo(sample.position);
+          nearest = Math.min(nearest, angle);
+          const weight = 1 / Math.max(angle * angle, 1e-4);
+          weightSum += weight;
+          valueSum += weight * sample.latency;
+        }
+
+        const color = latencyToHeatColor(valueSum / weightSum);
+        const falloff = Math.max(0, 1 - nearest / HEATMAP_INFLUENCE);
+        const offset = (y * HEATMAP_WIDTH + x) * 4;
+        image.data[offset] = color.r * 255;
+        image.data[offset + 1] = color.g * 255;
+        image.data[offset + 2] = color.b * 255;
+        image.data[offset + 3] = falloff * falloff * 160;
+      }
+    }
+    context.putImageData(image, 0, 0);
+
+    const canvasTexture = new THREE.CanvasTexture(canvas);
+    canvasTexture.colorSpace = THREE.SRGBColorSpace;
+    return canvasTexture;
+  }, [connections]);
+
+  // Free the previous texture's GPU memory when data refreshes
+  React.useEffect(() => () => texture?.dispose(), [texture]);
+
+  if (!texture) return null;
+
+  return (
+    <Sphere args={[1.012, 64, 32]}>
+      <meshBasicMaterial
+        map={texture}
+        transparent
+        depthWrite={false}
+        side={THREE.FrontSide}
+      />
+    </Sphere>
+  );
+};
+
+// Highlighted route with a latency label on each hop
+const PathHighlight: React.FC<{
+  path: LatencyPath;
+  connections: LatencyConnection[];
+}> = ({ path, connections }) => {
+  const hops = useMemo(
+    () =>
+      path.hops
+        .map((hop) => {
+          const connection = connections.find((c) => c.id === hop.connectionId);
+          if (!connection) return null;
+          // Orient the arc in travel direction
+          const [from, to] =
+            connection.source.id === hop.from
+              ? [connection.source, connection.target]
+              : [connection.target, connection.source];
+          const curve = createArcCurve(
+            latLngToVector3(
+              from.coordinates.latitude,
+              from.coordinates.longitude,
+              1.05
+            ),
+            latLngToVector3(
+              to.coordinates.latitude,
+              to.coordinates.longitude,
+              1.05
+            )
+          );
+          return { hop, curve };
+        })
+        .filter((h): h is NonNullable<typeof h> => !!h),
+    [path, connections]
+  );
+
+  return (
+    <group>
+      {hops.map(({ hop, curve }, idx) => (
+        <group key={`${hop.connectionId}-${idx}`}>
+          <Line
+            points={curve.getPoints(50)}
+            color="#facc15"
+            lineWidth={5}
+            transparent
+            opacity={0.95}
+          />
+          <Billboard position={curve.getPoint(0.5).multiplyScalar(1.03)}>
+            <Text
+              fontSize={0.03}
+              color="#facc15"
+              anchorX="center"
+              anchorY="bottom"
+              outlineWidth={0.003}
+              outlineColor="#000000"
+            >
+              {`${idx + 1}. ${hop.latency.toFixed(1)}ms`}
+            </Text>
+          </Billboard>
+        </group>
+      ))}
+    </group>
+  );
+};
+
+// Providers sharing a location (e.g. Singapore) get nested rings and
+// stacked badges instead of drawing on top of each other
+const PROVIDER_ORDER = Object.keys(PROVIDER_COLORS);
+const SURFACE_NORMAL = new THREE.Vector3(0, 0, 1);
+
+// Cloud region cluster: provider-coloured ring around the hosted exchanges,
+// with an exchange count / average latency badge. Click to drill in.
+const CloudRegion: React.FC<{
+  region: CloudRegionCluster;
+  isSelected: boolean;
+  onClick: (region: CloudRegionCluster) => void;
+}> = ({ region, isSelected, onClick }) => {
+  const ringRef = useRef<THREE.Mesh>(null);
+  const [hovered, setHovered] = useState(false);
+  const stackIndex = Math.max(PROVIDER_ORDER.indexOf(region.provider), 0);
+
+  const { position, quaternion, badgePosition } = useMemo(() => {
+    const { latitude, longitude } = region.coordinates;
+    const surface = latLngToVector3(latitude, longitude, 1.005);
+    return {
+      position: surface,
+      // Lay the ring flat on the globe surface
+      quaternion: new THREE.Quaternion().setFromUnitVectors(
+        SURFACE_NORMAL,
+        surface.clone().normalize()
+      ),
+      badgePosition: latLngToVector3(
+        latitude,
+        longitude,
+        1.12 + stackIndex * 0.04
+      ),
+    };
+  }, [region.coordinates, stackIndex]);
+
+  const color = PROVIDER_COLORS[region.provider];
+  // Ring grows with the number of hosted exchanges
+  const innerRadius = 0.045 + stackIndex * 0.02 + region.exchangeCount * 0.006;
+  const active = isSelected || hovered;
+  const badge = `${region.code} · ${region.exchangeCount} ex · ${Math.round(
+    region.averageLatency
+  )}ms`;
+
+  useFrame((state) => {
+    if (ringRef.current) {
+      // Subtle pulsing
+      const pulse = Math.sin(state.clock.elapsedTime * 2) * 0.05 + 1;
+      ringRef.current.scale.setScalar(active ? 1.1 : pulse);
+    }
+  });
+
+  const handleClick = (event: { stopPropagation: () => void }) => {
+    event.stopPropagation();
+    onClick(region);
+  };
+
+  return (
+    <group>
+      <group position={position} quaternion={quaternion}>
+        <mesh
+          ref={ringRef}
+          onClick={handleClick}
+          onPointerOver={() => setHovered(true)}
+          onPointerOut={() => setHovered(false)}
+        >
+          <ringGeometry args={[innerRadius, innerRadius + 0.012, 48]} />
+          <meshBasicMaterial
+            color={color}
+            transparent
+            opacity={active ? 0.9 : 0.5}
+            side={THREE.DoubleSide}
+            depthWrite={false}
+          />
+        </mesh>
+
+        {/* Inner glow */}
+        <mesh>
+          <circleGeometry args={[innerRadius, 48]} />
+          <meshBasicMaterial
+            color={color}
+            transparent
+            opacity={active ? 0.2 : 0.08}
+            side={THREE.DoubleSide}
+            depthWrite={false}
+          />
+        </mesh>
+      </group>
+
+      {/* Exchange count / average latency badge */}
+      <Billboard position={badgePosition}>
+        <Text
+          fontSize={0.03}
+          color={color}
+          outlineWidth={0.003}
+          outlineColor="#000000"
+          anchorX="center"
+          anchorY="middle"
+          onClick={handleClick}
+          onPointerOver={() => setHovered(true)}
+          onPointerOut={() => setHovered(false)}
+        >
+          {badge}
+        </Text>
+      </Billboard>
+    </group>
+  );
+};
 
 // Main 3D scene component
 const Scene3D: React.FC<Map3DProps> = ({
@@ -716,20 +1098,64 @@ const Scene3D: React.FC<Map3DProps> = ({
   onExchangeClick,
   onExchangeHover,
   isMobile,
+  highlightedPath,
+  anomalies,
+  regions,
+  selectedRegionId,
+  onRegionClick,
+  isReplaying,
+  cameraPosition,
+  onCameraChange,
 }) => {
+  const controlsRef = useRef<React.ComponentRef<typeof OrbitControls>>(null);
+  const camera = useThree((state) => state.camera);
+
+  // Jump to a restored camera position
+  useEffect(() => {
+    const controls = controlsRef.current;
+    if (!cameraPosition || !controls) return;
+    camera.position.set(...cameraPosition.position);
+    controls.target.set(...cameraPosition.target);
+    controls.update();
+  }, [cameraPosition, camera]);
+
+  const handleControlsEnd = () => {
+    const controls = controlsRef.current;
+    if (!controls || !onCameraChange) return;
+    onCameraChange({
+      position: camera.position.toArray() as CameraPosition["position"],
+      target: controls.target.toArray() as CameraPosition["target"],
+    });
+  };
+
+  // Undirected pair keys of connections whose latest sample is anomalous
+  const anomalousPairs = useMemo(
+    () =>
+      new Set(
+        (anomalies ?? []).map((a) => [a.source, a.target].sort().join("|"))
+      ),
+    [anomalies]
+  );
+
   // Filter exchanges based on current filters
   const filteredExchanges = useMemo(() => {
-    return exchanges.filter((exchange) => {
-      const exchangeMatch =
-        filters.exchanges.length === 0 ||
-        filters.exchanges.includes(exchange.name);
-      const providerMatch =
-        filters.cloudProviders.length === 0 ||
-        filters.cloudProviders.includes(exchange.cloudProvider);
-      return exchangeMatch && providerMatch;
-    });
+    return exchanges.filter(
+      (node) =>
+        matchesExchangeNames(node, filters.exchanges) &&
+        matchesProviders(node, filters.cloudProviders)
+    );
   }, [exchanges, filters]);
 
+  // Regions follow the provider filter and the "show regions" toggle
+  const filteredRegions = useMemo(() => {
+    if (!filters.showRegions) return [];
+    return (regions ?? []).filter(
+      (region) =>
+        filters.cloudProviders.length === 0 ||
+        filters.cloudProviders.includes(region.provider)
+    );
+  }, [regions, filters]);
+
   // Filter connections based on current filters and latency range
   const filteredConnections = useMemo(() => {
     return connections.filter((connection) => {
@@ -739,9 +1165,10 @@ const Scene3D: React.FC<Map3DProps> = ({
       const exchangesVisible =
         filteredExchanges.some((e) => e.id === connection.source.id) &&
         filteredExchanges.some((e) => e.id === connection.target.id);
-      return latencyInRange && exchangesVisible && filters.showRealTime;
+      const feedVisible = isReplaying || filters.showRealTime;
+      return latencyInRange && exchangesVisible && feedVisible;
     });
-  }, [connections, filters, filteredExchanges]);
+  }, [connections, filters, filteredExchanges, isReplaying]);
 
   return (
     <>
@@ -811,11 +1238,26 @@ const Scene3D: React.FC<Map3DProps> = ({
       {/* Earth */}
       <Earth theme={theme} mapStyle={mapStyle} />
 
+      {/* Latency heatmap overlay */}
+      {visualizationSettings.showLatencyHeatmap && (
+        <LatencyHeatmap connections={filteredConnections} />
+      )}
+
+      {/* Cloud region clusters */}
+      {filteredRegions.map((region) => (
+        <CloudRegion
+          key={region.id}
+          region={region}
+          isSelected={region.id === selectedRegionId}
+          onClick={onRegionClick || (() => {})}
+        />
+      ))}
+
       {/* Exchange markers */}
       {filteredExchanges.map((exchange, idx) => (
-        <ExchangeMarker
+        <NodeMarker
           key={`${exchange.id}-${idx}`}
-          exchange={exchange}
+          node={exchange}
           isFiltered={true}
           mapStyle={mapStyle}
           onClick={onExchangeClick || (() => {})}
@@ -828,13 +1270,26 @@ const Scene3D: React.FC<Map3DProps> = ({
         <LatencyConnection
           key={`${connection.id}-${idx}`}
           connection={connection}
-          isVisible={filters.showRealTime}
+          isVisible={isReplaying || filters.showRealTime}
           animationSpeed={visualizationSettings.animationSpeed}
+          latencyDriven={isReplaying}
+          packetLossThreshold={visualizationSettings.packetLossThreshold}
+          jitterThreshold={visualizationSettings.jitterThreshold}
+          isAnomalous={anomalousPairs.has(
+            [connection.source.id, connection.target.id].sort().join("|")
+          )}
         />
       ))}
 
+      {/* Highlighted shortest-latency route */}
+      {highlightedPath && (
+        <PathHighlight path={highlightedPath} connections={connections} />
+      )}
+
       {/* Enhanced Camera controls */}
       <OrbitControls
+        ref={controlsRef}
+        onEnd={handleControlsEnd}
         enableZoom={true}
         enablePan={!isMobile} // Optionally disable pan on mobile for easier use
         enableRotate={true}
@@ -16,6 +16,7 @@ import {
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { LatencyExportOptions } from "@/types";
 
 interface MobileNavigationProps {
   activeView: "map" | "chart" | "settings" | "info";
@@ -24,6 +25,10 @@ interface MobileNavigationProps {
   className?: string;
   showOnlyMenu?: boolean;
   showOnlyBottomNav?: boolean;
+  // Link to the current view; defaults to the page URL
+  getShareUrl?: () => string;
+  // Filters and time range the exported file should cover
+  getExportOptions?: () => LatencyExportOptions;
 }
 
 export const MobileNavigation: React.FC<MobileNavigationProps> = ({
@@ -33,6 +38,8 @@ export const MobileNavigation: React.FC<MobileNavigationProps> = ({
   className,
   showOnlyMenu = false,
   showOnlyBottomNav = false,
+  getShareUrl,
+  getExportOptions,
 }) => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [showHelp, setShowHelp] = useState(false);
@@ -46,13 +53,17 @@ export const MobileNavigation: React.FC<MobileNavigationProps> = ({
       const res = await fetch("/api/latency", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ action: "export" }),
+        body: JSON.stringify({
+          action: "export",
+          payload: getExportOptions?.(),
+        }),
       });
       const data = await res.json();
       if (data.success && data.downloadUrl) {
         const link = document.createElement("a");
         link.href = data.downloadUrl;
-        link.download = "latency-data.json";
+        // Keep the file name the server sends
+        link.download = "";
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
@@ -70,7 +81,8 @@ export const MobileNavigation: React.FC<MobileNavigationProps> = ({
   // Handler: Share View
   const handleShare = async () => {
     try {
-      await navigator.clipboard.writeText(window.location.href);
+      const url = getShareUrl ? getShareUrl() : window.location.href;
+      await navigator.clipboard.writeText(url);
       setToast("Link copied to clipboard!");
     } catch {
       setToast("Failed to copy link.");
@@ -0,0 +1,382 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+  LegendPayload,
+} from "recharts";
+import { X } from "lucide-react";
+import {
+  HistoricalLatencyData,
+  LatencyPair,
+  TimeRange,
+  TimeWindow,
+} from "@/types";
+import {
+  calculateStats,
+  findNearestPoint,
+  formatTimestamp,
+} from "@/lib/chartUtils";
+import { useLatencyHistory } from "@/hooks/useLatencyHistory";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface PairComparisonChartProps {
+  data: HistoricalLatencyData[];
+  pairs: LatencyPair[];
+  onPairsChange: (pairs: LatencyPair[]) => void;
+  range: TimeWindow;
+  // Preset whose label format the x-axis uses
+  labelRange: TimeRange;
+  theme: "dark" | "light";
+  cursorTimestamp?: number;
+  onCursorChange?: (timestamp: number) => void;
+}
+
+type ComparisonView = "absolute" | "difference" | "ratio";
+
+// One bucket: its time plus one value per visible series (s0, s1, ...)
+interface ComparisonRow {
+  timestamp: number;
+  label: string;
+  [series: string]: number | string | undefined;
+}
+
+const SERIES_COLORS = [
+  "#3b82f6",
+  "#f97316",
+  "#10b981",
+  "#a855f7",
+  "#ef4444",
+  "#eab308",
+];
+
+const VIEW_OPTIONS: { value: ComparisonView; label: string }[] = [
+  { value: "absolute", label: "Latency" },
+  { value: "difference", label: "Difference" },
+  { value: "ratio", label: "Ratio" },
+];
+
+const pairKey = (pair: LatencyPair) => `${pair.source}|${pair.target}`;
+const pairLabel = (pair: LatencyPair) => `${pair.source} → ${pair.target}`;
+const seriesKey = (idx: number) => `s${idx}`;
+
+const PairComparisonChart: React.FC<PairComparisonChartProps> = ({
+  data,
+  pairs,
+  onPairsChange,
+  range,
+  labelRange,
+  theme,
+  cursorTimestamp,
+  onCursorChange,
+}) => {
+  const [view, setView] = useState<ComparisonView>("absolute");
+  const [hidden, setHidden] = useState<Set<string>>(new Set());
+
+  const availablePairs = useMemo(() => {
+    const seen = new Map<string, LatencyPair>();
+    data.forEach((d) =>
+      seen.set(pairKey(d), { source: d.source, target: d.target })
+    );
+    return Array.from(seen.values()).filter(
+      (p) => !pairs.some((pinned) => pairKey(pinned) === pairKey(p))
+    );
+  }, [data, pairs]);
+
+  // Average latency per bucket for each pinned pair. Buckets are aligned
+  // server-side, so pairs sampled at slightly different times line up.
+  const { histories } = useLatencyHistory(pairs, range);
+  const series = useMemo(
+    () =>
+      histories.map(
+        (history) => new Map(history.buckets.map((b) => [b.timestamp, b.avg]))
+      ),
+    [histories]
+  );
+
+  // One row per bucket; the first pinned pair is the baseline for diff/ratio
+  const rows = useMemo(() => {
+    const timestamps = Array.from(
+      new Set(series.flatMap((s) => Array.from(s.keys())))
+    ).sort((a, b) => a - b);
+
+    return timestamps.map((timestamp) => {
+      const row: ComparisonRow = {
+        timestamp,
+        label: formatTimestamp(timestamp, labelRange),
+      };
+      const baseline = series[0]?.get(timestamp);
+      series.forEach((s, idx) => {
+        const value = s.get(timestamp);
+        if (value === undefined) return;
+        if (view === "absolute") row[seriesKey(idx)] = value;
+        else if (idx === 0 || baseline === undefined) return;
+        else if (view === "difference")
+          row[seriesKey(idx)] = value - baseline;
+        else if (baseline > 0) row[seriesKey(idx)] = value / baseline;
+      });
+      return row;
+    });
+  }, [series, labelRange, view]);
+
+  const seriesStats = useMemo(
+    () =>
+      series.map((s) => {
+        const points = Array.from(s.entries())
+          .sort(([a], [b]) => a - b)
+          .map(([timestamp, value]) => ({ timestamp, value, label: "" }));
+        return calculateStats(points);
+      }),
+    [series]
+  );
+
+  const cursorRow =
+    cursorTimestamp !== undefined
+      ? findNearestPoint(rows, cursorTimestamp)
+      : undefined;
+
+  const addPair = (key: string) => {
+    const pair = availablePairs.find((p) => pairKey(p) === key);
+    if (pair) onPairsChange([...pairs, pair]);
+  };
+
+  const removePair = (idx: number) => {
+    onPairsChange(pairs.filter((_, i) => i !== idx));
+    setHidden(new Set());
+  };
+
+  const toggleSeries = (entry: LegendPayload) => {
+    const key = String(entry.dataKey);
+    setHidden((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const yLabel =
+    view === "absolute"
+      ? "Latency (ms)"
+      : view === "difference"
+      ? "Δ vs baseline (ms)"
+      : "× baseline";
+
+  return (
+    <div>
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <Select
+          value=""
+          onValueChange={addPair}
+          disabled={
+            availablePairs.length === 0 || pairs.length >= SERIES_COLORS.length
+          }
+        >
+          <SelectTrigger className="w-64">
+            <SelectValue placeholder="Pin a pair to compare" />
+          </SelectTrigger>
+          <SelectContent>
+            {availablePairs.map((pair) => (
+              <SelectItem key={pairKey(pair)} value={pairKey(pair)}>
+                {pairLabel(pair)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex space-x-1 bg-gray-100 dark:bg-gray-800 rounded-lg p-1">
+          {VIEW_OPTIONS.map((option) => (
+            <Button
+              key={option.value}
+              size="sm"
+              variant={view === option.value ? "default" : "ghost"}
+              disabled={option.value !== "absolute" && pairs.length < 2}
+              onClick={() => setView(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {/* Per-series stats */}
+      {pairs.length > 0 && (
+        <div className="overflow-x-auto mb-4">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-600 dark:text-gray-400 text-left">
+                <th className="py-1">Pair</th>
+                <th className="py-1 text-right">Min</th>
+                <th className="py-1 text-right">Avg</th>
+                <th className="py-1 text-right">Max</th>
+                <th className="py-1 text-right">P90</th>
+                {view !== "absolute" && (
+                  <th className="py-1 text-right">vs baseline</th>
+                )}
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {pairs.map((pair, idx) => {
+                const stats = seriesStats[idx];
+                const baseAvg = seriesStats[0]?.avg ?? 0;
+                return (
+                  <tr
+                    key={pairKey(pair)}
+                    className="border-t border-gray-200 dark:border-gray-700"
+                  >
+                    <td className="py-1">
+                      <span
+                        className="inline-block w-2 h-2 rounded-full mr-2"
+                        style={{ backgroundColor: SERIES_COLORS[idx] }}
+                      />
+                      {pairLabel(pair)}
+                      {idx === 0 && pairs.length > 1 && (
+                        <span className="ml-1 text-xs text-gray-500">
+                          (baseline)
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-1 text-right">
+                      {stats?.min.toFixed(1)}ms
+                    </td>
+                    <td className="py-1 text-right">
+                      {stats?.avg.toFixed(1)}ms
+                    </td>
+                    <td className="py-1 text-right">
+                      {stats?.max.toFixed(1)}ms
+                    </td>
+                    <td className="py-1 text-right">
+                      {stats?.p90.toFixed(1)}ms
+                    </td>
+                    {view !== "absolute" && (
+                      <td className="py-1 text-right">
+                        {idx === 0 || !stats
+                          ? "-"
+                          : view === "difference"
+                          ? `${stats.avg - baseAvg >= 0 ? "+" : ""}${(
+                              stats.avg - baseAvg
+                            ).toFixed(1)}ms`
+                          : baseAvg > 0
+                          ? `${(stats.avg / baseAvg).toFixed(2)}×`
+                          : "-"}
+                      </td>
+                    )}
+                    <td className="py-1 text-right">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-6 w-6"
+                        aria-label={`Unpin ${pairLabel(pair)}`}
+                        onClick={() => removePair(idx)}
+                      >
+                        <X className="w-3 h-3" />
+                      </Button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Chart */}
+      {rows.length > 0 ? (
+        <div className="h-80">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart
+              data={rows}
+              onClick={(state) => {
+                const row = rows[Number(state.activeTooltipIndex)];
+                if (row && onCursorChange) {
+                  onCursorChange(row.timestamp);
+                }
+              }}
+            >
+              <CartesianGrid
+                strokeDasharray="3 3"
+                stroke={theme === "dark" ? "#374151" : "#e5e7eb"}
+              />
+              <XAxis
+                dataKey="label"
+                tick={{ fontSize: 12 }}
+                stroke={theme === "dark" ? "#9ca3af" : "#6b7280"}
+              />
+              <YAxis
+                tick={{ fontSize: 12 }}
+                stroke={theme === "dark" ? "#9ca3af" : "#6b7280"}
+                label={{
+                  value: yLabel,
+                  angle: -90,
+                  position: "insideLeft",
+                  style: { textAnchor: "middle" },
+                }}
+              />
+              <Tooltip
+                formatter={(value: number) =>
+                  view === "ratio"
+                    ? `${value.toFixed(2)}×`
+                    : `${value.toFixed(1)}ms`
+                }
+              />
+              <Legend
+                onClick={toggleSeries}
+                wrapperStyle={{ cursor: "pointer" }}
+              />
+              {view === "difference" && (
+                <ReferenceLine y={0} stroke="#6b7280" strokeDasharray="5 5" />
+              )}
+              {view === "ratio" && (
+                <ReferenceLine y={1} stroke="#6b7280" strokeDasharray="5 5" />
+              )}
+              {cursorRow && (
+                <ReferenceLine
+                  x={cursorRow.label}
+                  stroke="#f59e0b"
+                  strokeWidth={2}
+                />
+              )}
+              {pairs.map((pair, idx) =>
+                view !== "absolute" && idx === 0 ? null : (
+                  <Line
+                    key={pairKey(pair)}
+                    type="monotone"
+                    dataKey={seriesKey(idx)}
+                    name={pairLabel(pair)}
+                    stroke={SERIES_COLORS[idx]}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                    hide={hidden.has(seriesKey(idx))}
+                  />
+                )
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <div className="h-80 flex items-center justify-center text-gray-500">
+          <p>Pin two or more pairs to compare them</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PairComparisonChart;
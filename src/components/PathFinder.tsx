@@ -0,0 +1,151 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Route, X } from "lucide-react";
+import { LatencyConnection, LatencyPath, NetworkNode } from "@/types";
+import { findFastestPaths } from "@/lib/topology";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface PathFinderProps {
+  exchanges: NetworkNode[];
+  connections: LatencyConnection[];
+  selectedPath?: LatencyPath | null;
+  onPathSelect: (path: LatencyPath | null) => void;
+  onClose?: () => void;
+  className?: string;
+}
+
+const MAX_ROUTES = 3;
+
+const PathFinder: React.FC<PathFinderProps> = ({
+  exchanges,
+  connections,
+  selectedPath,
+  onPathSelect,
+  onClose,
+  className = "",
+}) => {
+  const [from, setFrom] = useState<string>("");
+  const [to, setTo] = useState<string>("");
+
+  const nameById = useMemo(
+    () => new Map(exchanges.map((e) => [e.id, e.displayName])),
+    [exchanges]
+  );
+
+  const paths = useMemo(() => {
+    if (!from || !to || from === to) return [];
+    return findFastestPaths(connections, from, to, MAX_ROUTES);
+  }, [connections, from, to]);
+
+  // Helper: keep the highlight on the fastest route whenever endpoints change
+  const updateEndpoints = (nextFrom: string, nextTo: string) => {
+    setFrom(nextFrom);
+    setTo(nextTo);
+    const next =
+      nextFrom && nextTo && nextFrom !== nextTo
+        ? findFastestPaths(connections, nextFrom, nextTo, 1)
+        : [];
+    onPathSelect(next[0] ?? null);
+  };
+
+  const isSelected = (path: LatencyPath) =>
+    !!selectedPath && selectedPath.nodes.join(">") === path.nodes.join(">");
+
+  const renderSelect = (
+    value: string,
+    placeholder: string,
+    onChange: (value: string) => void
+  ) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-full">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectGroup>
+          <SelectLabel>Venues</SelectLabel>
+          {exchanges.map((exchange) => (
+            <SelectItem key={exchange.id} value={exchange.id}>
+              {exchange.displayName}
+            </SelectItem>
+          ))}
+        </SelectGroup>
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card
+      className={`p-4 shadow-lg bg-white dark:bg-gray-900 ${className}`}
+      aria-label="Route finder"
+      role="region"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center">
+          <Route className="w-5 h-5 mr-2 text-yellow-500" />
+          <h4 className="font-semibold text-base">Fastest Route</h4>
+        </div>
+        {onClose && (
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label="Close route finder"
+            onClick={() => {
+              onPathSelect(null);
+              onClose();
+            }}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {renderSelect(from, "From venue", (value) =>
+          updateEndpoints(value, to)
+        )}
+        {renderSelect(to, "To venue", (value) => updateEndpoints(from, value))}
+      </div>
+
+      <div className="mt-3 space-y-2 text-sm">
+        {from && to && from !== to && paths.length === 0 && (
+          <p className="text-gray-600 dark:text-gray-400">
+            No route between these venues.
+          </p>
+        )}
+        {paths.map((path, idx) => (
+          <button
+            key={path.nodes.join(">")}
+            type="button"
+            onClick={() => onPathSelect(path)}
+            className={`w-full text-left rounded-md border p-2 transition-colors ${
+              isSelected(path)
+                ? "border-yellow-500 bg-yellow-500/10"
+                : "border-gray-200 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800"
+            }`}
+          >
+            <div className="flex justify-between font-medium">
+              <span>Route {idx + 1}</span>
+              <span>{path.totalLatency.toFixed(1)}ms</span>
+            </div>
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              {path.nodes.map((id) => nameById.get(id) ?? id).join(" → ")}
+            </p>
+          </button>
+        ))}
+      </div>
+    </Card>
+  );
+};
+
+export default PathFinder;
@@ -0,0 +1,121 @@
+"use client";
+
+import React from "react";
+import { History, Pause, Play, SkipBack, SkipForward } from "lucide-react";
+import { PlaybackFrame } from "@/types";
+import { UsePlaybackReturn } from "@/hooks/usePlayback";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface PlaybackTimelineProps {
+  frames: PlaybackFrame[];
+  playback: UsePlaybackReturn;
+  className?: string;
+}
+
+const SPEED_OPTIONS = [0.5, 1, 2, 4, 8];
+
+const formatFrameTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const PlaybackTimeline: React.FC<PlaybackTimelineProps> = ({
+  frames,
+  playback,
+  className = "",
+}) => {
+  const { frame, index, isPlaying, speed } = playback;
+
+  return (
+    <Card
+      className={`p-3 shadow-lg bg-white/90 dark:bg-gray-900/90 backdrop-blur-sm ${className}`}
+      aria-label="Historical playback"
+      role="region"
+    >
+      {frames.length === 0 ? (
+        <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+          <History className="w-4 h-4 mr-2" />
+          No stored history in the selected time range
+        </div>
+      ) : (
+        <div className="flex items-center gap-2">
+          <History className="w-4 h-4 text-amber-500 shrink-0" />
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8"
+            aria-label="Previous snapshot"
+            onClick={() => playback.seek(index - 1)}
+          >
+            <SkipBack className="w-4 h-4" />
+          </Button>
+          <Button
+            size="icon"
+            variant="outline"
+            className="h-8 w-8"
+            aria-label={isPlaying ? "Pause playback" : "Play history"}
+            onClick={isPlaying ? playback.pause : playback.play}
+          >
+            {isPlaying ? (
+              <Pause className="w-4 h-4" />
+            ) : (
+              <Play className="w-4 h-4" />
+            )}
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8"
+            aria-label="Next snapshot"
+            onClick={() => playback.seek(index + 1)}
+          >
+            <SkipForward className="w-4 h-4" />
+          </Button>
+          <input
+            type="range"
+            min={0}
+            max={frames.length - 1}
+            value={index}
+            aria-label="Playback position"
+            onChange={(e) => playback.seek(parseInt(e.target.value))}
+            className="flex-1 min-w-0 accent-amber-500"
+          />
+          <span
+            className="text-xs tabular-nums whitespace-nowrap w-28 text-right"
+            suppressHydrationWarning
+          >
+            {frame ? formatFrameTime(frame.timestamp) : "-"}
+          </span>
+          <Select
+            value={String(speed)}
+            onValueChange={(value) => playback.setSpeed(Number(value))}
+          >
+            <SelectTrigger className="w-20 h-8" aria-label="Playback speed">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SPEED_OPTIONS.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  {option}×
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default PlaybackTimeline;
@@ -0,0 +1,137 @@
+"use client";
+
+import React, { useState } from "react";
+import { Globe, Trash2, X } from "lucide-react";
+import { NODE_KIND_COLORS } from "@/constants/exchangeLocations";
+import { isRadarLocationCode } from "@/lib/radar/locations";
+import { UseRadarLocationsReturn } from "@/hooks/useRadarLocations";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+interface RadarLocationPanelProps {
+  locations: UseRadarLocationsReturn;
+  onClose?: () => void;
+  className?: string;
+}
+
+const RadarLocationPanel: React.FC<RadarLocationPanelProps> = ({
+  locations,
+  onClose,
+  className = "",
+}) => {
+  const [code, setCode] = useState("");
+  const { registry } = locations;
+  const names = new Map(
+    (registry?.locations ?? []).map((l) => [l.code, l.name])
+  );
+  const canAdd =
+    isRadarLocationCode(code) &&
+    !registry?.monitored.includes(code.toUpperCase());
+
+  const handleAdd = async () => {
+    if (!canAdd) return;
+    await locations.add(code);
+    setCode("");
+  };
+
+  return (
+    <Card
+      className={`p-4 shadow-lg bg-white dark:bg-gray-900 ${className}`}
+      aria-label="Radar locations"
+      role="region"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center">
+          <Globe className="w-5 h-5 mr-2 text-blue-600" />
+          <h4 className="font-semibold text-base">Radar Locations</h4>
+        </div>
+        {onClose && (
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label="Close locations"
+            onClick={onClose}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+      <p className="text-xs text-gray-600 dark:text-gray-400 mb-3">
+        Countries measured against Cloudflare&apos;s network, shown as Internet
+        region nodes.{" "}
+        {registry?.source === "file"
+          ? "Changed here; the server config is ignored until reset."
+          : "Set by RADAR_LOCATIONS on the server until changed here."}
+      </p>
+
+      <div className="flex gap-2 mb-2">
+        <input
+          type="text"
+          placeholder="Country code, e.g. BR"
+          aria-label="Country code"
+          maxLength={2}
+          className="flex-1 px-3 py-1 border rounded-lg text-sm uppercase bg-white dark:bg-gray-800 dark:border-gray-600"
+          value={code}
+          onChange={(e) => setCode(e.target.value.trim())}
+          onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+        />
+        <Button
+          size="sm"
+          disabled={!canAdd || locations.isSaving}
+          onClick={handleAdd}
+        >
+          {locations.isSaving ? "Saving..." : "Add"}
+        </Button>
+      </div>
+      {locations.error && (
+        <p className="text-xs text-red-600 mb-2">{locations.error}</p>
+      )}
+
+      <div className="space-y-1">
+        {(registry?.monitored ?? []).map((monitored) => (
+          <div
+            key={monitored}
+            className="flex items-center gap-2 rounded-md px-2 py-1 text-sm hover:bg-gray-100 dark:hover:bg-gray-800"
+          >
+            <span
+              className="inline-block w-2 h-2 rounded-full"
+              style={{ backgroundColor: NODE_KIND_COLORS["internet-region"] }}
+            />
+            <span className="font-mono text-xs w-6">{monitored}</span>
+            <span className="flex-1 truncate">
+              {names.get(monitored) ?? (
+                <span className="text-amber-600">
+                  Unresolved (no Radar metadata yet)
+                </span>
+              )}
+            </span>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7 text-gray-400 hover:text-red-600"
+              aria-label={`Stop monitoring ${monitored}`}
+              disabled={locations.isSaving}
+              onClick={() => locations.remove(monitored)}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {registry?.source === "file" && (
+        <Button
+          size="sm"
+          variant="outline"
+          className="w-full mt-3"
+          disabled={locations.isSaving}
+          onClick={locations.reset}
+        >
+          Reset to server config
+        </Button>
+      )}
+    </Card>
+  );
+};
+
+export default RadarLocationPanel;
@@ -0,0 +1,135 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { Cloud, X } from "lucide-react";
+import { CloudRegionCluster, ExchangeLocation } from "@/types";
+import { PROVIDER_COLORS } from "@/constants/exchangeLocations";
+import { calculateAverageLatency } from "@/lib/exchangeData";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+interface RegionDetailsProps {
+  region: CloudRegionCluster;
+  onExchangeClick?: (exchange: ExchangeLocation) => void;
+  onClose?: () => void;
+  className?: string;
+}
+
+const STATUS_COLORS: Record<ExchangeLocation["status"], string> = {
+  online: "bg-green-500",
+  maintenance: "bg-yellow-500",
+  offline: "bg-red-500",
+};
+
+const RegionDetails: React.FC<RegionDetailsProps> = ({
+  region,
+  onExchangeClick,
+  onClose,
+  className = "",
+}) => {
+  // Average latency of each hosted exchange across its own connections
+  const exchangeLatency = useMemo(
+    () =>
+      new Map(
+        region.exchanges.map((exchange) => [
+          exchange.id,
+          calculateAverageLatency(
+            region.connections.filter(
+              (c) => c.source.id === exchange.id || c.target.id === exchange.id
+            )
+          ),
+        ])
+      ),
+    [region]
+  );
+
+  return (
+    <Card
+      className={`p-4 shadow-lg bg-white dark:bg-gray-900 ${className}`}
+      aria-label="Cloud region details"
+      role="region"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center">
+          <Cloud
+            className="w-5 h-5 mr-2"
+            style={{ color: PROVIDER_COLORS[region.provider] }}
+          />
+          <div>
+            <h4 className="font-semibold text-base">{region.name}</h4>
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              {region.provider} • {region.code}
+            </p>
+          </div>
+        </div>
+        {onClose && (
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label="Close region details"
+            onClick={onClose}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-3 text-center">
+        <div>
+          <p className="text-lg font-semibold">{region.exchangeCount}</p>
+          <p className="text-xs text-gray-600 dark:text-gray-400">Exchanges</p>
+        </div>
+        <div>
+          <p className="text-lg font-semibold">
+            {region.averageLatency.toFixed(1)}ms
+          </p>
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            Avg Latency
+          </p>
+        </div>
+        <div>
+          <p className="text-lg font-semibold">{region.connections.length}</p>
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            Connections
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-2 text-sm">
+        {region.exchanges.length === 0 && (
+          <p className="text-gray-600 dark:text-gray-400">
+            No monitored exchanges are hosted in this region.
+          </p>
+        )}
+        {region.exchanges.map((exchange) => {
+          const latency = exchangeLatency.get(exchange.id) ?? 0;
+          return (
+            <button
+              key={exchange.id}
+              type="button"
+              onClick={() => onExchangeClick?.(exchange)}
+              className="w-full text-left rounded-md border border-gray-200 dark:border-gray-700 p-2 transition-colors hover:bg-gray-100 dark:hover:bg-gray-800"
+            >
+              <div className="flex items-center justify-between font-medium">
+                <span className="flex items-center">
+                  <span
+                    className={`inline-block w-2 h-2 rounded-full mr-2 ${
+                      STATUS_COLORS[exchange.status]
+                    }`}
+                  />
+                  {exchange.displayName}
+                </span>
+                <span>{latency > 0 ? `${latency.toFixed(1)}ms` : "-"}</span>
+              </div>
+              <p className="text-xs text-gray-600 dark:text-gray-400">
+                {exchange.serverCount} servers • {exchange.status}
+              </p>
+            </button>
+          );
+        })}
+      </div>
+    </Card>
+  );
+};
+
+export default RegionDetails;
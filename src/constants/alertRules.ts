@@ -0,0 +1,65 @@
+import { AlertRule } from "@/types";
+
+// Starter rules, seeded on first run. Edit them from the alert center or
+// through POST /api/alerts.
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: "latency-critical",
+    name: "Latency above 150ms",
+    type: "threshold",
+    threshold: 150,
+    scope: {},
+    severity: "critical",
+    enabled: true,
+  },
+  {
+    id: "latency-spike",
+    name: "Latency jumped 50%",
+    type: "rateOfChange",
+    threshold: 50,
+    scope: {},
+    severity: "warning",
+    enabled: true,
+  },
+  {
+    id: "packet-loss",
+    name: "Packet loss above 1%",
+    type: "packetLoss",
+    threshold: 1,
+    scope: {},
+    severity: "warning",
+    enabled: true,
+  },
+  {
+    id: "jitter",
+    name: "Jitter above 10ms",
+    type: "jitter",
+    threshold: 10,
+    scope: {},
+    severity: "info",
+    enabled: false,
+  },
+  {
+    id: "quality-downgrade",
+    name: "Quality downgraded",
+    type: "qualityDowngrade",
+    threshold: 1,
+    scope: {},
+    severity: "info",
+    enabled: true,
+  },
+];
+
+export const ALERT_RULE_TYPE_LABELS: Record<AlertRule["type"], string> = {
+  threshold: "Latency threshold (ms)",
+  rateOfChange: "Rate of change (%)",
+  packetLoss: "Packet loss (%)",
+  jitter: "Jitter (ms)",
+  qualityDowngrade: "Quality downgrade (steps)",
+};
+
+export const ALERT_SEVERITY_COLORS: Record<AlertRule["severity"], string> = {
+  info: "#3b82f6",
+  warning: "#f59e0b",
+  critical: "#ef4444",
+};
@@ -1,9 +1,10 @@
-import { ExchangeLocation, CloudRegion } from "@/types";
+import { ExchangeLocation, CloudRegion, NetworkNodeKind } from "@/types";
 
 export const EXCHANGE_LOCATIONS: ExchangeLocation[] = [
   // Binance locations
   {
     id: "binance-us-east",
+    kind: "exchange",
     name: "binance",
     displayName: "Binance (US East)",
     coordinates: { latitude: 39.0458, longitude: -77.5071, altitude: 0.02 },
@@ -15,6 +16,7 @@ export const EXCHANGE_LOCATIONS: ExchangeLocation[] = [
   },
   {
     id: "binance-eu-west",
+    kind: "exchange",
     name: "binance",
     displayName: "Binance (EU West)",
     coordinates: { latitude: 53.4084, longitude: -6.3947, altitude: 0.02 },
@@ -26,6 +28,7 @@ export const EXCHANGE_LOCATIONS: ExchangeLocation[] = [
   },
   {
     id: "binance-asia",
+    kind: "exchange",
     name: "binance",
     displayName: "Binance (Asia Pacific)",
     coordinates: { latitude: 1.3521, longitude: 103.8198, altitude: 0.02 },
@@ -38,6 +41,7 @@ export const EXCHANGE_LOCATIONS: ExchangeLocation[] = [
   // OKX locations
   {
     id: "okx-us",
+    kind: "exchange",
     name: "okx",
     displayName: "OKX (US Central)",
     coordinates: { latitude: 41.2524, longitude: -95.998, altitude: 0.02 },
@@ -49,6 +53,7 @@ export const EXCHANGE_LOCATIONS: ExchangeLocation[] = [
   },
   {
     id: "okx-europe",
+    kind: "exchange",
     name: "okx",
     displayName: "OKX (Europe)",
     coordinates: { latitude: 50.1109, longitude: 8.6821, altitude: 0.02 },
@@ -60,6 +65,7 @@ export const EXCHANGE_LOCATIONS: ExchangeLocation[] = [
   },
   {
     id: "okx-asia",
+    kind: "exchange",
     name: "okx",
     displayName: "OKX (Asia)",
     coordinates: { latitude: 35.6762, longitude: 139.6503, altitude: 0.02 },
@@ -72,6 +78,7 @@ export const EXCHANGE_LOCATIONS: ExchangeLocation[] = [
   // Bybit locations
   {
     id: "bybit-us",
+    kind: "exchange",
     name: "bybit",
     displayName: "Bybit (US West)",
     coordinates: { latitude: 37.7749, longitude: -122.4194, altitude: 0.02 },
@@ -83,6 +90,7 @@ export const EXCHANGE_LOCATIONS: ExchangeLocation[] = [
   },
   {
     id: "bybit-eu",
+    kind: "exchange",
     name: "bybit",
     displayName: "Bybit (Europe)",
     coordinates: { latitude: 52.3676, longitude: 4.9041, altitude: 0.02 },
@@ -94,6 +102,7 @@ export const EXCHANGE_LOCATIONS: ExchangeLocation[] = [
   },
   {
     id: "bybit-sea",
+    kind: "exchange",
     name: "bybit",
     displayName: "Bybit (Southeast Asia)",
     coordinates: { latitude: 1.3521, longitude: 103.8198, altitude: 0.02 },
@@ -106,6 +115,7 @@ export const EXCHANGE_LOCATIONS: ExchangeLocation[] = [
   // Deribit locations
   {
     id: "deribit-eu",
+    kind: "exchange",
     name: "deribit",
     displayName: "Deribit (EU Central)",
     coordinates: { latitude: 50.1109, longitude: 8.6821, altitude: 0.02 },
@@ -117,6 +127,7 @@ export const EXCHANGE_LOCATIONS: ExchangeLocation[] = [
   },
   {
     id: "deribit-us",
+    kind: "exchange",
     name: "deribit",
     displayName: "Deribit (US East)",
     coordinates: { latitude: 40.7128, longitude: -74.006, altitude: 0.02 },
@@ -129,6 +140,7 @@ export const EXCHANGE_LOCATIONS: ExchangeLocation[] = [
   // Coinbase locations
   {
     id: "coinbase-us-west",
+    kind: "exchange",
     name: "coinbase",
     displayName: "Coinbase (US West)",
     coordinates: { latitude: 37.7749, longitude: -122.4194, altitude: 0.02 },
@@ -140,6 +152,7 @@ export const EXCHANGE_LOCATIONS: ExchangeLocation[] = [
   },
   {
     id: "coinbase-us-east",
+    kind: "exchange",
     name: "coinbase",
     displayName: "Coinbase (US East)",
     coordinates: { latitude: 40.7128, longitude: -74.006, altitude: 0.02 },
@@ -244,6 +257,19 @@ export const PROVIDER_COLORS = {
   Azure: "#0078D4",
 };
 
+// Nodes no cloud provider hosts; the others take their provider's color
+export const NODE_KIND_COLORS = {
+  "internet-region": "#A855F7",
+  pop: "#14B8A6",
+};
+
+export const NODE_KIND_LABELS: Record<NetworkNodeKind, string> = {
+  exchange: "Exchange",
+  "cloud-region": "Cloud region",
+  "internet-region": "Internet region",
+  pop: "Point of presence",
+};
+
 export const LATENCY_QUALITY_COLORS = {
   high:"#DC2626", // Red 
   medium: "#F59E0B", // Yellow
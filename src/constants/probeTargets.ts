@@ -0,0 +1,89 @@
+import { ProbeConfig } from "@/types";
+
+// Node id probes are recorded from when PROBE_ORIGIN doesn't say where this
+// server runs. It isn't a catalogued venue, so no RTT is attributed to one.
+export const PROBE_SERVER_ORIGIN = "probe-server";
+
+// Public API endpoints per exchange location. Override with PROBE_CONFIG_PATH
+// (JSON file) to point probes at your own colo endpoints or local stand-ins.
+export const DEFAULT_PROBE_CONFIG: ProbeConfig = {
+  origin: PROBE_SERVER_ORIGIN,
+  samples: 3,
+  timeoutMs: 3000,
+  targets: [
+    {
+      exchangeId: "binance-us-east",
+      method: "tcp",
+      host: "api.binance.us",
+      port: 443,
+    },
+    {
+      exchangeId: "binance-eu-west",
+      method: "tcp",
+      host: "api.binance.com",
+      port: 443,
+    },
+    {
+      exchangeId: "binance-asia",
+      method: "tcp",
+      host: "api1.binance.com",
+      port: 443,
+    },
+    {
+      exchangeId: "okx-us",
+      method: "tcp",
+      host: "us.okx.com",
+      port: 443,
+    },
+    {
+      exchangeId: "okx-europe",
+      method: "tcp",
+      host: "my.okx.com",
+      port: 443,
+    },
+    {
+      exchangeId: "okx-asia",
+      method: "tcp",
+      host: "www.okx.com",
+      port: 443,
+    },
+    {
+      exchangeId: "bybit-us",
+      method: "tcp",
+      host: "api.bybit.com",
+      port: 443,
+    },
+    {
+      exchangeId: "bybit-eu",
+      method: "tcp",
+      host: "api.bybit.eu",
+      port: 443,
+    },
+    {
+      exchangeId: "bybit-sea",
+      method: "tcp",
+      host: "api.bytick.com",
+      port: 443,
+    },
+    {
+      exchangeId: "deribit-eu",
+      method: "http",
+      url: "https://www.deribit.com/api/v2/public/test",
+    },
+    {
+      exchangeId: "deribit-us",
+      method: "http",
+      url: "https://test.deribit.com/api/v2/public/test",
+    },
+    {
+      exchangeId: "coinbase-us-west",
+      method: "http",
+      url: "https://api.coinbase.com/v2/time",
+    },
+    {
+      exchangeId: "coinbase-us-east",
+      method: "http",
+      url: "https://api.exchange.coinbase.com/time",
+    },
+  ],
+};
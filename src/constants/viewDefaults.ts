@@ -0,0 +1,44 @@
+import {
+  FilterOptions,
+  ThemeSettings,
+  TimeRange,
+  ViewState,
+  VisualizationSettings,
+} from "@/types";
+
+// Initial view; deep links only carry what differs from these
+export const DEFAULT_THEME: ThemeSettings = {
+  mode: "dark",
+  mapStyle: "realistic",
+};
+
+export const DEFAULT_FILTERS: FilterOptions = {
+  exchanges: [],
+  cloudProviders: [],
+  latencyRange: { min: 0, max: 500 },
+  showRealTime: true,
+  showHistorical: false,
+  showRegions: true,
+};
+
+export const DEFAULT_VISUALIZATION_SETTINGS: VisualizationSettings = {
+  showLatencyHeatmap: false,
+  showNetworkTopology: true,
+  showDataFlow: true,
+  animationSpeed: 1.0,
+  particleCount: 50,
+  packetLossThreshold: 1,
+  jitterThreshold: 5,
+};
+
+export const DEFAULT_TIME_RANGE: TimeRange = "24h";
+
+export const DEFAULT_VIEW_STATE: ViewState = {
+  filters: DEFAULT_FILTERS,
+  visualization: DEFAULT_VISUALIZATION_SETTINGS,
+  theme: DEFAULT_THEME,
+  selectedExchangeId: null,
+  selectedPair: null,
+  timeRange: DEFAULT_TIME_RANGE,
+  camera: null,
+};
@@ -0,0 +1,131 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { AlertCenterState, AlertRule, LatencyAlert } from "@/types";
+
+export interface UseAlertsReturn {
+  rules: AlertRule[];
+  alerts: LatencyAlert[];
+  webhooks: string[];
+  activeAlerts: LatencyAlert[];
+  unacknowledgedCount: number;
+  error: string | null;
+  refresh: () => Promise<void>;
+  acknowledge: (ids: string[]) => Promise<void>;
+  saveRule: (rule: AlertRule) => Promise<void>;
+  deleteRule: (id: string) => Promise<void>;
+  setWebhooks: (urls: string[], adminToken: string) => Promise<void>;
+  testWebhook: (url: string, adminToken: string) => Promise<void>;
+}
+
+const EMPTY_STATE: AlertCenterState = { rules: [], alerts: [], webhooks: [] };
+
+// Helper: POST an action to the alerts API and return its data. Webhook
+// actions need the server's ALERTS_ADMIN_TOKEN.
+async function postAlertAction<T>(
+  action: string,
+  payload: unknown,
+  adminToken?: string
+) {
+  const res = await fetch("/api/alerts", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(adminToken ? { Authorization: `Bearer ${adminToken}` } : {}),
+    },
+    body: JSON.stringify({ action, payload }),
+  });
+  const json = await res.json();
+  if (!json.success) throw new Error(json.error || "Alerts API error");
+  return json.data as T;
+}
+
+/**
+ * Alert center state. Rules are evaluated server-side on every latency
+ * update; this polls for the results and refetches whenever `refreshKey`
+ * (e.g. the latency data's lastUpdated) changes.
+ */
+export const useAlerts = (
+  pollInterval = 15000,
+  refreshKey?: number
+): UseAlertsReturn => {
+  const [state, setState] = useState<AlertCenterState>(EMPTY_STATE);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const res = await fetch("/api/alerts");
+      const json = await res.json();
+      if (!json.success) throw new Error(json.error || "Alerts API error");
+      setState(json.data);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load alerts");
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, pollInterval);
+    return () => clearInterval(interval);
+  }, [refresh, pollInterval, refreshKey]);
+
+  // Helper: run a mutation and adopt the state it returns
+  const mutate = useCallback(
+    async (action: string, payload: unknown, adminToken?: string) => {
+      try {
+        setState(
+          await postAlertAction<AlertCenterState>(action, payload, adminToken)
+        );
+        setError(null);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "Alert update failed");
+      }
+    },
+    []
+  );
+
+  const acknowledge = useCallback(
+    (ids: string[]) => mutate("acknowledge", { ids }),
+    [mutate]
+  );
+  const saveRule = useCallback(
+    (rule: AlertRule) => mutate("saveRule", { rule }),
+    [mutate]
+  );
+  const deleteRule = useCallback(
+    (id: string) => mutate("deleteRule", { id }),
+    [mutate]
+  );
+  const setWebhooks = useCallback(
+    (urls: string[], adminToken: string) =>
+      mutate("setWebhooks", { urls }, adminToken),
+    [mutate]
+  );
+
+  const testWebhook = useCallback(async (url: string, adminToken: string) => {
+    try {
+      await postAlertAction("testWebhook", { url }, adminToken);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Webhook test failed");
+    }
+  }, []);
+
+  const activeAlerts = state.alerts.filter((a) => a.status === "active");
+
+  return {
+    rules: state.rules,
+    alerts: state.alerts,
+    webhooks: state.webhooks,
+    activeAlerts,
+    unacknowledgedCount: activeAlerts.filter((a) => !a.acknowledged).length,
+    error,
+    refresh,
+    acknowledge,
+    saveRule,
+    deleteRule,
+    setWebhooks,
+    testWebhook,
+  };
+};
@@ -0,0 +1,58 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { ExchangeLocation } from "@/types";
+import { EXCHANGE_LOCATIONS } from "@/constants/exchangeLocations";
+
+// Shared across hooks so the catalog is fetched once per page load
+let catalogRequest: Promise<ExchangeLocation[]> | null = null;
+
+/**
+ * Venues from /api/exchanges, falling back to the built-in list when the
+ * API is unreachable. Pass `force` to bypass the cached request.
+ */
+export function fetchExchangeCatalog(
+  force = false
+): Promise<ExchangeLocation[]> {
+  if (!catalogRequest || force) {
+    catalogRequest = fetch("/api/exchanges")
+      .then((res) => res.json())
+      .then((json) => {
+        if (!json.success) throw new Error(json.error || "Catalog API error");
+        return json.data as ExchangeLocation[];
+      })
+      .catch((e) => {
+        console.error("Failed to load exchange catalog:", e);
+        catalogRequest = null;
+        return EXCHANGE_LOCATIONS;
+      });
+  }
+  return catalogRequest;
+}
+
+export interface UseExchangeCatalogReturn {
+  exchanges: ExchangeLocation[];
+  refresh: () => Promise<void>;
+}
+
+// The configured exchange venues; built-ins until the first fetch resolves
+export const useExchangeCatalog = (): UseExchangeCatalogReturn => {
+  const [exchanges, setExchanges] =
+    useState<ExchangeLocation[]>(EXCHANGE_LOCATIONS);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchExchangeCatalog().then((catalog) => {
+      if (!cancelled) setExchanges(catalog);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const refresh = useCallback(async () => {
+    setExchanges(await fetchExchangeCatalog(true));
+  }, []);
+
+  return { exchanges, refresh };
+};
@@ -0,0 +1,78 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import {
+  ExchangeIncident,
+  ExchangeLocation,
+  ExchangeStatusReport,
+  ExchangeStatusState,
+} from "@/types";
+
+const EMPTY_STATE: ExchangeStatusState = { reports: [], incidents: [] };
+
+// Helper: Fetch status reports and incident history from the status API
+export async function fetchExchangeStatus(
+  refresh = false
+): Promise<ExchangeStatusState> {
+  const res = await fetch(
+    `/api/exchanges/status${refresh ? "?refresh=true" : ""}`
+  );
+  const json = await res.json();
+  if (!json.success) throw new Error(json.error || "Status API error");
+  return json.data as ExchangeStatusState;
+}
+
+// Overlay status-page status onto exchanges; venues without a feed keep theirs
+export const applyExchangeStatus = (
+  exchanges: ExchangeLocation[],
+  reports: Map<string, ExchangeStatusReport>
+): ExchangeLocation[] =>
+  exchanges.map((exchange) => {
+    const report = reports.get(exchange.id);
+    return report && report.status !== exchange.status
+      ? { ...exchange, status: report.status }
+      : exchange;
+  });
+
+export interface UseExchangeStatusReturn {
+  reports: Map<string, ExchangeStatusReport>;
+  incidents: ExchangeIncident[];
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Exchange status from the polled status pages, with rolling uptime and
+ * incident history. The server re-polls feeds at its own interval, so this
+ * only needs to keep up with it.
+ */
+export const useExchangeStatus = (
+  pollInterval = 60000
+): UseExchangeStatusReturn => {
+  const [state, setState] = useState<ExchangeStatusState>(EMPTY_STATE);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (refresh: boolean) => {
+    try {
+      setState(await fetchExchangeStatus(refresh));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load status");
+    }
+  }, []);
+
+  useEffect(() => {
+    load(false);
+    const interval = setInterval(() => load(false), pollInterval);
+    return () => clearInterval(interval);
+  }, [load, pollInterval]);
+
+  const reports = useMemo(
+    () => new Map(state.reports.map((r) => [r.exchangeId, r])),
+    [state.reports]
+  );
+
+  const refresh = useCallback(() => load(true), [load]);
+
+  return { reports, incidents: state.incidents, error, refresh };
+};
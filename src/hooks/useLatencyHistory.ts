@@ -0,0 +1,72 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  HistoryBucketSize,
+  LatencyHistory,
+  LatencyPair,
+  TimeWindow,
+} from "@/types";
+import { useLatencyStore } from "@/components/LatencyStoreProvider";
+import { pickHistoryBucket } from "@/lib/timeseries/history";
+
+export interface UseLatencyHistoryReturn {
+  // One per requested pair, in the same order
+  histories: LatencyHistory[];
+  bucket: HistoryBucketSize;
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Bucketed history for each pair over a window, fetched from the current
+ * source (or the imported dataset shown in its place). A pair without
+ * source/target covers every pair. The bucket size follows the window.
+ */
+export const useLatencyHistory = (
+  pairs: Partial<LatencyPair>[],
+  range: TimeWindow
+): UseLatencyHistoryReturn => {
+  const fetchHistory = useLatencyStore((store) => store.fetchHistory);
+  // Kept with the pairs they answer, so a stale result is never shown
+  // against different pairs (but is while a moved window reloads)
+  const [result, setResult] = useState<{
+    pairsKey: string;
+    histories: LatencyHistory[];
+  } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const bucket = pickHistoryBucket(range.from, range.to);
+  // Callers pass fresh arrays each render; refetch only when pairs change
+  const pairsKey = JSON.stringify(
+    pairs.map(({ source, target }) => ({ source, target }))
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    const queries = (JSON.parse(pairsKey) as Partial<LatencyPair>[]).map(
+      (pair) => ({ ...pair, from: range.from, to: range.to, bucket })
+    );
+    setIsLoading(true);
+    Promise.all(queries.map(fetchHistory))
+      .then((histories) => {
+        if (cancelled) return;
+        setResult({ pairsKey, histories });
+        setError(null);
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        setResult(null);
+        setError(e instanceof Error ? e.message : "Failed to load history");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [pairsKey, range.from, range.to, bucket, fetchHistory]);
+
+  const histories = result?.pairsKey === pairsKey ? result.histories : [];
+  return { histories, bucket, isLoading, error };
+};
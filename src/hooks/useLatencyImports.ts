@@ -0,0 +1,162 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  HistoricalLatencyData,
+  ImportedLatencyData,
+  LatencyData,
+  LatencyImportDataset,
+  LatencyImportMode,
+  LatencyImportRequest,
+  LatencyImportResult,
+} from "@/types";
+
+export interface UseLatencyImportsReturn {
+  datasets: LatencyImportDataset[];
+  // Dataset shown on the map, if any
+  active: ImportedLatencyData | null;
+  mode: LatencyImportMode;
+  isImporting: boolean;
+  lastResult: LatencyImportResult | null;
+  error: string | null;
+  show: (id: string | null) => void;
+  setMode: (mode: LatencyImportMode) => void;
+  importDataset: (request: LatencyImportRequest) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+// Helper: Call the import API and return its data
+async function importApi<T>(init?: RequestInit, query = "") {
+  const res = await fetch(`/api/latency/import${query}`, init);
+  const json = await res.json();
+  if (!json.success) throw new Error(json.error || "Import API error");
+  return json.data as T;
+}
+
+const postImportAction = <T>(action: string, payload: unknown) =>
+  importApi<T>({
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ action, payload }),
+  });
+
+/**
+ * Latency as the page should show it: the live feed, the imported dataset
+ * in its place, or both. Imported connections keep their own ids so they
+ * sit next to live ones for the same pair.
+ */
+export const mergeImportedLatency = (
+  latencyData: LatencyData[],
+  historicalData: HistoricalLatencyData[],
+  active: ImportedLatencyData | null,
+  mode: LatencyImportMode
+): { latencyData: LatencyData[]; historicalData: HistoricalLatencyData[] } => {
+  if (!active) return { latencyData, historicalData };
+  if (mode === "replace") {
+    return {
+      latencyData: active.latencyData,
+      historicalData: active.historicalData,
+    };
+  }
+  return {
+    latencyData: [...latencyData, ...active.latencyData],
+    historicalData,
+  };
+};
+
+// Imported latency datasets and which one (if any) is shown on the map
+export const useLatencyImports = (): UseLatencyImportsReturn => {
+  const [datasets, setDatasets] = useState<LatencyImportDataset[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [active, setActive] = useState<ImportedLatencyData | null>(null);
+  const [mode, setMode] = useState<LatencyImportMode>("overlay");
+  const [isImporting, setIsImporting] = useState(false);
+  const [lastResult, setLastResult] = useState<LatencyImportResult | null>(
+    null
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setDatasets(await importApi<LatencyImportDataset[]>());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load imports");
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Load the shown dataset's records
+  useEffect(() => {
+    if (!activeId) {
+      setActive(null);
+      return;
+    }
+    let cancelled = false;
+    importApi<ImportedLatencyData>(
+      undefined,
+      `?id=${encodeURIComponent(activeId)}`
+    )
+      .then((data) => {
+        if (!cancelled) setActive(data);
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        setError(e instanceof Error ? e.message : "Failed to load dataset");
+        setActiveId(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeId]);
+
+  const importDataset = useCallback(
+    async (request: LatencyImportRequest) => {
+      setIsImporting(true);
+      try {
+        const result = await postImportAction<LatencyImportResult>(
+          "import",
+          request
+        );
+        setLastResult(result);
+        setError(null);
+        await refresh();
+        // Show what was just imported
+        setActiveId(result.dataset.id);
+      } catch (e) {
+        setLastResult(null);
+        setError(e instanceof Error ? e.message : "Import failed");
+      } finally {
+        setIsImporting(false);
+      }
+    },
+    [refresh]
+  );
+
+  const remove = useCallback(async (id: string) => {
+    try {
+      setDatasets(
+        await postImportAction<LatencyImportDataset[]>("delete", { id })
+      );
+      setActiveId((current) => (current === id ? null : current));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Delete failed");
+    }
+  }, []);
+
+  return {
+    datasets,
+    active,
+    mode,
+    isImporting,
+    lastResult,
+    error,
+    show: setActiveId,
+    setMode,
+    importDataset,
+    remove,
+  };
+};
@@ -0,0 +1,141 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  LatencyData,
+  LatencySocketClientMessage,
+  LatencySocketServerMessage,
+  LatencyStreamSource,
+  LatencySubscription,
+  StreamStatus,
+} from "@/types";
+
+const INITIAL_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+interface UseLatencySocketReturn {
+  latencyData: LatencyData[];
+  status: StreamStatus;
+  lastUpdated: number;
+}
+
+// WebSocket endpoint, opt-in via NEXT_PUBLIC_LATENCY_WS_URL
+export const getLatencySocketUrl = (): string | null =>
+  process.env.NEXT_PUBLIC_LATENCY_WS_URL || null;
+
+/**
+ * Subscribe to the latency WebSocket with a filter set. The server only pushes
+ * connections matching the subscription; changing it re-subscribes in place.
+ * Pass a null url to stay disconnected.
+ */
+export const useLatencySocket = (
+  url: string | null,
+  subscription: LatencySubscription | undefined,
+  source: LatencyStreamSource
+): UseLatencySocketReturn => {
+  const [latencyData, setLatencyData] = useState<LatencyData[]>([]);
+  const [status, setStatus] = useState<StreamStatus>("closed");
+  const [lastUpdated, setLastUpdated] = useState(0);
+  const socketRef = useRef<WebSocket | null>(null);
+  // Serialized so a new-but-equal filter object doesn't trigger a resubscribe
+  const subscriptionKey = subscription ? JSON.stringify(subscription) : null;
+  const subscriptionKeyRef = useRef(subscriptionKey);
+  subscriptionKeyRef.current = subscriptionKey;
+
+  useEffect(() => {
+    if (!url) {
+      setStatus("closed");
+      return;
+    }
+
+    const connections = new Map<string, LatencyData>();
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let backoff = INITIAL_BACKOFF_MS;
+    let disposed = false;
+    let hasConnected = false;
+
+    const handleMessage = (raw: MessageEvent) => {
+      let message: LatencySocketServerMessage;
+      try {
+        message = JSON.parse(raw.data);
+      } catch {
+        console.error("Malformed latency socket message");
+        return;
+      }
+      switch (message.type) {
+        case "snapshot":
+          connections.clear();
+          message.data.forEach((d) => connections.set(d.id, d));
+          break;
+        case "delta":
+          message.data.removed.forEach((id) => connections.delete(id));
+          message.data.upserts.forEach((d) => connections.set(d.id, d));
+          break;
+        case "unsubscribed":
+          connections.clear();
+          break;
+        case "error":
+          console.error("Latency socket error:", message.error);
+          return;
+        default:
+          return;
+      }
+      setLatencyData(Array.from(connections.values()));
+      setLastUpdated(Date.now());
+    };
+
+    const connect = () => {
+      setStatus(hasConnected ? "reconnecting" : "connecting");
+      const socket = new WebSocket(url);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        hasConnected = true;
+        backoff = INITIAL_BACKOFF_MS;
+        setStatus("open");
+        // (Re)establish the current subscription; the server replies with a snapshot
+        const key = subscriptionKeyRef.current;
+        if (key) {
+          socket.send(
+            JSON.stringify({
+              type: "subscribe",
+              subscription: JSON.parse(key),
+              source,
+            } satisfies LatencySocketClientMessage)
+          );
+        }
+      };
+      socket.onmessage = handleMessage;
+      socket.onclose = () => {
+        socketRef.current = null;
+        if (disposed) return;
+        setStatus("reconnecting");
+        const delay = backoff + Math.random() * backoff * 0.2;
+        backoff = Math.min(backoff * 2, MAX_BACKOFF_MS);
+        retryTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+      setStatus("closed");
+    };
+  }, [url, source]);
+
+  // Push filter changes to the server without reconnecting
+  useEffect(() => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN) return;
+    const message: LatencySocketClientMessage = subscriptionKey
+      ? { type: "subscribe", subscription: JSON.parse(subscriptionKey), source }
+      : { type: "unsubscribe" };
+    socket.send(JSON.stringify(message));
+  }, [subscriptionKey, source]);
+
+  return { latencyData, status, lastUpdated };
+};
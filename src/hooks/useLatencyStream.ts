@@ -0,0 +1,111 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { LatencyData, LatencyStreamEvent, StreamStatus } from "@/types";
+
+const INITIAL_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+interface UseLatencyStreamReturn {
+  latencyData: LatencyData[];
+  status: StreamStatus;
+  lastEventId: string | null;
+  lastUpdated: number;
+}
+
+// Helper: Apply a stream event to the current connection map
+function applyStreamEvent(
+  connections: Map<string, LatencyData>,
+  event: LatencyStreamEvent
+) {
+  if (event.type === "snapshot") {
+    connections.clear();
+    event.data.forEach((d) => connections.set(d.id, d));
+  } else {
+    event.data.removed.forEach((id) => connections.delete(id));
+    event.data.upserts.forEach((d) => connections.set(d.id, d));
+  }
+}
+
+/**
+ * Subscribe to a Server-Sent Events latency stream. Reconnects with
+ * exponential backoff and resumes from the last received event id.
+ * Pass null to stay disconnected.
+ */
+export const useLatencyStream = (
+  url: string | null
+): UseLatencyStreamReturn => {
+  const [latencyData, setLatencyData] = useState<LatencyData[]>([]);
+  const [status, setStatus] = useState<StreamStatus>("closed");
+  const [lastUpdated, setLastUpdated] = useState(0);
+  const lastEventIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!url) {
+      setStatus("closed");
+      return;
+    }
+
+    const connections = new Map<string, LatencyData>();
+    lastEventIdRef.current = null;
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let backoff = INITIAL_BACKOFF_MS;
+    let disposed = false;
+
+    const handleEvent = (message: MessageEvent) => {
+      try {
+        const event = JSON.parse(message.data) as LatencyStreamEvent;
+        applyStreamEvent(connections, event);
+        lastEventIdRef.current = event.id;
+        setLatencyData(Array.from(connections.values()));
+        setLastUpdated(Date.now());
+      } catch (e) {
+        console.error("Malformed latency stream event:", e);
+      }
+    };
+
+    const connect = () => {
+      const resumeUrl = lastEventIdRef.current
+        ? `${url}${url.includes("?") ? "&" : "?"}lastEventId=${encodeURIComponent(
+            lastEventIdRef.current
+          )}`
+        : url;
+      setStatus(lastEventIdRef.current ? "reconnecting" : "connecting");
+      source = new EventSource(resumeUrl);
+
+      source.onopen = () => {
+        backoff = INITIAL_BACKOFF_MS;
+        setStatus("open");
+      };
+      source.addEventListener("snapshot", handleEvent);
+      source.addEventListener("delta", handleEvent);
+      // Take over reconnection from the browser so we control the backoff
+      source.onerror = () => {
+        source?.close();
+        source = null;
+        if (disposed) return;
+        setStatus("reconnecting");
+        const delay = backoff + Math.random() * backoff * 0.2;
+        backoff = Math.min(backoff * 2, MAX_BACKOFF_MS);
+        retryTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      source?.close();
+      setStatus("closed");
+    };
+  }, [url]);
+
+  return {
+    latencyData,
+    status,
+    lastEventId: lastEventIdRef.current,
+    lastUpdated,
+  };
+};
@@ -0,0 +1,80 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { PlaybackFrame } from "@/types";
+import { findFrameIndex } from "@/lib/playback";
+
+// Frames advanced per second at 1x
+const BASE_FRAMES_PER_SECOND = 2;
+
+export interface UsePlaybackReturn {
+  frame: PlaybackFrame | null;
+  index: number;
+  isPlaying: boolean;
+  speed: number;
+  play: () => void;
+  pause: () => void;
+  seek: (index: number) => void;
+  seekToTimestamp: (timestamp: number) => void;
+  setSpeed: (speed: number) => void;
+}
+
+/**
+ * Playback cursor over a list of replay frames. Playing advances one frame
+ * per tick and stops on the last frame; starting again from the end rewinds.
+ */
+export const usePlayback = (frames: PlaybackFrame[]): UsePlaybackReturn => {
+  const [index, setIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  // Keep the cursor in bounds when the frames are rebuilt
+  const clamped = Math.min(index, Math.max(frames.length - 1, 0));
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const interval = setInterval(
+      () => setIndex((prev) => Math.min(prev + 1, frames.length - 1)),
+      1000 / (BASE_FRAMES_PER_SECOND * speed)
+    );
+    return () => clearInterval(interval);
+  }, [isPlaying, speed, frames.length]);
+
+  // Stop on the last frame
+  useEffect(() => {
+    if (isPlaying && clamped >= frames.length - 1) setIsPlaying(false);
+  }, [isPlaying, clamped, frames.length]);
+
+  const play = useCallback(() => {
+    if (frames.length === 0) return;
+    setIndex((prev) => (prev >= frames.length - 1 ? 0 : prev));
+    setIsPlaying(true);
+  }, [frames.length]);
+
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  const seek = useCallback(
+    (next: number) =>
+      setIndex(Math.min(Math.max(next, 0), Math.max(frames.length - 1, 0))),
+    [frames.length]
+  );
+
+  const seekToTimestamp = useCallback(
+    (timestamp: number) => {
+      if (frames.length > 0) setIndex(findFrameIndex(frames, timestamp));
+    },
+    [frames]
+  );
+
+  return {
+    frame: frames[clamped] ?? null,
+    index: clamped,
+    isPlaying,
+    speed,
+    play,
+    pause,
+    seek,
+    seekToTimestamp,
+    setSpeed,
+  };
+};
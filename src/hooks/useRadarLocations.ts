@@ -0,0 +1,76 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { RadarLocationRegistry } from "@/types";
+import { fetchRadarLocations } from "@/lib/dataSources/radarSource";
+
+export interface UseRadarLocationsReturn {
+  registry: RadarLocationRegistry | null;
+  isSaving: boolean;
+  error: string | null;
+  add: (code: string) => Promise<void>;
+  remove: (code: string) => Promise<void>;
+  // Back to the server's RADAR_LOCATIONS
+  reset: () => Promise<void>;
+}
+
+/**
+ * The countries the Radar feed monitors. `onChange` runs after the set
+ * changes so the caller can refetch latency for the new countries.
+ */
+export const useRadarLocations = (
+  onChange?: () => void
+): UseRadarLocationsReturn => {
+  const [registry, setRegistry] = useState<RadarLocationRegistry | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchRadarLocations()
+      .then((data) => {
+        if (!cancelled) setRegistry(data);
+      })
+      .catch((e) => {
+        if (!cancelled) {
+          setError(e instanceof Error ? e.message : "Failed to load locations");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const update = useCallback(
+    async (action: string, payload?: unknown) => {
+      setIsSaving(true);
+      try {
+        const res = await fetch("/api/radar/location", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action, payload }),
+        });
+        const json = await res.json();
+        if (!json.success) throw new Error(json.error || "Location API error");
+        // Refresh the shared registry the Radar feed reads from
+        setRegistry(await fetchRadarLocations(true));
+        setError(null);
+        onChange?.();
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "Failed to save locations");
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [onChange]
+  );
+
+  const add = useCallback((code: string) => update("add", { code }), [update]);
+  const remove = useCallback(
+    (code: string) => update("remove", { code }),
+    [update]
+  );
+  const reset = useCallback(() => update("reset"), [update]);
+
+  return { registry, isSaving, error, add, remove, reset };
+};
@@ -0,0 +1,78 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { ViewState } from "@/types";
+import { buildViewUrl, parseViewState } from "@/lib/viewState";
+
+// Let sliders and camera moves settle before touching history
+const URL_SYNC_DELAY_MS = 400;
+
+// Helper: Are two URLs the same view apart from the camera?
+const sameExceptCamera = (a: string, b: string) => {
+  const strip = (href: string) => {
+    const url = new URL(href);
+    url.searchParams.delete("camera");
+    return url.toString();
+  };
+  return strip(a) === strip(b);
+};
+
+/**
+ * Keep view state and the URL in sync. The view in the URL is handed to
+ * `onRestore` on load and on back/forward; afterwards each change is
+ * written back as a new history entry, except camera moves, which replace
+ * the current entry so orbiting the globe doesn't flood history. A URL that
+ * only differs from the canonical form of its own view (e.g. reordered or
+ * default parameters), like the one the page was opened with, is normalized
+ * in place too.
+ */
+export const useViewStateUrl = (
+  state: ViewState,
+  onRestore: (state: ViewState) => void
+) => {
+  const [restored, setRestored] = useState(false);
+  const onRestoreRef = useRef(onRestore);
+  const pendingRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // The first write after load only normalizes the URL it was opened with
+  const initialRef = useRef(true);
+
+  useEffect(() => {
+    onRestoreRef.current = onRestore;
+  }, [onRestore]);
+
+  useEffect(() => {
+    const restore = () => {
+      // A write still waiting from before back/forward would undo it
+      if (pendingRef.current) clearTimeout(pendingRef.current);
+      pendingRef.current = null;
+      onRestoreRef.current(parseViewState(window.location.search));
+    };
+    restore();
+    setRestored(true);
+    window.addEventListener("popstate", restore);
+    return () => window.removeEventListener("popstate", restore);
+  }, []);
+
+  useEffect(() => {
+    if (!restored) return;
+    const timeout = setTimeout(() => {
+      pendingRef.current = null;
+      const initial = initialRef.current;
+      initialRef.current = false;
+      const current = window.location.href;
+      const next = buildViewUrl(state, current);
+      if (next === current) return;
+      const canonical = buildViewUrl(
+        parseViewState(window.location.search),
+        current
+      );
+      if (initial || next === canonical || sameExceptCamera(next, current)) {
+        window.history.replaceState(window.history.state, "", next);
+      } else {
+        window.history.pushState(window.history.state, "", next);
+      }
+    }, URL_SYNC_DELAY_MS);
+    pendingRef.current = timeout;
+    return () => clearTimeout(timeout);
+  }, [state, restored]);
+};
@@ -0,0 +1,9 @@
+export async function register() {
+  // The WebSocket server is opt-in and needs Node sockets (not the edge runtime)
+  if (process.env.NEXT_RUNTIME === "nodejs" && process.env.LATENCY_WS_PORT) {
+    const { startLatencySocketServer } = await import(
+      "@/lib/stream/socketServer"
+    );
+    startLatencySocketServer(Number(process.env.LATENCY_WS_PORT));
+  }
+}
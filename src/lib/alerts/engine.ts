@@ -0,0 +1,117 @@
+import { AlertRule, AlertRuleScope, LatencyData } from "@/types";
+import { getExchangeCatalogSnapshot } from "@/lib/exchangeCatalog";
+
+const QUALITY_RANK: Record<LatencyData["quality"], number> = {
+  excellent: 0,
+  good: 1,
+  fair: 2,
+  poor: 3,
+};
+
+export interface AlertBreach {
+  rule: AlertRule;
+  data: LatencyData;
+  value: number;
+  message: string;
+}
+
+// Helper: Pairs are undirected, so A->B and B->A share a key
+export const pairKey = (source: string, target: string) =>
+  [source, target].sort().join("<->");
+
+const providerOf = (id: string) =>
+  getExchangeCatalogSnapshot().find((e) => e.id === id)?.cloudProvider;
+
+/**
+ * Does a rule's scope cover this pair? Source/target match in either
+ * direction; a provider matches when either endpoint is hosted there.
+ */
+export const matchesScope = (
+  data: LatencyData,
+  scope: AlertRuleScope
+): boolean => {
+  const ends = [data.source, data.target];
+  if (scope.source && !ends.includes(scope.source)) return false;
+  if (scope.target && !ends.includes(scope.target)) return false;
+  if (scope.source && scope.target && scope.source === scope.target)
+    return false;
+  if (
+    scope.cloudProvider &&
+    !ends.some((id) => providerOf(id) === scope.cloudProvider)
+  )
+    return false;
+  return true;
+};
+
+// Helper: Measured value for a rule, or null when it can't be evaluated
+const measure = (
+  rule: AlertRule,
+  current: LatencyData,
+  previous?: LatencyData
+): number | null => {
+  switch (rule.type) {
+    case "threshold":
+      return current.latency;
+    case "packetLoss":
+      return current.packetLoss ?? null;
+    case "jitter":
+      return current.jitter ?? null;
+    case "rateOfChange":
+      if (!previous || previous.latency <= 0) return null;
+      return ((current.latency - previous.latency) / previous.latency) * 100;
+    case "qualityDowngrade":
+      if (!previous) return null;
+      return QUALITY_RANK[current.quality] - QUALITY_RANK[previous.quality];
+  }
+};
+
+const describe = (
+  rule: AlertRule,
+  current: LatencyData,
+  value: number,
+  previous?: LatencyData
+): string => {
+  const pair = `${current.source} → ${current.target}`;
+  switch (rule.type) {
+    case "threshold":
+      return `${pair} latency ${value.toFixed(1)}ms exceeds ${rule.threshold}ms`;
+    case "packetLoss":
+      return `${pair} packet loss ${value.toFixed(2)}% exceeds ${rule.threshold}%`;
+    case "jitter":
+      return `${pair} jitter ${value.toFixed(1)}ms exceeds ${rule.threshold}ms`;
+    case "rateOfChange": {
+      const from = previous?.latency.toFixed(1);
+      const to = current.latency.toFixed(1);
+      return `${pair} latency rose ${value.toFixed(0)}% (${from}ms → ${to}ms)`;
+    }
+    case "qualityDowngrade":
+      return `${pair} quality dropped from ${previous?.quality} to ${current.quality}`;
+  }
+};
+
+/**
+ * Evaluate enabled rules against one update. `previous` holds the last
+ * sample per pair (keyed by pairKey) for rate-of-change and downgrades.
+ */
+export function evaluateRules(
+  rules: AlertRule[],
+  data: LatencyData[],
+  previous: Map<string, LatencyData>
+): AlertBreach[] {
+  const breaches: AlertBreach[] = [];
+  for (const current of data) {
+    const prev = previous.get(pairKey(current.source, current.target));
+    for (const rule of rules) {
+      if (!rule.enabled || !matchesScope(current, rule.scope)) continue;
+      const value = measure(rule, current, prev);
+      if (value === null || value < rule.threshold) continue;
+      breaches.push({
+        rule,
+        data: current,
+        value,
+        message: describe(rule, current, value, prev),
+      });
+    }
+  }
+  return breaches;
+}
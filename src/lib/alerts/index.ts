@@ -0,0 +1,171 @@
+import { randomUUID } from "crypto";
+import {
+  AlertCenterState,
+  AlertRule,
+  AlertWebhookPayload,
+  LatencyAlert,
+  LatencyData,
+} from "@/types";
+import { processState } from "@/lib/processState";
+import { AlertBreach, evaluateRules, pairKey } from "./engine";
+import { loadAlertState, updateAlertState } from "./store";
+import { dispatchWebhooks, sendWebhook } from "./webhook";
+
+export { evaluateRules, matchesScope, pairKey } from "./engine";
+export type { AlertBreach } from "./engine";
+export { validateAlertRule } from "./rules";
+export { loadAlertState } from "./store";
+export { sendWebhook, validateWebhookUrl } from "./webhook";
+
+// Last sample per pair for each feed, for rate-of-change and downgrades
+const previousByFeed = processState(
+  "alertPreviousSamples",
+  () => new Map<string, Map<string, LatencyData>>()
+);
+
+const alertKey = (
+  ruleId: string,
+  feed: string,
+  source: string,
+  target: string
+) => `${ruleId}|${feed}|${pairKey(source, target)}`;
+
+const toPayloads = (
+  event: AlertWebhookPayload["event"],
+  alerts: LatencyAlert[]
+): AlertWebhookPayload[] =>
+  alerts.map((alert) => ({ event, alert, timestamp: Date.now() }));
+
+const createAlert = (feed: string, breach: AlertBreach): LatencyAlert => ({
+  id: randomUUID(),
+  ruleId: breach.rule.id,
+  ruleName: breach.rule.name,
+  ruleType: breach.rule.type,
+  severity: breach.rule.severity,
+  feed,
+  source: breach.data.source,
+  target: breach.data.target,
+  value: breach.value,
+  threshold: breach.rule.threshold,
+  message: breach.message,
+  status: "active",
+  triggeredAt: Date.now(),
+  acknowledged: false,
+});
+
+/**
+ * Evaluate the alert rules against one latency update from a feed. An alert
+ * opens when a rule starts breaching for a pair and resolves once the pair
+ * reports back within bounds; both transitions are sent to the webhooks.
+ * Returns the newly triggered alerts.
+ */
+export async function evaluateLatencyAlerts(
+  feed: string,
+  data: LatencyData[]
+): Promise<LatencyAlert[]> {
+  if (data.length === 0) return [];
+  const previous = previousByFeed.get(feed) ?? new Map<string, LatencyData>();
+  const { rules } = await loadAlertState();
+  const breaches = new Map(
+    evaluateRules(rules, data, previous).map((b) => [
+      alertKey(b.rule.id, feed, b.data.source, b.data.target),
+      b,
+    ])
+  );
+  const reported = new Set(data.map((d) => pairKey(d.source, d.target)));
+  data.forEach((d) => previous.set(pairKey(d.source, d.target), d));
+  previousByFeed.set(feed, previous);
+
+  const triggered: LatencyAlert[] = [];
+  const resolved: LatencyAlert[] = [];
+  const next = await updateAlertState((current) => {
+    const stillActive = new Set<string>();
+    const alerts = current.alerts.map((alert) => {
+      if (alert.status !== "active" || alert.feed !== feed) return alert;
+      const key = alertKey(alert.ruleId, feed, alert.source, alert.target);
+      const breach = breaches.get(key);
+      if (breach) {
+        stillActive.add(key);
+        return { ...alert, value: breach.value, message: breach.message };
+      }
+      // Pairs missing from this update keep their current state
+      if (!reported.has(pairKey(alert.source, alert.target))) return alert;
+      const closed: LatencyAlert = {
+        ...alert,
+        status: "resolved",
+        resolvedAt: Date.now(),
+      };
+      resolved.push(closed);
+      return closed;
+    });
+    breaches.forEach((breach, key) => {
+      if (!stillActive.has(key)) triggered.push(createAlert(feed, breach));
+    });
+    return { ...current, alerts: [...triggered, ...alerts] };
+  });
+
+  void dispatchWebhooks(next.webhooks, [
+    ...toPayloads("alert.triggered", triggered),
+    ...toPayloads("alert.resolved", resolved),
+  ]);
+  return triggered;
+}
+
+export const acknowledgeAlerts = (ids: string[]): Promise<AlertCenterState> =>
+  updateAlertState((current) => ({
+    ...current,
+    alerts: current.alerts.map((alert) =>
+      ids.includes(alert.id) && !alert.acknowledged
+        ? { ...alert, acknowledged: true, acknowledgedAt: Date.now() }
+        : alert
+    ),
+  }));
+
+// Create or replace a rule by id
+export const saveAlertRule = (rule: AlertRule): Promise<AlertCenterState> =>
+  updateAlertState((current) => ({
+    ...current,
+    rules: current.rules.some((r) => r.id === rule.id)
+      ? current.rules.map((r) => (r.id === rule.id ? rule : r))
+      : [...current.rules, rule],
+  }));
+
+// Remove a rule and resolve any alerts it still has open
+export const deleteAlertRule = (id: string): Promise<AlertCenterState> =>
+  updateAlertState((current) => ({
+    ...current,
+    rules: current.rules.filter((r) => r.id !== id),
+    alerts: current.alerts.map((alert) =>
+      alert.ruleId === id && alert.status === "active"
+        ? { ...alert, status: "resolved", resolvedAt: Date.now() }
+        : alert
+    ),
+  }));
+
+export const setAlertWebhooks = (urls: string[]): Promise<AlertCenterState> =>
+  updateAlertState((current) => ({ ...current, webhooks: urls }));
+
+// Send a sample alert so a receiver can be checked end to end
+export async function sendTestWebhook(url: string): Promise<number> {
+  const now = Date.now();
+  return sendWebhook(url, {
+    event: "alert.test",
+    alert: {
+      id: randomUUID(),
+      ruleId: "test",
+      ruleName: "Test alert",
+      ruleType: "threshold",
+      severity: "info",
+      feed: "test",
+      source: "binance-us-east",
+      target: "binance-eu-west",
+      value: 0,
+      threshold: 0,
+      message: "Test notification from the latency alert center",
+      status: "active",
+      triggeredAt: now,
+      acknowledged: false,
+    },
+    timestamp: now,
+  });
+}
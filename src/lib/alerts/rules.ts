@@ -0,0 +1,42 @@
+import { AlertRule } from "@/types";
+
+const RULE_TYPES: AlertRule["type"][] = [
+  "threshold",
+  "rateOfChange",
+  "packetLoss",
+  "jitter",
+  "qualityDowngrade",
+];
+const SEVERITIES: AlertRule["severity"][] = ["info", "warning", "critical"];
+const PROVIDERS = ["AWS", "GCP", "Azure"];
+
+// Returns an error message for an invalid rule, or null when it's valid
+export function validateAlertRule(rule: AlertRule): string | null {
+  if (!rule || typeof rule !== "object") return "Rule must be an object";
+  if (typeof rule.id !== "string" || !rule.id) return "Rule id is required";
+  if (typeof rule.name !== "string" || !rule.name.trim())
+    return "Rule name is required";
+  if (!RULE_TYPES.includes(rule.type))
+    return `Rule type must be one of ${RULE_TYPES.join(", ")}`;
+  if (typeof rule.threshold !== "number" || !isFinite(rule.threshold))
+    return "Threshold must be a number";
+  if (rule.type === "qualityDowngrade" && rule.threshold < 1)
+    return "Quality downgrade threshold must be at least 1 step";
+  if (rule.type !== "rateOfChange" && rule.threshold < 0)
+    return "Threshold must not be negative";
+  if (!SEVERITIES.includes(rule.severity))
+    return `Severity must be one of ${SEVERITIES.join(", ")}`;
+  if (typeof rule.enabled !== "boolean") return "Enabled must be a boolean";
+  const scope = rule.scope;
+  if (!scope || typeof scope !== "object") return "Scope must be an object";
+  if (scope.source !== undefined && typeof scope.source !== "string")
+    return "Scope source must be a string";
+  if (scope.target !== undefined && typeof scope.target !== "string")
+    return "Scope target must be a string";
+  if (
+    scope.cloudProvider !== undefined &&
+    !PROVIDERS.includes(scope.cloudProvider)
+  )
+    return `Scope provider must be one of ${PROVIDERS.join(", ")}`;
+  return null;
+}
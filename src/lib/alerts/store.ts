@@ -0,0 +1,49 @@
+import path from "path";
+import { AlertCenterState } from "@/types";
+import { createJsonFileStore } from "@/lib/jsonFileStore";
+import { processState } from "@/lib/processState";
+import { DEFAULT_ALERT_RULES } from "@/constants/alertRules";
+
+const MAX_ALERT_HISTORY = 500;
+
+const envWebhooks = () =>
+  (process.env.ALERT_WEBHOOK_URLS || "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
+
+// Helper: Active alerts are always kept; resolved ones roll off oldest first
+const trimHistory = (next: AlertCenterState): AlertCenterState => {
+  const resolved = next.alerts.filter((a) => a.status === "resolved");
+  const overflow = resolved.length - MAX_ALERT_HISTORY;
+  if (overflow <= 0) return next;
+  const dropped = new Set(
+    resolved
+      .sort((a, b) => a.triggeredAt - b.triggeredAt)
+      .slice(0, overflow)
+      .map((a) => a.id)
+  );
+  return { ...next, alerts: next.alerts.filter((a) => !dropped.has(a.id)) };
+};
+
+// Rules, alert history and webhook targets persist to one JSON file
+const store = processState("alertStore", () =>
+  createJsonFileStore<AlertCenterState>({
+    path: () =>
+      process.env.ALERTS_DATA_PATH ||
+      path.join(process.cwd(), ".data", "alerts.json"),
+    parse: (raw) => ({
+      rules: Array.isArray(raw?.rules) ? raw.rules : DEFAULT_ALERT_RULES,
+      alerts: Array.isArray(raw?.alerts) ? raw.alerts : [],
+      webhooks: Array.isArray(raw?.webhooks) ? raw.webhooks : envWebhooks(),
+    }),
+    prepare: trimHistory,
+    cached: true,
+    onWriteError: (e) => console.error("Failed to persist alert state:", e),
+  })
+);
+
+export const loadAlertState = store.load;
+
+// Apply a change to the alert state and persist it
+export const updateAlertState = store.update;
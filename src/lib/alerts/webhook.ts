@@ -0,0 +1,105 @@
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+import { AlertWebhookPayload } from "@/types";
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+// Helper: Loopback, private, link-local and unspecified addresses, which a
+// webhook must not be able to reach on the server's behalf
+const isInternalAddress = (address: string): boolean => {
+  // IPv4-mapped IPv6 (URL parsing writes ::ffff:127.0.0.1 as ::ffff:7f00:1)
+  const ip = address
+    .toLowerCase()
+    .replace(/^::ffff:(?=\d+\.)/, "")
+    .replace(/^::ffff:([\da-f]{1,4}):([\da-f]{1,4})$/, (_, hi, lo) =>
+      [parseInt(hi, 16) >> 8, parseInt(hi, 16) & 255]
+        .concat([parseInt(lo, 16) >> 8, parseInt(lo, 16) & 255])
+        .join(".")
+    );
+  if (isIP(ip) === 4) {
+    const [a, b] = ip.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168)
+    );
+  }
+  return (
+    ip === "::" || ip === "::1" || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip)
+  );
+};
+
+/**
+ * Returns an error message for a webhook URL that isn't http(s) or whose host
+ * is (or resolves to) an internal address, or null when it may be used.
+ * Webhooks from `ALERT_WEBHOOK_URLS` are operator-configured and not checked.
+ */
+export async function validateWebhookUrl(url: unknown): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(String(url));
+  } catch {
+    return "Webhook must be an http(s) URL";
+  }
+  if (typeof url !== "string" || !["http:", "https:"].includes(parsed.protocol))
+    return "Webhook must be an http(s) URL";
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, "");
+  if (host === "localhost" || host.endsWith(".localhost"))
+    return `Webhook host ${host} is not allowed`;
+  try {
+    const addresses = isIP(host)
+      ? [{ address: host }]
+      : await lookup(host, { all: true });
+    if (addresses.some(({ address }) => isInternalAddress(address)))
+      return `Webhook host ${host} resolves to an internal address`;
+  } catch {
+    return `Webhook host ${host} could not be resolved`;
+  }
+  return null;
+}
+
+// POST a JSON payload to one webhook. Resolves with the HTTP status.
+export async function sendWebhook(
+  url: string,
+  payload: AlertWebhookPayload
+): Promise<number> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+      // A redirect could point a vetted URL at an internal address
+      redirect: "error",
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook ${url} responded ${response.status}`);
+    }
+    return response.status;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Fan a payload out to every webhook, logging (not throwing) failures
+export async function dispatchWebhooks(
+  urls: string[],
+  payloads: AlertWebhookPayload[]
+): Promise<void> {
+  await Promise.all(
+    urls.flatMap((url) =>
+      payloads.map((payload) =>
+        sendWebhook(url, payload).catch((e) =>
+          console.error("Alert webhook failed:", e)
+        )
+      )
+    )
+  );
+}
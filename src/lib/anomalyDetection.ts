@@ -0,0 +1,181 @@
+import { HistoricalLatencyData, LatencyAnomaly, LatencyData } from "@/types";
+
+export interface AnomalyDetectorOptions {
+  // EWMA smoothing factor for the residual mean/variance (0..1)
+  alpha: number;
+  // |z| at or above this flags a point
+  zThreshold: number;
+  // Points scored before flags are raised, while the EWMA settles
+  warmup: number;
+  // Remove hour-of-day and day-of-week effects before scoring
+  seasonal: boolean;
+  // Ignore deviations smaller than this many ms, however unusual
+  minDeviation: number;
+}
+
+export const DEFAULT_ANOMALY_OPTIONS: AnomalyDetectorOptions = {
+  alpha: 0.1,
+  zThreshold: 3,
+  warmup: 12,
+  seasonal: true,
+  minDeviation: 2,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+// Seasonal effects need at least two full days to mean anything
+const MIN_SEASONAL_SPAN_MS = 2 * 24 * HOUR_MS;
+
+type SeasonalBaseline = (timestamp: number) => number;
+
+const mean = (values: number[]) =>
+  values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// Helper: Average of each bucket's deviation from the overall mean
+const bucketEffects = (
+  points: HistoricalLatencyData[],
+  bucketOf: (timestamp: number) => number,
+  overall: number
+) => {
+  const sums = new Map<number, { sum: number; count: number }>();
+  points.forEach((p) => {
+    const key = bucketOf(p.timestamp);
+    const entry = sums.get(key) ?? { sum: 0, count: 0 };
+    entry.sum += p.latency - overall;
+    entry.count += 1;
+    sums.set(key, entry);
+  });
+  const effects = new Map<number, number>();
+  sums.forEach(({ sum, count }, key) => effects.set(key, sum / count));
+  return effects;
+};
+
+/**
+ * Additive seasonal baseline: overall mean + hour-of-day effect + day-of-week
+ * effect, matching the daily/weekly cycles latency follows (and that
+ * generateHistoricalData models). Short series fall back to the plain mean.
+ */
+export const buildSeasonalBaseline = (
+  series: HistoricalLatencyData[]
+): SeasonalBaseline => {
+  if (series.length === 0) return () => 0;
+  const overall = mean(series.map((p) => p.latency));
+  const span = series[series.length - 1].timestamp - series[0].timestamp;
+  if (span < MIN_SEASONAL_SPAN_MS) return () => overall;
+
+  const hourOf = (t: number) => new Date(t).getUTCHours();
+  const dayOf = (t: number) => new Date(t).getUTCDay();
+  const hourly = bucketEffects(series, hourOf, overall);
+  // Day effects are measured after removing the hourly cycle
+  const deseasoned = series.map((p) => ({
+    ...p,
+    latency: p.latency - (hourly.get(hourOf(p.timestamp)) ?? 0),
+  }));
+  const daily = bucketEffects(deseasoned, dayOf, overall);
+
+  return (t) =>
+    overall + (hourly.get(hourOf(t)) ?? 0) + (daily.get(dayOf(t)) ?? 0);
+};
+
+/**
+ * Flag anomalous points in one pair's series. Each point's residual from the
+ * seasonal baseline is scored against an EWMA of earlier residuals, so a pair
+ * that normally sits at 8ms is flagged at 18ms even though that's well within
+ * the static LATENCY_THRESHOLDS.
+ */
+export function detectAnomalies(
+  series: HistoricalLatencyData[],
+  options: Partial<AnomalyDetectorOptions> = {}
+): LatencyAnomaly[] {
+  const opts = { ...DEFAULT_ANOMALY_OPTIONS, ...options };
+  const sorted = [...series].sort((a, b) => a.timestamp - b.timestamp);
+  const baseline: SeasonalBaseline = opts.seasonal
+    ? buildSeasonalBaseline(sorted)
+    : () => 0;
+
+  const anomalies: LatencyAnomaly[] = [];
+  let ewmaMean = 0;
+  let ewmaVar = 0;
+
+  sorted.forEach((point, idx) => {
+    const expectedBase = baseline(point.timestamp);
+    const residual = point.latency - expectedBase;
+    if (idx === 0) {
+      ewmaMean = residual;
+      return;
+    }
+
+    const deviation = residual - ewmaMean;
+    const std = Math.sqrt(ewmaVar);
+    const zScore = std > 0 ? deviation / std : 0;
+    if (
+      idx >= opts.warmup &&
+      Math.abs(zScore) >= opts.zThreshold &&
+      Math.abs(deviation) >= opts.minDeviation
+    ) {
+      anomalies.push({
+        source: point.source,
+        target: point.target,
+        timestamp: point.timestamp,
+        latency: point.latency,
+        expected: expectedBase + ewmaMean,
+        zScore,
+        direction: deviation > 0 ? "spike" : "drop",
+      });
+    }
+
+    // Standard EWMA mean/variance update
+    ewmaMean += opts.alpha * deviation;
+    ewmaVar = (1 - opts.alpha) * (ewmaVar + opts.alpha * deviation ** 2);
+  });
+
+  return anomalies;
+}
+
+// Helper: Directed pair key, matching how LatencyChart selects series
+const seriesKey = (source: string, target: string) => `${source}->${target}`;
+
+const groupByPair = (data: HistoricalLatencyData[]) => {
+  const byPair = new Map<string, HistoricalLatencyData[]>();
+  data.forEach((d) => {
+    const key = seriesKey(d.source, d.target);
+    byPair.set(key, byPair.get(key) ?? []);
+    byPair.get(key)?.push(d);
+  });
+  return byPair;
+};
+
+// Run the detector over every pair in a mixed dataset
+export function detectAnomaliesByPair(
+  data: HistoricalLatencyData[],
+  options: Partial<AnomalyDetectorOptions> = {}
+): LatencyAnomaly[] {
+  return Array.from(groupByPair(data).values()).flatMap((series) =>
+    detectAnomalies(series, options)
+  );
+}
+
+/**
+ * Score the latest sample of each pair against that pair's history, so live
+ * connections can be marked as anomalous right now.
+ */
+export function detectCurrentAnomalies(
+  history: HistoricalLatencyData[],
+  current: LatencyData[],
+  options: Partial<AnomalyDetectorOptions> = {}
+): LatencyAnomaly[] {
+  const byPair = groupByPair(history);
+  return current.flatMap((d) => {
+    const past = (byPair.get(seriesKey(d.source, d.target)) ?? []).filter(
+      (p) => p.timestamp < d.timestamp
+    );
+    const latest: HistoricalLatencyData = {
+      timestamp: d.timestamp,
+      latency: d.latency,
+      source: d.source,
+      target: d.target,
+    };
+    return detectAnomalies([...past, latest], options).filter(
+      (a) => a.timestamp === d.timestamp
+    );
+  });
+}
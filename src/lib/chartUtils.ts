@@ -0,0 +1,98 @@
+import { ChartDataPoint, TimeRange } from "@/types";
+import { computePercentiles } from "@/lib/statistics";
+
+export const TIME_RANGE_MS: Record<TimeRange, number> = {
+  "1h": 60 * 60 * 1000,
+  "24h": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+  "30d": 30 * 24 * 60 * 60 * 1000,
+};
+
+// Preset whose label format suits a custom window of this length
+export const timeRangeForSpan = (spanMs: number): TimeRange =>
+  (Object.keys(TIME_RANGE_MS) as TimeRange[]).find(
+    (range) => spanMs <= TIME_RANGE_MS[range]
+  ) ?? "30d";
+
+export const formatTimestamp = (
+  timestamp: number,
+  range: TimeRange
+): string => {
+  const date = new Date(timestamp);
+
+  switch (range) {
+    case "1h":
+      return date.toLocaleTimeString("en-US", {
+        hour: "2-digit",
+        minute: "2-digit",
+      });
+    case "24h":
+      return date.toLocaleTimeString("en-US", {
+        hour: "2-digit",
+        minute: "2-digit",
+      });
+    case "7d":
+      return date.toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        hour: "2-digit",
+      });
+    case "30d":
+      return date.toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+      });
+    default:
+      return date.toLocaleString();
+  }
+};
+
+export const calculateStats = (data: ChartDataPoint[]) => {
+  if (data.length === 0)
+    return {
+      min: 0,
+      max: 0,
+      avg: 0,
+      p50: 0,
+      p90: 0,
+      p99: 0,
+      trend: "stable" as const,
+    };
+
+  const values = data.map((d) => d.value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const avg = values.reduce((sum, val) => sum + val, 0) / values.length;
+  const { p50, p90 = 0, p99 = 0 } = computePercentiles(values);
+
+  // Calculate trend based on first and last values
+  const firstValue = values[0];
+  const lastValue = values[values.length - 1];
+  const trendThreshold = avg * 0.05; // 5% threshold
+
+  let trend: "up" | "down" | "stable" = "stable";
+  if (lastValue - firstValue > trendThreshold) trend = "up";
+  else if (firstValue - lastValue > trendThreshold) trend = "down";
+
+  return { min, max, avg, p50, p90, p99, trend };
+};
+
+// Helper: Point closest to a timestamp, or undefined when the timestamp lies
+// outside the plotted span (e.g. a playback cursor before the time range)
+export const findNearestPoint = <T extends { timestamp: number }>(
+  points: T[],
+  timestamp: number
+): T | undefined => {
+  if (
+    points.length === 0 ||
+    timestamp < points[0].timestamp ||
+    timestamp > points[points.length - 1].timestamp
+  ) {
+    return undefined;
+  }
+  return points.reduce((best, point) =>
+    Math.abs(point.timestamp - timestamp) < Math.abs(best.timestamp - timestamp)
+      ? point
+      : best
+  );
+};
@@ -0,0 +1,66 @@
+import { LatencyDataSource, LatencyDataSourceId } from "@/types";
+import { createRadarDataSource } from "./radarSource";
+import { createMockDataSource } from "./mockSource";
+import { createReplayDataSource, DEFAULT_REPLAY_URL } from "./replaySource";
+import { createProbeDataSource } from "./probeSource";
+
+export { deriveMetrics, filterHistoricalRange } from "./shared";
+
+export const LATENCY_DATA_SOURCE_IDS: LatencyDataSourceId[] = [
+  "radar",
+  "mock",
+  "replay",
+  "probes",
+];
+
+const DEFAULT_SOURCE_ID: LatencyDataSourceId = "radar";
+
+const isLatencyDataSourceId = (
+  value: string | null | undefined
+): value is LatencyDataSourceId =>
+  !!value && (LATENCY_DATA_SOURCE_IDS as string[]).includes(value);
+
+/**
+ * Pick the data source to use. Precedence: `?source=` query string,
+ * then NEXT_PUBLIC_LATENCY_SOURCE, then Cloudflare Radar.
+ */
+export const resolveLatencyDataSourceId = (
+  search?: string
+): LatencyDataSourceId => {
+  const query =
+    search ?? (typeof window !== "undefined" ? window.location.search : "");
+  const fromQuery = new URLSearchParams(query).get("source");
+  if (isLatencyDataSourceId(fromQuery)) return fromQuery;
+
+  const fromEnv = process.env.NEXT_PUBLIC_LATENCY_SOURCE;
+  if (isLatencyDataSourceId(fromEnv)) return fromEnv;
+
+  return DEFAULT_SOURCE_ID;
+};
+
+// Replay file location: `?replay=` query string, then NEXT_PUBLIC_LATENCY_REPLAY_URL
+const resolveReplayUrl = (): string => {
+  if (typeof window !== "undefined") {
+    const fromQuery = new URLSearchParams(window.location.search).get(
+      "replay"
+    );
+    if (fromQuery) return fromQuery;
+  }
+  return process.env.NEXT_PUBLIC_LATENCY_REPLAY_URL || DEFAULT_REPLAY_URL;
+};
+
+export const createLatencyDataSource = (
+  id: LatencyDataSourceId = resolveLatencyDataSourceId()
+): LatencyDataSource => {
+  switch (id) {
+    case "mock":
+      return createMockDataSource();
+    case "replay":
+      return createReplayDataSource(resolveReplayUrl());
+    case "probes":
+      return createProbeDataSource();
+    case "radar":
+    default:
+      return createRadarDataSource();
+  }
+};
@@ -0,0 +1,33 @@
+import {
+  HistoricalRange,
+  LatencyDataSource,
+  LatencyHistoryQuery,
+} from "@/types";
+import { fetchAggregatedHistory, fetchStoredHistory } from "./shared";
+
+// Helper: Call the mock latency API and unwrap its { success, data } envelope
+async function fetchMockApi<T>(query: string): Promise<T> {
+  const res = await fetch(`/api/latency?${query}`);
+  if (!res.ok) throw new Error(`Mock API error: ${res.status}`);
+  const json = await res.json();
+  if (!json.success) throw new Error(json.error || "Mock API error");
+  return json.data as T;
+}
+
+// Offline demo data generated by /api/latency (see lib/mockApi.ts)
+export const createMockDataSource = (): LatencyDataSource => ({
+  metadata: {
+    id: "mock",
+    name: "Mock Data",
+    description: "Simulated exchange-to-exchange latency for offline demos",
+    isLive: false,
+    streamUrl: "/api/latency/stream?source=mock",
+  },
+  fetchCurrent: () => fetchMockApi("type=current"),
+  // Served from the time-series store (seeded with generated history)
+  fetchHistorical: (range?: HistoricalRange) =>
+    fetchStoredHistory("mock", range),
+  fetchHistory: (query: LatencyHistoryQuery) =>
+    fetchAggregatedHistory("mock", query),
+  fetchMetrics: () => fetchMockApi("type=metrics"),
+});
@@ -0,0 +1,36 @@
+import {
+  HistoricalRange,
+  LatencyDataSource,
+  LatencyHistoryQuery,
+} from "@/types";
+import {
+  deriveMetrics,
+  fetchAggregatedHistory,
+  fetchStoredHistory,
+} from "./shared";
+
+// Helper: Call the probe API and unwrap its { success, data } envelope
+async function fetchProbeApi<T>(query: string): Promise<T> {
+  const res = await fetch(`/api/probes?${query}`);
+  if (!res.ok) throw new Error(`Probe API error: ${res.status}`);
+  const json = await res.json();
+  if (!json.success) throw new Error(json.error || "Probe API error");
+  return json.data as T;
+}
+
+// Measured exchange-to-exchange RTTs from the server-side probe subsystem
+export const createProbeDataSource = (): LatencyDataSource => ({
+  metadata: {
+    id: "probes",
+    name: "Latency Probes",
+    description: "TCP connect / HTTP HEAD timings measured against each venue",
+    isLive: true,
+    streamUrl: "/api/latency/stream?source=probes",
+  },
+  fetchCurrent: () => fetchProbeApi("type=current"),
+  fetchHistorical: (range?: HistoricalRange) =>
+    fetchStoredHistory("probes", range),
+  fetchHistory: (query: LatencyHistoryQuery) =>
+    fetchAggregatedHistory("probes", query),
+  fetchMetrics: async (latencyData, nodes) => deriveMetrics(latencyData, nodes),
+});
@@ -0,0 +1,167 @@
+import {
+  HistoricalLatencyData,
+  HistoricalRange,
+  LatencyData,
+  LatencyDataSource,
+  LatencyHistoryQuery,
+  RadarLocation,
+  RadarLocationRegistry,
+} from "@/types";
+import { parseRadarQuality } from "@/lib/radar/quality";
+import { parseRadarSeries } from "@/lib/radar/series";
+import {
+  deriveMetrics,
+  fetchAggregatedHistory,
+  fetchStoredHistory,
+  filterHistoricalRange,
+} from "./shared";
+
+// Shared so the location registry is fetched once per page load
+let registryRequest: Promise<RadarLocationRegistry> | null = null;
+// Countries looked up outside the registry, by code. Failed lookups are kept
+// (as null) too, so a code is only requested, and reported, once.
+const locationRequests = new Map<string, Promise<RadarLocation | null>>();
+
+/**
+ * The monitored countries and their metadata from /api/radar/location.
+ * Pass `force` after changing the set to bypass the cached request.
+ */
+export function fetchRadarLocations(
+  force = false
+): Promise<RadarLocationRegistry> {
+  if (force) locationRequests.clear();
+  if (!registryRequest || force) {
+    registryRequest = fetch("/api/radar/location")
+      .then((res) => res.json())
+      .then((json) => {
+        if (!json.success) throw new Error(json.error || "Location API error");
+        return json.data as RadarLocationRegistry;
+      })
+      .catch((e) => {
+        registryRequest = null;
+        throw e;
+      });
+  }
+  return registryRequest;
+}
+
+// Helper: Look up one country through the API
+async function loadRadarLocation(code: string): Promise<RadarLocation> {
+  const res = await fetch(`/api/radar/location?code=${code}`);
+  const json = await res.json();
+  if (!json.success) {
+    throw new Error(json.error || `Failed to fetch location ${code}`);
+  }
+  return json.data as RadarLocation;
+}
+
+/**
+ * Metadata for a country outside the registry (the server adds it there),
+ * or null when it can't be resolved. Each code is looked up once per page
+ * load, or again after the registry is refetched with `force`.
+ */
+export function fetchRadarLocation(
+  code: string
+): Promise<RadarLocation | null> {
+  let request = locationRequests.get(code);
+  if (!request) {
+    request = loadRadarLocation(code).catch((e) => {
+      console.error(
+        `Failed to resolve Radar location ${code}:`,
+        e instanceof Error ? e.message : e
+      );
+      return null;
+    });
+    locationRequests.set(code, request);
+  }
+  return request;
+}
+
+// Helper: Fetch Cloudflare Radar latency/quality data for a location (via local API proxy)
+async function fetchRadarQualityForLocation(
+  locationCode: string,
+  timestamp: number
+): Promise<LatencyData> {
+  const url = `/api/radar/latency?type=realtime&location=${locationCode}`;
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Radar API error for ${locationCode}`);
+  const json = await res.json();
+  if (!json.success) throw new Error("Malformed Radar API response");
+  return parseRadarQuality(json.data, locationCode, timestamp);
+}
+
+// Helper: Fetch and aggregate latency data for all locations
+async function fetchAllRadarLatencyData(): Promise<LatencyData[]> {
+  const now = Date.now();
+  const { monitored } = await fetchRadarLocations();
+  const results = await Promise.all(
+    monitored.map(async (code) => {
+      try {
+        return await fetchRadarQualityForLocation(code, now);
+      } catch {
+        // If one location fails, skip it
+        return null;
+      }
+    })
+  );
+  return results.filter(Boolean) as LatencyData[];
+}
+
+// Helper: Fetch historical latency time series for a location (via local API proxy)
+async function fetchRadarHistoricalForLocation(
+  locationCode: string
+): Promise<HistoricalLatencyData[]> {
+  const url = `/api/radar/latency?type=historical&location=${locationCode}`;
+  const res = await fetch(url);
+  if (!res.ok)
+    throw new Error(`Radar historical API error for ${locationCode}`);
+  const json = await res.json();
+  if (!json.success) throw new Error("Malformed Radar historical API response");
+  return parseRadarSeries(json.data, locationCode);
+}
+
+// Helper: Fetch and aggregate historical latency data for all locations
+async function fetchRadarHistoricalData(): Promise<HistoricalLatencyData[]> {
+  const { monitored } = await fetchRadarLocations();
+  const results = await Promise.all(
+    monitored.map(async (code) => {
+      try {
+        return await fetchRadarHistoricalForLocation(code);
+      } catch {
+        // If one location fails, skip it
+        return [];
+      }
+    })
+  );
+  // Flatten the array of arrays
+  return results.flat();
+}
+
+// Live Cloudflare Radar feed, proxied through /api/radar/latency. Updates are
+// pushed from the server, which polls Radar behind the proxy cache and records
+// each snapshot. Radar only measures each country to Cloudflare, so this is a
+// star topology; use the probes source for measured exchange-to-exchange RTTs.
+export const createRadarDataSource = (): LatencyDataSource => ({
+  metadata: {
+    id: "radar",
+    name: "Cloudflare Radar",
+    description: "Live Internet quality data per country via Cloudflare Radar",
+    isLive: true,
+    streamUrl: "/api/latency/stream?source=radar",
+  },
+  fetchCurrent: fetchAllRadarLatencyData,
+  // Radar's daily series plus our own recorded snapshots in between
+  fetchHistorical: async (range?: HistoricalRange) => {
+    const [radar, stored] = await Promise.all([
+      fetchRadarHistoricalData(),
+      fetchStoredHistory("radar", range).catch(() => []),
+    ]);
+    return filterHistoricalRange([...radar, ...stored], range).sort(
+      (a, b) => a.timestamp - b.timestamp
+    );
+  },
+  // The history API merges in Radar's daily series server-side
+  fetchHistory: (query: LatencyHistoryQuery) =>
+    fetchAggregatedHistory("radar", query),
+  fetchMetrics: async (latencyData, nodes) => deriveMetrics(latencyData, nodes),
+});
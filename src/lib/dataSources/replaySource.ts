@@ -0,0 +1,93 @@
+import {
+  HistoricalLatencyData,
+  HistoricalRange,
+  LatencyData,
+  LatencyDataSource,
+  LatencyHistoryQuery,
+} from "@/types";
+import { aggregateHistory } from "@/lib/timeseries/history";
+import { deriveMetrics, filterHistoricalRange } from "./shared";
+
+export const DEFAULT_REPLAY_URL = "/replays/sample.json";
+
+interface ReplaySnapshot {
+  timestamp: number;
+  data: LatencyData[];
+}
+
+interface ReplayFile {
+  name?: string;
+  snapshots: ReplaySnapshot[];
+  historical?: HistoricalLatencyData[];
+}
+
+// Helper: Load and validate a replay file
+async function loadReplayFile(url: string): Promise<ReplayFile> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Failed to load replay file ${url}`);
+  const json = await res.json();
+  if (!json || !Array.isArray(json.snapshots) || json.snapshots.length === 0)
+    throw new Error("Malformed replay file: no snapshots");
+  return json as ReplayFile;
+}
+
+// Helper: Flatten snapshots into a history when the file doesn't provide one
+function historyFromSnapshots(
+  snapshots: ReplaySnapshot[]
+): HistoricalLatencyData[] {
+  return snapshots.flatMap((snapshot) =>
+    snapshot.data.map((d) => ({
+      timestamp: snapshot.timestamp,
+      latency: d.latency,
+      source: d.source,
+      target: d.target,
+    }))
+  );
+}
+
+// Replays recorded snapshots from a JSON file, advancing one snapshot per fetch
+export const createReplayDataSource = (
+  url: string = DEFAULT_REPLAY_URL
+): LatencyDataSource => {
+  let filePromise: Promise<ReplayFile> | null = null;
+  let cursor = 0;
+
+  const getFile = () => {
+    if (!filePromise) {
+      filePromise = loadReplayFile(url).catch((e) => {
+        // Allow a retry on the next fetch
+        filePromise = null;
+        throw e;
+      });
+    }
+    return filePromise;
+  };
+
+  return {
+    metadata: {
+      id: "replay",
+      name: "File Replay",
+      description: `Recorded snapshots replayed from ${url}`,
+      isLive: false,
+    },
+    fetchCurrent: async () => {
+      const { snapshots } = await getFile();
+      const snapshot = snapshots[cursor % snapshots.length];
+      cursor++;
+      return snapshot.data;
+    },
+    fetchHistorical: async (range?: HistoricalRange) => {
+      const file = await getFile();
+      const history = file.historical ?? historyFromSnapshots(file.snapshots);
+      return filterHistoricalRange(history, range);
+    },
+    // The file only exists client-side, so it is aggregated here
+    fetchHistory: async (query: LatencyHistoryQuery) => {
+      const file = await getFile();
+      const history = file.historical ?? historyFromSnapshots(file.snapshots);
+      return aggregateHistory(history, query);
+    },
+    fetchMetrics: async (latencyData, nodes) =>
+      deriveMetrics(latencyData, nodes),
+  };
+};
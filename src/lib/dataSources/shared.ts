@@ -0,0 +1,80 @@
+import {
+  LatencyDataSourceId,
+  HistoricalLatencyData,
+  HistoricalRange,
+  LatencyData,
+  LatencyHistory,
+  LatencyHistoryBucket,
+  LatencyHistoryQuery,
+  MetricsData,
+  NetworkNode,
+} from "@/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Derive dashboard metrics from a latency snapshot and the known nodes
+export const deriveMetrics = (
+  latencyData: LatencyData[],
+  nodes: NetworkNode[]
+): MetricsData => {
+  const onlineCount = nodes.filter((n) => n.status === "online").length;
+  const uptime = nodes.length > 0 ? (onlineCount / nodes.length) * 100 : 0;
+  const averageLatency = latencyData.length
+    ? latencyData.reduce((sum, d) => sum + d.latency, 0) / latencyData.length
+    : 0;
+
+  return {
+    totalExchanges: latencyData.length,
+    activeConnections: latencyData.length,
+    averageLatency,
+    uptime,
+    lastUpdated: Date.now(),
+  };
+};
+
+// Keep only historical points inside the requested range (open ends allowed)
+export const filterHistoricalRange = (
+  data: HistoricalLatencyData[],
+  range?: HistoricalRange
+): HistoricalLatencyData[] => {
+  if (!range) return data;
+  const from = range.from ?? -Infinity;
+  const to = range.to ?? Infinity;
+  return data.filter((d) => d.timestamp >= from && d.timestamp <= to);
+};
+
+// Read snapshots recorded for a feed from the time-series store
+export async function fetchStoredHistory(
+  feed: LatencyDataSourceId,
+  range?: HistoricalRange
+): Promise<HistoricalLatencyData[]> {
+  const params = new URLSearchParams({ type: "historical", feed });
+  params.set("from", String(range?.from ?? Date.now() - 30 * DAY_MS));
+  if (range?.to !== undefined) params.set("to", String(range.to));
+  const res = await fetch(`/api/latency?${params}`);
+  if (!res.ok) throw new Error(`History API error: ${res.status}`);
+  const json = await res.json();
+  if (!json.success) throw new Error(json.error || "History API error");
+  return json.data as HistoricalLatencyData[];
+}
+
+// Bucketed history for a pair, aggregated server-side from the feed's store
+export async function fetchAggregatedHistory(
+  feed: LatencyDataSourceId,
+  query: LatencyHistoryQuery
+): Promise<LatencyHistory> {
+  const params = new URLSearchParams({
+    type: "buckets",
+    feed,
+    from: String(query.from),
+    to: String(query.to),
+    bucket: query.bucket,
+  });
+  if (query.source) params.set("source", query.source);
+  if (query.target) params.set("target", query.target);
+  const res = await fetch(`/api/latency?${params}`);
+  if (!res.ok) throw new Error(`History API error: ${res.status}`);
+  const json = await res.json();
+  if (!json.success) throw new Error(json.error || "History API error");
+  return { ...query, buckets: json.data as LatencyHistoryBucket[] };
+}
@@ -0,0 +1,156 @@
+import {
+  ExchangeIncident,
+  ExchangeLocation,
+  ExchangeStatusSegment,
+  HistoricalLatencyData,
+  LatencyConnection,
+  NearbyExchange,
+  NetworkNode,
+} from "@/types";
+import { getDistance } from "@/lib/mockApi";
+
+// Sparkline resolution per peer
+const SPARKLINE_POINTS = 40;
+
+type SparklinePoint = { timestamp: number; latency: number };
+type Bucket = { sum: number; count: number };
+
+// Helper: The other end of a connection, from one venue's point of view
+const peerOf = (connection: LatencyConnection, exchangeId: string) =>
+  connection.source.id === exchangeId ? connection.target : connection.source;
+
+// Every connection touching a venue, fastest first
+export const rankExchangeConnections = (
+  exchangeId: string,
+  connections: LatencyConnection[]
+): { peer: NetworkNode; connection: LatencyConnection }[] =>
+  connections
+    .filter((c) => c.source.id === exchangeId || c.target.id === exchangeId)
+    .sort((a, b) => a.latency - b.latency)
+    .map((connection) => ({
+      peer: peerOf(connection, exchangeId),
+      connection,
+    }));
+
+// Closest venues to any node by great-circle distance, with live latency
+// where measured
+export const findNearestExchanges = (
+  exchange: NetworkNode,
+  nodes: NetworkNode[],
+  connections: LatencyConnection[],
+  limit: number = 5
+): NearbyExchange[] => {
+  const latencyByPeer = new Map(
+    rankExchangeConnections(exchange.id, connections).map(
+      ({ peer, connection }) => [peer.id, connection.latency]
+    )
+  );
+  return nodes
+    .filter(
+      (e): e is ExchangeLocation =>
+        e.kind === "exchange" && e.id !== exchange.id
+    )
+    .map((e) => ({
+      exchange: e,
+      distanceKm: getDistance(
+        exchange.coordinates.latitude,
+        exchange.coordinates.longitude,
+        e.coordinates.latitude,
+        e.coordinates.longitude
+      ),
+      latency: latencyByPeer.get(e.id),
+    }))
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+    .slice(0, limit);
+};
+
+/**
+ * Per-peer latency history for one venue since `from`, in either direction,
+ * averaged down to at most SPARKLINE_POINTS buckets per peer.
+ */
+export const buildPeerSparklines = (
+  exchangeId: string,
+  history: HistoricalLatencyData[],
+  from: number,
+  to: number
+): Map<string, SparklinePoint[]> => {
+  const bucketMs = Math.max((to - from) / SPARKLINE_POINTS, 1);
+  const buckets = new Map<string, Map<number, Bucket>>();
+  history.forEach((d) => {
+    if (d.timestamp < from || d.timestamp > to) return;
+    if (d.source !== exchangeId && d.target !== exchangeId) return;
+    const peer = d.source === exchangeId ? d.target : d.source;
+    const peerBuckets = buckets.get(peer) ?? new Map<number, Bucket>();
+    const start = Math.floor((d.timestamp - from) / bucketMs);
+    const bucket = peerBuckets.get(start) ?? { sum: 0, count: 0 };
+    bucket.sum += d.latency;
+    bucket.count++;
+    peerBuckets.set(start, bucket);
+    buckets.set(peer, peerBuckets);
+  });
+
+  const sparklines = new Map<string, SparklinePoint[]>();
+  buckets.forEach((peerBuckets, peer) => {
+    sparklines.set(
+      peer,
+      Array.from(peerBuckets.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([start, b]) => ({
+          timestamp: from + start * bucketMs,
+          latency: b.sum / b.count,
+        }))
+    );
+  });
+  return sparklines;
+};
+
+/**
+ * Status timeline over [from, to] in equal slots. A slot overlapping a
+ * status page outage or maintenance window takes that status; otherwise it
+ * is online when the venue reported measurements in it and unknown if not.
+ * The latest slot takes the venue's current status. Adjacent slots with the
+ * same status are merged.
+ */
+export const buildStatusTimeline = (
+  exchange: NetworkNode,
+  history: HistoricalLatencyData[],
+  from: number,
+  to: number,
+  slots: number = 48,
+  incidents: ExchangeIncident[] = []
+): ExchangeStatusSegment[] => {
+  const slotMs = Math.max((to - from) / slots, 1);
+  const measured = new Set<number>();
+  history.forEach((d) => {
+    if (d.timestamp < from || d.timestamp > to) return;
+    if (d.source !== exchange.id && d.target !== exchange.id) return;
+    const slot = Math.floor((d.timestamp - from) / slotMs);
+    measured.add(Math.min(slot, slots - 1));
+  });
+
+  const disruptions = incidents.filter(
+    (i) => i.exchangeId === exchange.id && i.status !== "online"
+  );
+  // Helper: Worst disruption overlapping a slot (outages beat maintenance)
+  const disruptionAt = (start: number, end: number) => {
+    const overlapping = disruptions.filter(
+      (i) => i.startedAt < end && (i.resolvedAt ?? Infinity) > start
+    );
+    if (overlapping.some((i) => i.status === "offline")) return "offline";
+    return overlapping.length > 0 ? "maintenance" : null;
+  };
+
+  const segments: ExchangeStatusSegment[] = [];
+  for (let slot = 0; slot < slots; slot++) {
+    const start = from + slot * slotMs;
+    const status: ExchangeStatusSegment["status"] =
+      slot === slots - 1
+        ? exchange.status
+        : disruptionAt(start, start + slotMs) ??
+          (measured.has(slot) ? "online" : "unknown");
+    const last = segments[segments.length - 1];
+    if (last && last.status === status) last.to = start + slotMs;
+    else segments.push({ from: start, to: start + slotMs, status });
+  }
+  return segments;
+};
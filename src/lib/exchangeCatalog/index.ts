@@ -0,0 +1,31 @@
+import { ExchangeCatalogState, ExchangeLocation } from "@/types";
+import { updateExchangeCatalog } from "./store";
+
+export {
+  getExchangeCatalogSnapshot,
+  loadExchangeCatalog,
+  loadExchangeCatalogState,
+} from "./store";
+export {
+  normalizeExchangeLocation,
+  validateExchangeCatalog,
+  validateExchangeLocation,
+} from "./validation";
+
+// Create or replace an exchange by id
+export const saveExchange = (
+  exchange: ExchangeLocation
+): Promise<ExchangeCatalogState> =>
+  updateExchangeCatalog((current) =>
+    current.some((e) => e.id === exchange.id)
+      ? current.map((e) => (e.id === exchange.id ? exchange : e))
+      : [...current, exchange]
+  );
+
+export const deleteExchange = (id: string): Promise<ExchangeCatalogState> =>
+  updateExchangeCatalog((current) => current.filter((e) => e.id !== id));
+
+// Swap in a whole new venue list
+export const replaceExchangeCatalog = (
+  exchanges: ExchangeLocation[]
+): Promise<ExchangeCatalogState> => updateExchangeCatalog(() => exchanges);
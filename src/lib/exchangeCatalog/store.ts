@@ -0,0 +1,125 @@
+import { readFile, stat } from "fs/promises";
+import path from "path";
+import YAML from "yaml";
+import { ExchangeCatalogState, ExchangeLocation } from "@/types";
+import { EXCHANGE_LOCATIONS } from "@/constants/exchangeLocations";
+import { createUpdateQueue, writeFileAtomic } from "@/lib/jsonFileStore";
+import { processState } from "@/lib/processState";
+import {
+  normalizeExchangeLocation,
+  validateExchangeCatalog,
+} from "./validation";
+
+// The catalog lives in one JSON or YAML file; until it exists the built-in
+// venues are served
+const catalogPath = () =>
+  process.env.EXCHANGE_CATALOG_PATH ||
+  path.join(process.cwd(), ".data", "exchanges.json");
+
+const isYaml = (file: string) => /\.ya?ml$/i.test(file);
+
+// Files may hold a bare list or { exchanges: [...] }
+const parseCatalog = (text: string, file: string): ExchangeLocation[] => {
+  const raw = isYaml(file) ? YAML.parse(text) : JSON.parse(text);
+  const list = Array.isArray(raw) ? raw : raw?.exchanges;
+  return Array.isArray(list) ? list.map(normalizeExchangeLocation) : list;
+};
+
+const serializeCatalog = (exchanges: ExchangeLocation[], file: string) =>
+  isYaml(file)
+    ? YAML.stringify({ exchanges })
+    : JSON.stringify({ exchanges }, null, 2);
+
+const catalog = processState("exchangeCatalog", () => ({
+  state: null as ExchangeCatalogState | null,
+  loadedMtime: 0,
+  enqueue: createUpdateQueue(),
+}));
+
+const defaultState = (file: string, error?: string): ExchangeCatalogState => ({
+  exchanges: EXCHANGE_LOCATIONS,
+  source: "default",
+  path: file,
+  error,
+});
+
+/**
+ * Load the exchange catalog, re-reading the file whenever it changes on
+ * disk so edits show up without a restart. An unreadable or invalid file
+ * falls back to the built-in venues and reports why in `error`.
+ */
+export async function loadExchangeCatalogState(): Promise<ExchangeCatalogState> {
+  const file = catalogPath();
+  let mtime: number;
+  try {
+    mtime = (await stat(file)).mtimeMs;
+  } catch {
+    catalog.state = defaultState(file);
+    catalog.loadedMtime = 0;
+    return catalog.state;
+  }
+  const loaded = catalog.state;
+  if (loaded && loaded.path === file && mtime === catalog.loadedMtime) {
+    return loaded;
+  }
+
+  let state: ExchangeCatalogState;
+  try {
+    const exchanges = parseCatalog(await readFile(file, "utf8"), file);
+    const invalid = validateExchangeCatalog(exchanges);
+    state = invalid
+      ? defaultState(file, invalid)
+      : { exchanges, source: "file", path: file };
+  } catch (e) {
+    state = defaultState(
+      file,
+      `Failed to parse catalog: ${e instanceof Error ? e.message : String(e)}`
+    );
+  }
+  if (state.error) {
+    console.error(`Invalid exchange catalog at ${file}: ${state.error}`);
+  }
+  catalog.state = state;
+  catalog.loadedMtime = mtime;
+  return state;
+}
+
+export const loadExchangeCatalog = async (): Promise<ExchangeLocation[]> =>
+  (await loadExchangeCatalogState()).exchanges;
+
+// Last loaded catalog, for synchronous lookups (built-ins before first load)
+export const getExchangeCatalogSnapshot = (): ExchangeLocation[] =>
+  catalog.state?.exchanges ?? EXCHANGE_LOCATIONS;
+
+/**
+ * Apply a change to the catalog and write it back in the file's format.
+ * Throws with the validation message when the result would be invalid, and
+ * refuses to write over a catalog file that failed to load (the change would
+ * apply to the built-in venues and discard the file).
+ */
+export function updateExchangeCatalog(
+  update: (current: ExchangeLocation[]) => ExchangeLocation[]
+): Promise<ExchangeCatalogState> {
+  return catalog.enqueue(async () => {
+    const current = await loadExchangeCatalogState();
+    if (current.error) {
+      throw new Error(
+        `Catalog file ${current.path} is invalid: ${current.error}`
+      );
+    }
+    const exchanges = update(current.exchanges).map(normalizeExchangeLocation);
+    const invalid = validateExchangeCatalog(exchanges);
+    if (invalid) throw new Error(invalid);
+
+    const file = catalogPath();
+    await writeFileAtomic(file, serializeCatalog(exchanges, file));
+    const state: ExchangeCatalogState = {
+      exchanges,
+      source: "file",
+      path: file,
+    };
+    catalog.loadedMtime = (await stat(file)).mtimeMs;
+    catalog.state = state;
+    return state;
+  });
+}
@@ -0,0 +1,89 @@
+import { ExchangeLocation } from "@/types";
+
+const PROVIDERS: ExchangeLocation["cloudProvider"][] = ["AWS", "GCP", "Azure"];
+const STATUSES: ExchangeLocation["status"][] = [
+  "online",
+  "offline",
+  "maintenance",
+];
+// Ids end up in URLs, pair keys and store records
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const DEFAULT_ALTITUDE = 0.02;
+
+const isNumberIn = (value: unknown, min: number, max: number) =>
+  typeof value === "number" && isFinite(value) && value >= min && value <= max;
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+// Fill in the optional fields catalog files may leave out
+export const normalizeExchangeLocation = (
+  exchange: ExchangeLocation
+): ExchangeLocation =>
+  exchange && typeof exchange === "object"
+    ? {
+        ...exchange,
+        kind: exchange.kind ?? "exchange",
+        coordinates: exchange.coordinates && {
+          ...exchange.coordinates,
+          altitude: exchange.coordinates.altitude ?? DEFAULT_ALTITUDE,
+        },
+        status: exchange.status ?? "online",
+      }
+    : exchange;
+
+// Returns an error message for an invalid exchange, or null when it's valid
+export function validateExchangeLocation(
+  exchange: ExchangeLocation
+): string | null {
+  if (!exchange || typeof exchange !== "object")
+    return "Exchange must be an object";
+  if (exchange.kind !== "exchange")
+    return "Catalog entries must be of kind exchange";
+  if (typeof exchange.id !== "string" || !ID_PATTERN.test(exchange.id))
+    return "Exchange id must be lowercase letters, digits and dashes";
+  if (!isNonEmptyString(exchange.name)) return "Exchange name is required";
+  if (!isNonEmptyString(exchange.displayName))
+    return "Exchange displayName is required";
+  const coordinates = exchange.coordinates;
+  if (!coordinates || typeof coordinates !== "object")
+    return "Coordinates must be an object";
+  if (!isNumberIn(coordinates.latitude, -90, 90))
+    return "Latitude must be a number between -90 and 90";
+  if (!isNumberIn(coordinates.longitude, -180, 180))
+    return "Longitude must be a number between -180 and 180";
+  if (!isNumberIn(coordinates.altitude, 0, 1))
+    return "Altitude must be a number between 0 and 1";
+  if (!PROVIDERS.includes(exchange.cloudProvider))
+    return `Cloud provider must be one of ${PROVIDERS.join(", ")}`;
+  if (!isNonEmptyString(exchange.region)) return "Region is required";
+  if (!isNonEmptyString(exchange.regionCode)) return "Region code is required";
+  if (!Number.isInteger(exchange.serverCount) || exchange.serverCount < 0)
+    return "Server count must be a non-negative integer";
+  if (!STATUSES.includes(exchange.status))
+    return `Status must be one of ${STATUSES.join(", ")}`;
+  if (
+    exchange.description !== undefined &&
+    typeof exchange.description !== "string"
+  )
+    return "Description must be a string";
+  return null;
+}
+
+// Validate a whole catalog: every entry plus unique ids
+export function validateExchangeCatalog(
+  exchanges: ExchangeLocation[]
+): string | null {
+  if (!Array.isArray(exchanges)) return "Catalog must be a list of exchanges";
+  const seen = new Set<string>();
+  for (let i = 0; i < exchanges.length; i++) {
+    const invalid = validateExchangeLocation(exchanges[i]);
+    const label = `Exchange #${i + 1}${
+      typeof exchanges[i]?.id === "string" ? ` (${exchanges[i].id})` : ""
+    }`;
+    if (invalid) return `${label}: ${invalid}`;
+    if (seen.has(exchanges[i].id)) return `${label}: duplicate id`;
+    seen.add(exchanges[i].id);
+  }
+  return null;
+}
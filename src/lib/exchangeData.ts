@@ -1,14 +1,30 @@
-import { ExchangeLocation, LatencyConnection, LatencyData } from "@/types";
-import { EXCHANGE_LOCATIONS } from "@/constants/exchangeLocations";
+import {
+  CloudProvider,
+  CloudRegion,
+  CloudRegionCluster,
+  CloudRegionNode,
+  ExchangeLocation,
+  LatencyConnection,
+  LatencyData,
+  NetworkNode,
+} from "@/types";
+import {
+  EXCHANGE_LOCATIONS,
+  LATENCY_THRESHOLDS,
+  NODE_KIND_COLORS,
+  PROVIDER_COLORS,
+} from "@/constants/exchangeLocations";
 
+// Connect the nodes at either end of each measurement, whatever their kind
 export const createLatencyConnections = (
-  exchanges: ExchangeLocation[],
+  nodes: NetworkNode[],
   latencyData: LatencyData[]
 ): LatencyConnection[] => {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
   return latencyData
-    .map((data) => {
-      const source = exchanges.find((e) => e.id === data.source);
-      const target = exchanges.find((e) => e.id === data.target);
+    .map((data): LatencyConnection | undefined => {
+      const source = byId.get(data.source);
+      const target = byId.get(data.target);
       if (!source || !target) return undefined;
       return {
         id: data.id,
@@ -16,6 +32,9 @@ export const createLatencyConnections = (
         target,
         latency: data.latency,
         quality: data.quality,
+        percentiles: data.percentiles,
+        packetLoss: data.packetLoss,
+        jitter: data.jitter,
         isActive: Math.random() > 0.1, // 90% of connections are active
         animationProgress: Math.random(), // Random starting animation position
       };
@@ -23,22 +42,82 @@ export const createLatencyConnections = (
     .filter((conn): conn is LatencyConnection => !!conn);
 };
 
-export const filterExchangesByProvider = (
-  exchanges: ExchangeLocation[],
+// A catalogued cloud region as a latency endpoint
+export const toCloudRegionNode = (region: CloudRegion): CloudRegionNode => ({
+  kind: "cloud-region",
+  id: region.id,
+  name: region.code,
+  displayName: `${region.provider} ${region.name}`,
+  coordinates: { ...region.coordinates, altitude: 0 },
+  status: "online",
+  cloudProvider: region.provider,
+  region: region.name,
+  regionCode: region.code,
+});
+
+// The cloud provider hosting a node; Internet regions and PoPs have none
+export const getNodeProvider = (
+  node: NetworkNode
+): CloudProvider | undefined =>
+  node.kind === "exchange" || node.kind === "cloud-region"
+    ? node.cloudProvider
+    : undefined;
+
+// Provider filters apply to hosted nodes and keep the others
+export const matchesProviders = (
+  node: NetworkNode,
   providers: string[]
-): ExchangeLocation[] => {
-  if (providers.length === 0) return exchanges;
-  return exchanges.filter((exchange) =>
-    providers.includes(exchange.cloudProvider)
-  );
+): boolean => {
+  const provider = getNodeProvider(node);
+  return providers.length === 0 || !provider || providers.includes(provider);
 };
 
-export const filterExchangesByName = (
-  exchanges: ExchangeLocation[],
+// Exchange filters pick venues by name and keep nodes that aren't venues
+export const matchesExchangeNames = (
+  node: NetworkNode,
   names: string[]
-): ExchangeLocation[] => {
-  if (names.length === 0) return exchanges;
-  return exchanges.filter((exchange) => names.includes(exchange.name));
+): boolean =>
+  names.length === 0 || node.kind !== "exchange" || names.includes(node.name);
+
+export const filterExchangesByProvider = <T extends NetworkNode>(
+  nodes: T[],
+  providers: string[]
+): T[] => {
+  if (providers.length === 0) return nodes;
+  return nodes.filter((node) => matchesProviders(node, providers));
+};
+
+export const filterExchangesByName = <T extends NetworkNode>(
+  nodes: T[],
+  names: string[]
+): T[] => {
+  if (names.length === 0) return nodes;
+  return nodes.filter((node) => matchesExchangeNames(node, names));
+};
+
+// Marker color: the hosting provider's, otherwise the node kind's
+export const getNodeColor = (node: NetworkNode): string => {
+  switch (node.kind) {
+    case "exchange":
+    case "cloud-region":
+      return PROVIDER_COLORS[node.cloudProvider];
+    default:
+      return NODE_KIND_COLORS[node.kind];
+  }
+};
+
+// One line on where a node is, e.g. "AWS • US East (Virginia)"
+export const describeNode = (node: NetworkNode): string => {
+  switch (node.kind) {
+    case "exchange":
+      return `${node.cloudProvider} • ${node.region}`;
+    case "cloud-region":
+      return `${node.cloudProvider} region • ${node.region}`;
+    case "internet-region":
+      return `Internet region • ${node.country}`;
+    case "pop":
+      return [`${node.network} PoP`, node.city].filter(Boolean).join(" • ");
+  }
 };
 
 export const getExchangeById = (id: string): ExchangeLocation | undefined => {
@@ -60,3 +139,42 @@ export const calculateAverageLatency = (
   const total = connections.reduce((sum, conn) => sum + conn.latency, 0);
   return total / connections.length;
 };
+
+// Group exchanges under the cloud region (provider + region code) hosting
+// them. Average latency covers every connection touching a hosted exchange
+// or the region's own node; regions without live connections keep their
+// catalogue figure.
+export const buildRegionClusters = (
+  regions: CloudRegion[],
+  nodes: NetworkNode[],
+  connections: LatencyConnection[]
+): CloudRegionCluster[] =>
+  regions.map((region) => {
+    const hosted = nodes.filter(
+      (n): n is ExchangeLocation =>
+        n.kind === "exchange" &&
+        n.cloudProvider === region.provider &&
+        n.regionCode === region.code
+    );
+    const ids = new Set([region.id, ...hosted.map((e) => e.id)]);
+    const regionConnections = connections.filter(
+      (c) => ids.has(c.source.id) || ids.has(c.target.id)
+    );
+    return {
+      ...region,
+      exchanges: hosted,
+      connections: regionConnections,
+      exchangeCount: hosted.length,
+      averageLatency:
+        regionConnections.length > 0
+          ? calculateAverageLatency(regionConnections)
+          : region.averageLatency,
+    };
+  });
+
+export const classifyLatency = (latency: number): LatencyData["quality"] => {
+  if (latency <= LATENCY_THRESHOLDS.excellent) return "excellent";
+  if (latency <= LATENCY_THRESHOLDS.good) return "good";
+  if (latency <= LATENCY_THRESHOLDS.fair) return "fair";
+  return "poor";
+};
@@ -0,0 +1,53 @@
+import { ExchangeStatusFeed } from "@/types";
+import { generateMockStatuspage } from "./mock";
+import {
+  ParsedStatusFeed,
+  parseStatuspage,
+  StatuspageHistory,
+  StatuspageSummary,
+} from "./statuspage";
+
+const MOCK_SCHEME = "mock://";
+
+// Helper: GET one Statuspage JSON endpoint
+async function fetchJson<T>(url: string, timeoutMs: number): Promise<T> {
+  const res = await fetch(url, {
+    headers: { Accept: "application/json" },
+    signal: AbortSignal.timeout(timeoutMs),
+    cache: "no-store",
+  });
+  if (!res.ok) throw new Error(`${url} responded ${res.status}`);
+  return res.json();
+}
+
+/**
+ * Read one exchange's status feed. The summary is required; incident and
+ * maintenance history are best-effort since not every page exposes them.
+ */
+export async function fetchStatusFeed(
+  feed: ExchangeStatusFeed,
+  timeoutMs: number
+): Promise<ParsedStatusFeed> {
+  if (feed.url.startsWith(MOCK_SCHEME)) {
+    const { summary, history } = generateMockStatuspage(
+      feed.url.slice(MOCK_SCHEME.length)
+    );
+    return parseStatuspage(feed.exchangeId, summary, history);
+  }
+
+  const api = `${feed.url.replace(/\/+$/, "")}/api/v2`;
+  const [summary, incidents, maintenances] = await Promise.all([
+    fetchJson<StatuspageSummary>(`${api}/summary.json`, timeoutMs),
+    fetchJson<StatuspageHistory>(`${api}/incidents.json`, timeoutMs).catch(
+      (): StatuspageHistory => ({})
+    ),
+    fetchJson<StatuspageHistory>(
+      `${api}/scheduled-maintenances.json`,
+      timeoutMs
+    ).catch((): StatuspageHistory => ({})),
+  ]);
+  return parseStatuspage(feed.exchangeId, summary, {
+    incidents: incidents.incidents,
+    scheduled_maintenances: maintenances.scheduled_maintenances,
+  });
+}
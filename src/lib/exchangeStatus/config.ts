@@ -0,0 +1,52 @@
+import { readFile } from "fs/promises";
+import { ExchangeStatusConfig, ExchangeStatusFeed } from "@/types";
+import { loadExchangeCatalog } from "@/lib/exchangeCatalog";
+
+const DEFAULT_POLL_INTERVAL_MS = 60 * 1000;
+const DEFAULT_TIMEOUT_MS = 5000;
+
+const isValidFeed = (feed: ExchangeStatusFeed): boolean =>
+  !!feed &&
+  typeof feed.exchangeId === "string" &&
+  typeof feed.url === "string" &&
+  /^(https?|mock):\/\//.test(feed.url);
+
+/**
+ * Load the status feed configuration. Without EXCHANGE_STATUS_CONFIG_PATH
+ * every catalogued exchange gets a generated `mock://` feed; a JSON file
+ * there overrides the feed list and timings.
+ */
+export async function loadStatusConfig(): Promise<ExchangeStatusConfig> {
+  const path = process.env.EXCHANGE_STATUS_CONFIG_PATH;
+  const config: ExchangeStatusConfig = {
+    pollIntervalMs: DEFAULT_POLL_INTERVAL_MS,
+    timeoutMs: DEFAULT_TIMEOUT_MS,
+    feeds: (await loadExchangeCatalog()).map((exchange) => ({
+      exchangeId: exchange.id,
+      url: `mock://${exchange.id}`,
+    })),
+  };
+  if (!path) return config;
+
+  const raw = JSON.parse(await readFile(path, "utf8"));
+  const feeds: ExchangeStatusFeed[] = Array.isArray(raw.feeds)
+    ? raw.feeds
+    : config.feeds;
+  const invalid = feeds.filter((f) => !isValidFeed(f));
+  if (invalid.length > 0) {
+    throw new Error(
+      `Invalid status feeds in ${path}: ${invalid
+        .map((f) => f?.exchangeId ?? "<unknown>")
+        .join(", ")}`
+    );
+  }
+  return {
+    pollIntervalMs:
+      Number(raw.pollIntervalMs) > 0
+        ? Number(raw.pollIntervalMs)
+        : config.pollIntervalMs,
+    timeoutMs:
+      Number(raw.timeoutMs) > 0 ? Number(raw.timeoutMs) : config.timeoutMs,
+    feeds,
+  };
+}
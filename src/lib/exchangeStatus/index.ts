@@ -0,0 +1,128 @@
+import {
+  ExchangeIncident,
+  ExchangeStatusConfig,
+  ExchangeStatusReport,
+  ExchangeStatusState,
+} from "@/types";
+import { getExchangeCatalogSnapshot } from "@/lib/exchangeCatalog";
+import { processState } from "@/lib/processState";
+import { fetchStatusFeed } from "./adapter";
+import { loadStatusConfig } from "./config";
+import { ParsedStatusFeed } from "./statuspage";
+import { loadStatusState, updateStatusState } from "./store";
+import { rollingUptime } from "./uptime";
+
+export { fetchStatusFeed } from "./adapter";
+export { loadStatusConfig } from "./config";
+export { generateMockStatuspage } from "./mock";
+export { parseStatuspage } from "./statuspage";
+export { loadStatusState } from "./store";
+export { averageUptime, computeUptime, rollingUptime } from "./uptime";
+
+type FeedResult = {
+  exchangeId: string;
+  parsed?: ParsedStatusFeed;
+  error?: string;
+};
+
+// Helper: Fold one poll's results into the incident history. An incident
+// that was open but is no longer listed by a healthy feed is closed now.
+const mergeIncidents = (
+  stored: ExchangeIncident[],
+  results: FeedResult[],
+  now: number
+): ExchangeIncident[] => {
+  const byId = new Map(stored.map((i) => [i.id, i]));
+  results.forEach(({ exchangeId, parsed }) => {
+    if (!parsed) return;
+    const listed = new Set(parsed.incidents.map((i) => i.id));
+    byId.forEach((incident, id) => {
+      if (
+        incident.exchangeId === exchangeId &&
+        incident.resolvedAt === undefined &&
+        !listed.has(id)
+      ) {
+        byId.set(id, { ...incident, resolvedAt: now });
+      }
+    });
+    parsed.incidents.forEach((incident) => byId.set(incident.id, incident));
+  });
+  return Array.from(byId.values()).sort((a, b) => b.startedAt - a.startedAt);
+};
+
+/**
+ * Poll every configured feed, merge their incidents into the stored history
+ * and recompute each exchange's report. A feed that fails keeps its last
+ * known status (or the catalog's) and reports the error.
+ */
+export async function pollExchangeStatus(
+  config: ExchangeStatusConfig
+): Promise<ExchangeStatusState> {
+  const results: FeedResult[] = await Promise.all(
+    config.feeds.map((feed) =>
+      fetchStatusFeed(feed, config.timeoutMs).then(
+        (parsed) => ({ exchangeId: feed.exchangeId, parsed }),
+        (e) => ({
+          exchangeId: feed.exchangeId,
+          error: e instanceof Error ? e.message : String(e),
+        })
+      )
+    )
+  );
+  const now = Date.now();
+  const catalog = getExchangeCatalogSnapshot();
+
+  return updateStatusState((current) => {
+    const incidents = mergeIncidents(current.incidents, results, now);
+    const previous = new Map(current.reports.map((r) => [r.exchangeId, r]));
+    const reports = results.map(
+      ({ exchangeId, parsed, error }): ExchangeStatusReport => {
+        const last = previous.get(exchangeId);
+        return {
+          exchangeId,
+          status:
+            parsed?.status ??
+            last?.status ??
+            catalog.find((e) => e.id === exchangeId)?.status ??
+            "online",
+          description: parsed?.description ?? last?.description ?? "",
+          checkedAt: now,
+          uptime: rollingUptime(incidents, exchangeId, now),
+          activeIncidents: incidents.filter(
+            (i) => i.exchangeId === exchangeId && i.resolvedAt === undefined
+          ),
+          error,
+        };
+      }
+    );
+    return { reports, incidents };
+  });
+}
+
+const polling = processState<{ poll: Promise<ExchangeStatusState> | null }>(
+  "exchangeStatusPoll",
+  () => ({ poll: null })
+);
+
+/**
+ * Current status reports and incident history. Feeds are re-polled when the
+ * last poll is older than the configured interval, a feed has no report yet
+ * or `refresh` is set; concurrent callers share one poll.
+ */
+export async function getExchangeStatus(
+  refresh = false
+): Promise<ExchangeStatusState> {
+  const config = await loadStatusConfig();
+  const state = await loadStatusState();
+  const reported = new Map(state.reports.map((r) => [r.exchangeId, r]));
+  const stale = config.feeds.some((feed) => {
+    const report = reported.get(feed.exchangeId);
+    return !report || Date.now() - report.checkedAt > config.pollIntervalMs;
+  });
+  if (!refresh && !stale) return state;
+
+  polling.poll ??= pollExchangeStatus(config).finally(() => {
+    polling.poll = null;
+  });
+  return polling.poll;
+}
@@ -0,0 +1,103 @@
+import {
+  StatuspageHistory,
+  StatuspageIncident,
+  StatuspageMaintenance,
+  StatuspageSummary,
+} from "./statuspage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const HISTORY_DAYS = 30;
+// Daily odds of an incident / a maintenance window at a mock venue
+const INCIDENT_CHANCE = 0.12;
+const MAINTENANCE_CHANCE = 0.04;
+
+// Helper: Seeded PRNG so every poll of a mock feed sees the same history
+const seededRandom = (seed: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 16777619);
+  }
+  return () => {
+    h = (h + 0x6d2b79f5) | 0;
+    let t = Math.imul(h ^ (h >>> 15), h | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const iso = (time: number) => new Date(time).toISOString();
+
+/**
+ * Statuspage-shaped payloads for a venue without a real status page:
+ * 30 days of deterministic incidents and maintenance windows, with any
+ * that overlap `now` still open.
+ */
+export function generateMockStatuspage(
+  exchangeId: string,
+  now: number = Date.now()
+): { summary: StatuspageSummary; history: StatuspageHistory } {
+  const incidents: StatuspageIncident[] = [];
+  const maintenances: StatuspageMaintenance[] = [];
+  const today = Math.floor(now / DAY_MS);
+
+  for (let day = today - HISTORY_DAYS; day <= today; day++) {
+    const random = seededRandom(`${exchangeId}:${day}`);
+    if (random() < INCIDENT_CHANCE) {
+      const start = day * DAY_MS + Math.floor(random() * DAY_MS);
+      const end = start + (10 + Math.floor(random() * 80)) * MINUTE_MS;
+      const major = random() < 0.5;
+      if (start <= now) {
+        incidents.push({
+          id: `mock-${day}`,
+          name: major ? "API unavailable" : "Elevated order latency",
+          status: end <= now ? "resolved" : "investigating",
+          impact: major ? "major" : "minor",
+          created_at: iso(start),
+          resolved_at: end <= now ? iso(end) : null,
+        });
+      }
+    }
+    if (random() < MAINTENANCE_CHANCE) {
+      // Maintenance windows open at 02:00 UTC
+      const start = day * DAY_MS + 2 * 60 * MINUTE_MS;
+      const end = start + (60 + Math.floor(random() * 60)) * MINUTE_MS;
+      maintenances.push({
+        id: `mock-maintenance-${day}`,
+        name: "Scheduled matching engine upgrade",
+        status:
+          now < start ? "scheduled" : now < end ? "in_progress" : "completed",
+        scheduled_for: iso(start),
+        scheduled_until: iso(end),
+      });
+    }
+  }
+
+  const open = incidents.filter((i) => i.resolved_at === null);
+  const outage = open.some((i) => i.impact === "major");
+  const inMaintenance = maintenances.some((m) => m.status === "in_progress");
+  const indicator = outage
+    ? "major"
+    : inMaintenance
+    ? "maintenance"
+    : open.length > 0
+    ? "minor"
+    : "none";
+  const description = {
+    none: "All Systems Operational",
+    minor: "Minor Service Outage",
+    major: "Major System Outage",
+    maintenance: "Service Under Maintenance",
+  }[indicator];
+
+  return {
+    summary: {
+      status: { indicator, description },
+      incidents: open,
+      scheduled_maintenances: maintenances.filter(
+        (m) => m.status !== "completed"
+      ),
+    },
+    history: { incidents, scheduled_maintenances: maintenances },
+  };
+}
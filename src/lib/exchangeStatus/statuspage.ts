@@ -0,0 +1,139 @@
+import { ExchangeIncident, ExchangeStatus } from "@/types";
+
+// The parts of the Statuspage v2 API (summary.json / incidents.json) we read
+export interface StatuspageIncident {
+  id: string;
+  name: string;
+  status: string;
+  impact: "none" | "minor" | "major" | "critical";
+  created_at: string;
+  resolved_at: string | null;
+  shortlink?: string;
+}
+
+export interface StatuspageMaintenance {
+  id: string;
+  name: string;
+  status: "scheduled" | "in_progress" | "verifying" | "completed";
+  scheduled_for: string;
+  scheduled_until: string;
+  shortlink?: string;
+}
+
+export interface StatuspageSummary {
+  status: {
+    indicator: "none" | "minor" | "major" | "critical" | "maintenance";
+    description: string;
+  };
+  components?: { name: string; status: string }[];
+  incidents?: StatuspageIncident[];
+  scheduled_maintenances?: StatuspageMaintenance[];
+}
+
+// Past incidents and maintenance windows (incidents.json and
+// scheduled-maintenances.json); the summary only lists open ones
+export interface StatuspageHistory {
+  incidents?: StatuspageIncident[];
+  scheduled_maintenances?: StatuspageMaintenance[];
+}
+
+export interface ParsedStatusFeed {
+  status: ExchangeStatus;
+  description: string;
+  incidents: ExchangeIncident[];
+}
+
+const OUTAGE_IMPACTS = ["major", "critical"];
+const STARTED_MAINTENANCE = ["in_progress", "verifying", "completed"];
+
+const toTime = (value: string | null | undefined) =>
+  value ? Date.parse(value) : undefined;
+
+// Major and critical incidents take a venue offline; minor ones are degraded
+const mapIncident = (
+  exchangeId: string,
+  incident: StatuspageIncident
+): ExchangeIncident => ({
+  id: `${exchangeId}:${incident.id}`,
+  exchangeId,
+  name: incident.name,
+  status: OUTAGE_IMPACTS.includes(incident.impact) ? "offline" : "online",
+  impact: incident.impact,
+  startedAt: Date.parse(incident.created_at),
+  resolvedAt: toTime(incident.resolved_at),
+  url: incident.shortlink,
+});
+
+const mapMaintenance = (
+  exchangeId: string,
+  maintenance: StatuspageMaintenance
+): ExchangeIncident => ({
+  id: `${exchangeId}:${maintenance.id}`,
+  exchangeId,
+  name: maintenance.name,
+  status: "maintenance",
+  impact: "maintenance",
+  startedAt: Date.parse(maintenance.scheduled_for),
+  resolvedAt:
+    maintenance.status === "completed"
+      ? toTime(maintenance.scheduled_until)
+      : undefined,
+  url: maintenance.shortlink,
+});
+
+/**
+ * Map a Statuspage summary (plus optional incident history) onto an
+ * exchange status. Any open outage, a major/critical page indicator or a
+ * component in major_outage means offline; otherwise running maintenance
+ * means maintenance; everything else, including minor incidents, is online.
+ */
+export function parseStatuspage(
+  exchangeId: string,
+  summary: StatuspageSummary,
+  history: StatuspageHistory = {}
+): ParsedStatusFeed {
+  // The summary's copy of an event is the freshest
+  const incidentsById = new Map<string, StatuspageIncident>();
+  [...(history.incidents ?? []), ...(summary.incidents ?? [])].forEach(
+    (incident) => incidentsById.set(incident.id, incident)
+  );
+  const maintenancesById = new Map<string, StatuspageMaintenance>();
+  [
+    ...(history.scheduled_maintenances ?? []),
+    ...(summary.scheduled_maintenances ?? []),
+  ].forEach((maintenance) => maintenancesById.set(maintenance.id, maintenance));
+
+  const incidents = [
+    ...Array.from(incidentsById.values()).map((i) =>
+      mapIncident(exchangeId, i)
+    ),
+    ...Array.from(maintenancesById.values())
+      .filter((m) => STARTED_MAINTENANCE.includes(m.status))
+      .map((m) => mapMaintenance(exchangeId, m)),
+  ].filter((i) => !isNaN(i.startedAt));
+
+  const open = incidents.filter((i) => i.resolvedAt === undefined);
+  const components = summary.components ?? [];
+  const indicator = summary.status?.indicator ?? "none";
+
+  let status: ExchangeStatus = "online";
+  if (
+    open.some((i) => i.status === "offline") ||
+    OUTAGE_IMPACTS.includes(indicator) ||
+    components.some((c) => c.status === "major_outage")
+  ) {
+    status = "offline";
+  } else if (
+    open.some((i) => i.status === "maintenance") ||
+    indicator === "maintenance" ||
+    components.some((c) => c.status === "under_maintenance")
+  ) {
+    status = "maintenance";
+  }
+
+  return {
+    status,
+    description: summary.status?.description ?? "",
+    incidents,
+  };
+}
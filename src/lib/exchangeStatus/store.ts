@@ -0,0 +1,40 @@
+import path from "path";
+import { ExchangeStatusState } from "@/types";
+import { createJsonFileStore } from "@/lib/jsonFileStore";
+import { processState } from "@/lib/processState";
+import { UPTIME_WINDOWS_MS } from "./uptime";
+
+// Resolved incidents older than the longest uptime window are dropped
+const RETENTION_MS = UPTIME_WINDOWS_MS.month;
+
+// Helper: Open incidents are always kept; resolved ones age out
+const pruneIncidents = (next: ExchangeStatusState): ExchangeStatusState => {
+  const cutoff = Date.now() - RETENTION_MS;
+  return {
+    ...next,
+    incidents: next.incidents.filter(
+      (i) => i.resolvedAt === undefined || i.resolvedAt >= cutoff
+    ),
+  };
+};
+
+// Latest reports and incident history persist to one JSON file
+const store = processState("exchangeStatusStore", () =>
+  createJsonFileStore<ExchangeStatusState>({
+    path: () =>
+      process.env.EXCHANGE_STATUS_DATA_PATH ||
+      path.join(process.cwd(), ".data", "exchange-status.json"),
+    parse: (raw) => ({
+      reports: Array.isArray(raw?.reports) ? raw.reports : [],
+      incidents: Array.isArray(raw?.incidents) ? raw.incidents : [],
+    }),
+    prepare: pruneIncidents,
+    cached: true,
+    onWriteError: (e) => console.error("Failed to persist exchange status:", e),
+  })
+);
+
+export const loadStatusState = store.load;
+
+// Apply a change to the status state and persist it
+export const updateStatusState = store.update;
@@ -0,0 +1,63 @@
+import {
+  ExchangeIncident,
+  ExchangeStatusReport,
+  ExchangeUptime,
+} from "@/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const UPTIME_WINDOWS_MS: Record<keyof ExchangeUptime, number> = {
+  day: DAY_MS,
+  week: 7 * DAY_MS,
+  month: 30 * DAY_MS,
+};
+
+/**
+ * Share of [from, to] an exchange was not offline, in percent. Overlapping
+ * outages are merged so they aren't counted twice; maintenance windows
+ * don't count as downtime.
+ */
+export function computeUptime(
+  incidents: ExchangeIncident[],
+  exchangeId: string,
+  from: number,
+  to: number
+): number {
+  if (to <= from) return 100;
+  const outages = incidents
+    .filter((i) => i.exchangeId === exchangeId && i.status === "offline")
+    .map((i) => [
+      Math.max(i.startedAt, from),
+      Math.min(i.resolvedAt ?? to, to),
+    ])
+    .filter(([start, end]) => end > start)
+    .sort((a, b) => a[0] - b[0]);
+
+  let downtime = 0;
+  let coveredUntil = from;
+  for (const [start, end] of outages) {
+    if (end <= coveredUntil) continue;
+    downtime += end - Math.max(start, coveredUntil);
+    coveredUntil = end;
+  }
+  return (1 - downtime / (to - from)) * 100;
+}
+
+export const rollingUptime = (
+  incidents: ExchangeIncident[],
+  exchangeId: string,
+  now: number = Date.now()
+): ExchangeUptime => {
+  const over = (window: keyof ExchangeUptime) =>
+    computeUptime(incidents, exchangeId, now - UPTIME_WINDOWS_MS[window], now);
+  return { day: over("day"), week: over("week"), month: over("month") };
+};
+
+// Mean uptime across reports, or null when no venue has a status feed
+export const averageUptime = (
+  reports: ExchangeStatusReport[],
+  window: keyof ExchangeUptime = "day"
+): number | null =>
+  reports.length > 0
+    ? reports.reduce((sum, r) => sum + r.uptime[window], 0) / reports.length
+    : null;
@@ -0,0 +1,17 @@
+export {
+  DEFAULT_EXPORT_COLUMNS,
+  DEFAULT_EXPORT_HISTORY_MS,
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  exportOptionsToQuery,
+  MAX_PARQUET_RANGE_MS,
+  parseExportQuery,
+  validateExportOptions,
+} from "./query";
+export { columnValue, loadExportRecords } from "./rows";
+export type { ExportRecord } from "./rows";
+export {
+  createTextExportStream,
+  EXPORT_CONTENT_TYPES,
+  writeParquetExport,
+} from "./writers";
@@ -0,0 +1,176 @@
+import {
+  ExportColumn,
+  ExportFormat,
+  FilterOptions,
+  LatencyDataSourceId,
+  LatencyExportOptions,
+  TimeRange,
+} from "@/types";
+import { TIME_RANGE_MS } from "@/lib/chartUtils";
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: "csv", label: "CSV" },
+  { value: "ndjson", label: "NDJSON" },
+  { value: "parquet", label: "Parquet" },
+];
+
+export const EXPORT_COLUMNS: { key: ExportColumn; label: string }[] = [
+  { key: "timestamp", label: "Timestamp" },
+  { key: "source", label: "Source ID" },
+  { key: "target", label: "Target ID" },
+  { key: "sourceName", label: "Source Name" },
+  { key: "targetName", label: "Target Name" },
+  { key: "sourceProvider", label: "Source Provider" },
+  { key: "targetProvider", label: "Target Provider" },
+  { key: "latency", label: "Latency (ms)" },
+  { key: "quality", label: "Quality" },
+  { key: "packetLoss", label: "Packet Loss (%)" },
+  { key: "jitter", label: "Jitter (ms)" },
+  { key: "p50", label: "p50 (ms)" },
+  { key: "p90", label: "p90 (ms)" },
+  { key: "p99", label: "p99 (ms)" },
+];
+
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = [
+  "timestamp",
+  "source",
+  "target",
+  "latency",
+  "packetLoss",
+  "jitter",
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Historical window when the export leaves out `from`
+export const DEFAULT_EXPORT_HISTORY_MS = 7 * DAY_MS;
+
+// Parquet is columnar and built in memory, so its window is capped; CSV and
+// NDJSON are streamed a day at a time and can cover any range
+export const MAX_PARQUET_RANGE_MS = 7 * DAY_MS;
+
+const FEEDS: LatencyDataSourceId[] = ["radar", "mock", "replay", "probes"];
+const PROVIDERS: FilterOptions["cloudProviders"] = ["AWS", "GCP", "Azure"];
+const COLUMN_KEYS = EXPORT_COLUMNS.map((c) => c.key);
+
+const list = (value: string | null) =>
+  value ? value.split(",").filter(Boolean) : [];
+
+const optionalNumber = (value: string | null) =>
+  value === null || value === "" ? undefined : Number(value);
+
+// Query string for GET /api/latency/export
+export function exportOptionsToQuery(options: LatencyExportOptions): string {
+  const params = new URLSearchParams({
+    format: options.format,
+    type: options.type,
+    feed: options.feed,
+    columns: options.columns.join(","),
+  });
+  if (options.from !== undefined) params.set("from", String(options.from));
+  if (options.to !== undefined) params.set("to", String(options.to));
+  if (options.bucket) params.set("bucket", options.bucket);
+  if (options.exchanges.length > 0) {
+    params.set("exchanges", options.exchanges.join(","));
+  }
+  if (options.cloudProviders.length > 0) {
+    params.set("providers", options.cloudProviders.join(","));
+  }
+  const { min, max } = options.latencyRange;
+  if (min > 0) params.set("minLatency", String(min));
+  if (isFinite(max)) params.set("maxLatency", String(max));
+  return params.toString().replace(/%2C/g, ",");
+}
+
+/**
+ * Export options for the current view: the map's filters and the chart's
+ * time range ending now. Format, type and columns can be overridden.
+ */
+export function buildExportOptions(
+  filters: FilterOptions,
+  timeRange: TimeRange,
+  feed: LatencyDataSourceId,
+  overrides: Partial<LatencyExportOptions> = {}
+): LatencyExportOptions {
+  const to = Date.now();
+  return {
+    format: "csv",
+    type: filters.showHistorical ? "historical" : "current",
+    feed,
+    columns: DEFAULT_EXPORT_COLUMNS,
+    from: to - TIME_RANGE_MS[timeRange],
+    to,
+    exchanges: filters.exchanges,
+    cloudProviders: filters.cloudProviders,
+    latencyRange: filters.latencyRange,
+    ...overrides,
+  };
+}
+
+// Read export options from query parameters; validate before using them
+export function parseExportQuery(
+  params: URLSearchParams
+): LatencyExportOptions {
+  const columns = list(params.get("columns"));
+  return {
+    format: (params.get("format") || "csv") as ExportFormat,
+    type: (params.get("type") || "current") as LatencyExportOptions["type"],
+    feed: (params.get("feed") || "mock") as LatencyDataSourceId,
+    columns:
+      columns.length > 0
+        ? (columns as ExportColumn[])
+        : DEFAULT_EXPORT_COLUMNS,
+    from: optionalNumber(params.get("from")),
+    to: optionalNumber(params.get("to")),
+    bucket: params.get("bucket") || undefined,
+    exchanges: list(params.get("exchanges")),
+    cloudProviders: list(
+      params.get("providers")
+    ) as FilterOptions["cloudProviders"],
+    latencyRange: {
+      min: optionalNumber(params.get("minLatency")) ?? 0,
+      max: optionalNumber(params.get("maxLatency")) ?? Infinity,
+    },
+  };
+}
+
+// Returns an error message for invalid export options, or null when valid
+export function validateExportOptions(
+  options: LatencyExportOptions
+): string | null {
+  if (
+    !Array.isArray(options.columns) ||
+    !Array.isArray(options.exchanges) ||
+    !Array.isArray(options.cloudProviders) ||
+    typeof options.latencyRange !== "object"
+  )
+    return "columns, exchanges and cloudProviders must be lists";
+  if (!EXPORT_FORMATS.some((f) => f.value === options.format))
+    return "Format must be csv, ndjson or parquet";
+  if (options.type !== "current" && options.type !== "historical")
+    return "Type must be current or historical";
+  if (!FEEDS.includes(options.feed))
+    return `Feed must be one of ${FEEDS.join(", ")}`;
+  const unknown = options.columns.filter((c) => !COLUMN_KEYS.includes(c));
+  if (unknown.length > 0) return `Unknown columns: ${unknown.join(", ")}`;
+  if (options.columns.length === 0) return "Pick at least one column";
+  const invalidProvider = options.cloudProviders.find(
+    (p) => !PROVIDERS.includes(p)
+  );
+  if (invalidProvider) return `Unknown cloud provider: ${invalidProvider}`;
+  const { from, to } = options;
+  if ((from !== undefined && isNaN(from)) || (to !== undefined && isNaN(to)))
+    return "from/to must be millisecond timestamps";
+  if (from !== undefined && to !== undefined && from > to)
+    return "from must not be after to";
+  if (options.format === "parquet" && options.type === "historical") {
+    const end = to ?? Date.now();
+    const start = from ?? Date.now() - DEFAULT_EXPORT_HISTORY_MS;
+    if (end - start > MAX_PARQUET_RANGE_MS)
+      return "Parquet exports cover at most 7 days; use csv or ndjson for longer ranges";
+  }
+  const { min, max } = options.latencyRange;
+  if (!(min <= max))
+    return "Latency range must satisfy minLatency <= maxLatency";
+  return null;
+}
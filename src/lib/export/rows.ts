@@ -0,0 +1,172 @@
+import {
+  ExchangeLocation,
+  ExportColumn,
+  LatencyExportOptions,
+  LatencyPercentiles,
+  StoredLatencyRecord,
+} from "@/types";
+import { classifyLatency } from "@/lib/exchangeData";
+import { loadExchangeCatalog } from "@/lib/exchangeCatalog";
+import {
+  downsampleRecords,
+  ensureMockHistory,
+  readRecordDays,
+  readRecords,
+} from "@/lib/timeseries";
+import { DEFAULT_EXPORT_HISTORY_MS } from "./query";
+
+// How far back "current" looks for each pair's latest recorded sample
+const RECENT_WINDOW_MS = 60 * 60 * 1000;
+
+export interface ExportRecord {
+  timestamp: number;
+  source: string;
+  target: string;
+  latency: number;
+  packetLoss?: number;
+  jitter?: number;
+  percentiles?: LatencyPercentiles;
+}
+
+export type ExportValue = string | number | null;
+
+// Helper: Newest sample per pair
+const latestPerPair = (records: ExportRecord[]): ExportRecord[] => {
+  const latest = new Map<string, ExportRecord>();
+  records.forEach((r) => {
+    const key = `${r.source}->${r.target}`;
+    const current = latest.get(key);
+    if (!current || r.timestamp >= current.timestamp) latest.set(key, r);
+  });
+  return Array.from(latest.values());
+};
+
+/**
+ * Downsample day batches as they arrive. Records are in time order, so every
+ * bucket before the one the newest record falls in is complete and can be
+ * written; only the open bucket is held back.
+ */
+async function* downsampleDays(
+  days: AsyncIterable<StoredLatencyRecord[]>,
+  bucketMs: number
+): AsyncGenerator<ExportRecord[]> {
+  const bucketOf = (r: StoredLatencyRecord) =>
+    Math.floor(r.timestamp / bucketMs) * bucketMs;
+  let pending: StoredLatencyRecord[] = [];
+  for await (const day of days) {
+    pending = pending.concat(day);
+    const open = bucketOf(pending[pending.length - 1]);
+    const split = pending.findIndex((r) => bucketOf(r) === open);
+    if (split > 0) {
+      yield downsampleRecords(pending.slice(0, split), bucketMs);
+      pending = pending.slice(split);
+    }
+  }
+  if (pending.length > 0) yield downsampleRecords(pending, bucketMs);
+}
+
+// Records for an export in time order, a batch (at most a day) at a time.
+// "current" reads the store too, so exporting never starts a live feed such
+// as the probes.
+async function* loadRecords(
+  options: LatencyExportOptions,
+  bucketMs?: number
+): AsyncGenerator<ExportRecord[]> {
+  if (options.feed === "mock") await ensureMockHistory();
+  if (options.type === "current") {
+    const now = Date.now();
+    yield latestPerPair(
+      await readRecords({ feed: options.feed, from: now - RECENT_WINDOW_MS })
+    ).sort((a, b) => a.timestamp - b.timestamp);
+    return;
+  }
+
+  const days = readRecordDays({
+    feed: options.feed,
+    from: options.from ?? Date.now() - DEFAULT_EXPORT_HISTORY_MS,
+    to: options.to,
+  });
+  if (bucketMs) yield* downsampleDays(days, bucketMs);
+  else yield* days;
+}
+
+/**
+ * Records for an export, narrowed like the map: both endpoints must pass
+ * the exchange and provider filters (nodes outside the catalog, such as
+ * Radar regions, always pass) and latency must be within range. Batches are
+ * read lazily as the export is written.
+ */
+export async function loadExportRecords(
+  options: LatencyExportOptions,
+  bucketMs?: number
+): Promise<{
+  batches: AsyncGenerator<ExportRecord[]>;
+  nodes: Map<string, ExchangeLocation>;
+}> {
+  const nodes = new Map(
+    (await loadExchangeCatalog()).map((exchange) => [exchange.id, exchange])
+  );
+  const { exchanges, cloudProviders, latencyRange } = options;
+  const nodeMatches = (id: string) => {
+    const exchange = nodes.get(id);
+    if (!exchange) return true;
+    return (
+      (exchanges.length === 0 ||
+        exchanges.includes(exchange.name) ||
+        exchanges.includes(exchange.id)) &&
+      (cloudProviders.length === 0 ||
+        (!!exchange.cloudProvider &&
+          cloudProviders.includes(exchange.cloudProvider)))
+    );
+  };
+
+  const matches = (r: ExportRecord) =>
+    nodeMatches(r.source) &&
+    nodeMatches(r.target) &&
+    r.latency >= latencyRange.min &&
+    r.latency <= latencyRange.max;
+
+  async function* filtered() {
+    for await (const batch of loadRecords(options, bucketMs)) {
+      const records = batch.filter(matches);
+      if (records.length > 0) yield records;
+    }
+  }
+  return { batches: filtered(), nodes };
+}
+
+// Value of one export column for a record
+export const columnValue = (
+  column: ExportColumn,
+  record: ExportRecord,
+  nodes: Map<string, ExchangeLocation>
+): ExportValue => {
+  switch (column) {
+    case "timestamp":
+      return record.timestamp;
+    case "source":
+      return record.source;
+    case "target":
+      return record.target;
+    case "sourceName":
+      return nodes.get(record.source)?.displayName ?? record.source;
+    case "targetName":
+      return nodes.get(record.target)?.displayName ?? record.target;
+    case "sourceProvider":
+      return nodes.get(record.source)?.cloudProvider ?? null;
+    case "targetProvider":
+      return nodes.get(record.target)?.cloudProvider ?? null;
+    case "latency":
+      return record.latency;
+    case "quality":
+      return classifyLatency(record.latency);
+    case "packetLoss":
+      return record.packetLoss ?? null;
+    case "jitter":
+      return record.jitter ?? null;
+    case "p50":
+    case "p90":
+    case "p99":
+      return record.percentiles?.[column] ?? null;
+  }
+};
@@ -0,0 +1,127 @@
+import { parquetWriteBuffer } from "hyparquet-writer";
+import { ExchangeLocation, ExportColumn, ExportFormat } from "@/types";
+import { columnValue, ExportRecord, ExportValue } from "./rows";
+
+// Rows per chunk pushed to a streamed response
+const CHUNK_ROWS = 500;
+
+const STRING_COLUMNS: ExportColumn[] = [
+  "source",
+  "target",
+  "sourceName",
+  "targetName",
+  "sourceProvider",
+  "targetProvider",
+  "quality",
+];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson",
+  parquet: "application/vnd.apache.parquet",
+};
+
+// Helper: Quote a CSV field when it contains a delimiter, quote or newline
+const csvField = (value: ExportValue) => {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvLine = (
+  record: ExportRecord,
+  columns: ExportColumn[],
+  nodes: Map<string, ExchangeLocation>
+) =>
+  columns
+    .map((column) => {
+      const value = columnValue(column, record, nodes);
+      // ISO timestamps are what spreadsheets and most CSV readers expect
+      return column === "timestamp"
+        ? new Date(value as number).toISOString()
+        : csvField(value);
+    })
+    .join(",");
+
+const ndjsonLine = (
+  record: ExportRecord,
+  columns: ExportColumn[],
+  nodes: Map<string, ExchangeLocation>
+) =>
+  JSON.stringify(
+    Object.fromEntries(
+      columns.map((column) => [column, columnValue(column, record, nodes)])
+    )
+  );
+
+/**
+ * Stream record batches as CSV (with a header row) or NDJSON, a chunk of
+ * rows at a time. The next batch is only read once the client has taken the
+ * previous one, so large exports are never held in memory.
+ */
+export function createTextExportStream(
+  format: "csv" | "ndjson",
+  batches: AsyncIterator<ExportRecord[]>,
+  columns: ExportColumn[],
+  nodes: Map<string, ExchangeLocation>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const line = format === "csv" ? csvLine : ndjsonLine;
+  let batch: ExportRecord[] = [];
+  let index = 0;
+
+  return new ReadableStream({
+    start(controller) {
+      if (format === "csv") {
+        controller.enqueue(encoder.encode(`${columns.join(",")}\n`));
+      }
+    },
+    async pull(controller) {
+      while (index >= batch.length) {
+        const next = await batches.next();
+        if (next.done) {
+          controller.close();
+          return;
+        }
+        batch = next.value;
+        index = 0;
+      }
+      const chunk = batch
+        .slice(index, index + CHUNK_ROWS)
+        .map((record) => `${line(record, columns, nodes)}\n`)
+        .join("");
+      index += CHUNK_ROWS;
+      controller.enqueue(encoder.encode(chunk));
+    },
+    async cancel() {
+      await batches.return?.(undefined);
+    },
+  });
+}
+
+// Parquet is columnar, so the file is built in memory and sent whole; its
+// range is capped by validateExportOptions
+export async function writeParquetExport(
+  batches: AsyncIterable<ExportRecord[]>,
+  columns: ExportColumn[],
+  nodes: Map<string, ExchangeLocation>
+): Promise<ArrayBuffer> {
+  let records: ExportRecord[] = [];
+  for await (const batch of batches) records = records.concat(batch);
+  return parquetWriteBuffer({
+    columnData: columns.map((column) =>
+      column === "timestamp"
+        ? {
+            name: column,
+            // The writer's statistics expect Date values for timestamps
+            data: records.map((record) => new Date(record.timestamp)),
+            type: "TIMESTAMP",
+          }
+        : {
+            name: column,
+            data: records.map((record) => columnValue(column, record, nodes)),
+            type: STRING_COLUMNS.includes(column) ? "STRING" : "DOUBLE",
+          }
+    ),
+  });
+}
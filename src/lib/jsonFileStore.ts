@@ -0,0 +1,96 @@
+import { mkdir, readFile, rename, rm, writeFile } from "fs/promises";
+import path from "path";
+
+// What a state file may hold before it's checked: any of the state's keys
+export type JsonFileContents<T> = { [K in keyof T]?: unknown } | null;
+
+export interface JsonFileStoreOptions<T> {
+  // Resolved on every access, so env changes apply without a restart
+  path: () => string;
+  // Build the state from the parsed file (null when missing or unreadable),
+  // falling back to defaults for anything malformed
+  parse: (raw: JsonFileContents<T>) => T;
+  // Applied to every update before it's saved, e.g. to trim history
+  prepare?: (next: T) => T;
+  // Keep the state in memory after the first load instead of re-reading
+  cached?: boolean;
+  // Called instead of rejecting when a write fails; the update still applies
+  onWriteError?: (error: unknown) => void;
+}
+
+export interface JsonFileStore<T> {
+  load: () => Promise<T>;
+  update: (update: (current: T) => T) => Promise<T>;
+}
+
+/**
+ * Write through a temporary file and rename it into place, so a crash or a
+ * concurrent reader never sees a half-written file.
+ */
+export async function writeFileAtomic(
+  file: string,
+  text: string
+): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  const temp = `${file}.${process.pid}.tmp`;
+  try {
+    await writeFile(temp, text);
+    await rename(temp, file);
+  } catch (e) {
+    await rm(temp, { force: true });
+    throw e;
+  }
+}
+
+// Runs tasks one at a time in call order; a failed task doesn't block the rest
+export function createUpdateQueue() {
+  let queue: Promise<unknown> = Promise.resolve();
+  return <R>(task: () => Promise<R>): Promise<R> => {
+    const run = queue.then(task);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+}
+
+/**
+ * State persisted to one JSON file. Updates are queued so overlapping
+ * changes never overwrite each other, and each is written atomically.
+ */
+export function createJsonFileStore<T>(
+  options: JsonFileStoreOptions<T>
+): JsonFileStore<T> {
+  const enqueue = createUpdateQueue();
+  let state: T | null = null;
+
+  const read = async (): Promise<T> => {
+    let raw: JsonFileContents<T> = null;
+    try {
+      raw = JSON.parse(await readFile(options.path(), "utf8"));
+    } catch {
+      raw = null;
+    }
+    return options.parse(raw);
+  };
+
+  const load = async (): Promise<T> => {
+    if (!options.cached) return read();
+    if (!state) state = await read();
+    return state;
+  };
+
+  const update = (apply: (current: T) => T): Promise<T> =>
+    enqueue(async () => {
+      const applied = apply(await load());
+      const next = options.prepare ? options.prepare(applied) : applied;
+      try {
+        await writeFileAtomic(options.path(), JSON.stringify(next, null, 2));
+      } catch (e) {
+        if (!options.onWriteError) throw e;
+        options.onWriteError(e);
+      }
+      if (options.cached) state = next;
+      return next;
+    });
+
+  return { load, update };
+}
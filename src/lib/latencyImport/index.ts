@@ -0,0 +1,109 @@
+import {
+  ImportedLatencyData,
+  LatencyData,
+  LatencyImportDataset,
+  LatencyImportRequest,
+  LatencyImportResult,
+  LatencyPair,
+} from "@/types";
+import { classifyLatency } from "@/lib/exchangeData";
+import { loadExchangeCatalog } from "@/lib/exchangeCatalog";
+import { ImportedRecord, parseLatencyImport, ParsedImport } from "./parsers";
+import { readImportedDataset, saveImportedDataset } from "./store";
+
+export {
+  detectImportFormat,
+  IMPORT_FORMATS,
+  PAIRLESS_IMPORT_FORMATS,
+  parseLatencyImport,
+  validateImportRequest,
+} from "./parsers";
+export {
+  countImportedDatasets,
+  deleteImportedDataset,
+  listImportedDatasets,
+} from "./store";
+
+// Parse an upload, checking exchange ids against the current catalog
+export async function parseImportForCatalog(
+  request: LatencyImportRequest,
+  now: number = Date.now()
+): Promise<ParsedImport> {
+  const catalog = await loadExchangeCatalog();
+  return parseLatencyImport(request, new Set(catalog.map((e) => e.id)), now);
+}
+
+// Helper: Dataset id from its name plus the import time
+const datasetId = (name: string, now: number) => {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40);
+  return `${slug || "dataset"}-${now.toString(36)}`;
+};
+
+// Store parsed records as a new dataset
+export async function saveLatencyImport(
+  request: LatencyImportRequest,
+  parsed: ParsedImport,
+  now: number = Date.now()
+): Promise<LatencyImportResult> {
+  const records = [...parsed.records].sort((a, b) => a.timestamp - b.timestamp);
+  const pairs = new Map<string, LatencyPair>();
+  records.forEach(({ source, target }) =>
+    pairs.set(`${source}|${target}`, { source, target })
+  );
+  const dataset: LatencyImportDataset = {
+    id: datasetId(request.name, now),
+    name: request.name.trim(),
+    format: request.format,
+    importedAt: now,
+    from: records[0].timestamp,
+    to: records[records.length - 1].timestamp,
+    recordCount: records.length,
+    pairs: Array.from(pairs.values()),
+  };
+  await saveImportedDataset(dataset, records);
+  return { dataset, skipped: parsed.issues };
+}
+
+// Helper: Latest record per pair, as the map's current latency
+const latestPerPair = (
+  datasetId: string,
+  records: ImportedRecord[]
+): LatencyData[] => {
+  const latest = new Map<string, ImportedRecord>();
+  records.forEach((r) => latest.set(`${r.source}|${r.target}`, r));
+  return Array.from(latest.values()).map((r) => ({
+    // Distinct from live connection ids so both can be shown together
+    id: `import-${datasetId}-${r.source}-${r.target}`,
+    source: r.source,
+    target: r.target,
+    latency: r.latency,
+    timestamp: r.timestamp,
+    quality: classifyLatency(r.latency),
+    packetLoss: r.packetLoss,
+    jitter: r.jitter,
+    percentiles: r.percentiles,
+  }));
+};
+
+// A stored dataset in the shapes the map and chart use
+export async function loadImportedLatency(
+  id: string
+): Promise<ImportedLatencyData | null> {
+  const file = await readImportedDataset(id);
+  if (!file) return null;
+  return {
+    dataset: file.dataset,
+    latencyData: latestPerPair(id, file.records),
+    historicalData: file.records.map((r) => ({
+      timestamp: r.timestamp,
+      latency: r.latency,
+      source: r.source,
+      target: r.target,
+      percentiles: r.percentiles,
+    })),
+  };
+}
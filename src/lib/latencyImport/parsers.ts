@@ -0,0 +1,516 @@
+import {
+  LatencyImportFormat,
+  LatencyImportIssue,
+  LatencyImportRequest,
+  StoredLatencyRecord,
+} from "@/types";
+import { computePercentiles } from "@/lib/statistics";
+
+export type ImportedRecord = Omit<StoredLatencyRecord, "feed">;
+
+export interface ParsedImport {
+  records: ImportedRecord[];
+  issues: LatencyImportIssue[];
+}
+
+export const IMPORT_FORMATS: { value: LatencyImportFormat; label: string }[] =
+  [
+    { value: "csv", label: "CSV" },
+    { value: "ndjson", label: "NDJSON" },
+    { value: "mtr", label: "mtr report" },
+    { value: "ping", label: "ping output" },
+  ];
+
+// Captures that only name the destination host; the pair is given instead
+export const PAIRLESS_IMPORT_FORMATS: LatencyImportFormat[] = ["mtr", "ping"];
+
+const MAX_NAME_LENGTH = 100;
+
+// Column names accepted in CSV headers and NDJSON keys, compared lowercase
+// with punctuation stripped ("Packet Loss %" -> "packetloss")
+const FIELD_ALIASES: Record<string, string> = {
+  timestamp: "timestamp",
+  time: "timestamp",
+  date: "timestamp",
+  source: "source",
+  src: "source",
+  from: "source",
+  target: "target",
+  dst: "target",
+  destination: "target",
+  to: "target",
+  latency: "latency",
+  latencyms: "latency",
+  rtt: "latency",
+  rttms: "latency",
+  packetloss: "packetLoss",
+  loss: "packetLoss",
+  jitter: "jitter",
+  jitterms: "jitter",
+  p50: "p50",
+  p90: "p90",
+  p99: "p99",
+};
+
+const fieldName = (key: string) =>
+  FIELD_ALIASES[key.toLowerCase().replace(/[^a-z0-9]/g, "")];
+
+// Guess the format from the file extension, then from the content
+export function detectImportFormat(
+  fileName: string,
+  content: string
+): LatencyImportFormat {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "csv") return "csv";
+  if (extension === "ndjson" || extension === "jsonl") return "ndjson";
+  if (/^HOST:|Loss%|"hubs"/m.test(content)) return "mtr";
+  if (/bytes from|Reply from|packets transmitted/.test(content)) return "ping";
+  return content.trimStart().startsWith("{") ? "ndjson" : "csv";
+}
+
+// Returns an error message for an invalid import request, or null when valid
+export function validateImportRequest(
+  request: LatencyImportRequest
+): string | null {
+  if (typeof request?.name !== "string" || !request.name.trim())
+    return "Dataset name is required";
+  if (request.name.length > MAX_NAME_LENGTH)
+    return `Dataset name must be at most ${MAX_NAME_LENGTH} characters`;
+  if (!IMPORT_FORMATS.some((f) => f.value === request.format))
+    return "Format must be csv, ndjson, mtr or ping";
+  if (typeof request.content !== "string" || !request.content.trim())
+    return "File is empty";
+  for (const key of ["source", "target"] as const) {
+    if (request[key] !== undefined && typeof request[key] !== "string")
+      return `${key} must be an exchange id`;
+  }
+  if (
+    PAIRLESS_IMPORT_FORMATS.includes(request.format) &&
+    (!request.source || !request.target)
+  )
+    return `${request.format} output needs the source and target exchanges`;
+  if (request.source && request.source === request.target)
+    return "source and target must be different exchanges";
+  if (request.timestamp !== undefined && !Number.isFinite(request.timestamp))
+    return "timestamp must be a millisecond timestamp";
+  return null;
+}
+
+// Helper: Millisecond timestamp from epoch seconds/ms or a date string.
+// Numbers below 1e9 (2001 in seconds) are neither, e.g. a bare year.
+const parseTimestamp = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === "") return undefined;
+  const numeric = Number(value);
+  if (Number.isFinite(numeric)) {
+    if (numeric < 1e9) return NaN;
+    // Ten-digit values are epoch seconds
+    return numeric < 1e11 ? numeric * 1000 : numeric;
+  }
+  const parsed = Date.parse(String(value));
+  return isNaN(parsed) ? NaN : parsed;
+};
+
+const optionalNumber = (value: unknown) =>
+  value === undefined || value === null || value === ""
+    ? undefined
+    : Number(String(value).replace(/%$/, ""));
+
+// Helper: Error for an out-of-range packet loss or jitter, or null
+const measurementIssue = (
+  packetLoss: number | undefined,
+  jitter: number | undefined
+): string | null => {
+  if (packetLoss !== undefined && !(packetLoss >= 0 && packetLoss <= 100))
+    return "Packet loss must be between 0 and 100";
+  if (jitter !== undefined && !(jitter >= 0))
+    return "Jitter must be a non-negative number";
+  return null;
+};
+
+/**
+ * Build a record from named fields (a CSV row or NDJSON object). Returns
+ * an error message when a required field is missing or out of range.
+ */
+function recordFromFields(
+  raw: Record<string, unknown>,
+  request: LatencyImportRequest,
+  exchangeIds: Set<string>,
+  now: number
+): ImportedRecord | string {
+  const fields: Record<string, unknown> = {};
+  Object.entries(raw).forEach(([key, value]) => {
+    const name = fieldName(key);
+    if (name) fields[name] = value;
+  });
+
+  const source = String(fields.source ?? request.source ?? "").trim();
+  const target = String(fields.target ?? request.target ?? "").trim();
+  if (!source || !target) return "Missing source or target";
+  if (source === target) return "Source and target must differ";
+  const unknown = [source, target].find((id) => !exchangeIds.has(id));
+  if (unknown) return `Unknown exchange "${unknown}"`;
+  const timestamp =
+    parseTimestamp(fields.timestamp) ?? request.timestamp ?? now;
+  if (isNaN(timestamp)) return `Unreadable timestamp "${fields.timestamp}"`;
+  const latency = optionalNumber(fields.latency);
+  if (latency === undefined || !(latency >= 0))
+    return "Latency must be a non-negative number";
+  const packetLoss = optionalNumber(fields.packetLoss);
+  const jitter = optionalNumber(fields.jitter);
+  const issue = measurementIssue(packetLoss, jitter);
+  if (issue) return issue;
+
+  const [p50, p90, p99] = ["p50", "p90", "p99"].map((p) =>
+    optionalNumber(fields[p])
+  );
+  const percentiles =
+    p50 !== undefined && p90 !== undefined && p99 !== undefined
+      ? { p50, p90, p99 }
+      : undefined;
+  if (percentiles && !Object.values(percentiles).every((p) => p >= 0))
+    return "Percentiles must be non-negative numbers";
+
+  return {
+    timestamp,
+    source,
+    target,
+    latency,
+    packetLoss,
+    jitter,
+    percentiles,
+  };
+}
+
+// Helper: Split one CSV line, honouring double-quoted fields
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field.trim());
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+};
+
+const lines = (content: string) => content.split(/\r?\n/);
+
+function parseCsv(
+  request: LatencyImportRequest,
+  exchangeIds: Set<string>,
+  now: number
+): ParsedImport {
+  const result: ParsedImport = { records: [], issues: [] };
+  const rows = lines(request.content);
+  const headerIndex = rows.findIndex((row) => row.trim() !== "");
+  const header = rows[headerIndex] ?? "";
+  // Vendor reports are often tab- or semicolon-separated
+  const delimiter = [",", "\t", ";"].reduce((best, d) =>
+    header.split(d).length > header.split(best).length ? d : best
+  );
+  const columns = splitCsvLine(header, delimiter);
+  if (!columns.some((c) => fieldName(c) === "latency")) {
+    result.issues.push({
+      line: headerIndex + 1,
+      message: "Header row needs a latency (or rtt) column",
+    });
+    return result;
+  }
+
+  rows.slice(headerIndex + 1).forEach((row, i) => {
+    if (!row.trim()) return;
+    const line = headerIndex + i + 2;
+    const values = splitCsvLine(row, delimiter);
+    const record = recordFromFields(
+      Object.fromEntries(columns.map((c, j) => [c, values[j]])),
+      request,
+      exchangeIds,
+      now
+    );
+    if (typeof record === "string") {
+      result.issues.push({ line, message: record });
+    } else {
+      result.records.push(record);
+    }
+  });
+  return result;
+}
+
+function parseNdjson(
+  request: LatencyImportRequest,
+  exchangeIds: Set<string>,
+  now: number
+): ParsedImport {
+  const result: ParsedImport = { records: [], issues: [] };
+  lines(request.content).forEach((row, i) => {
+    if (!row.trim()) return;
+    let raw: unknown;
+    try {
+      raw = JSON.parse(row);
+    } catch {
+      result.issues.push({ line: i + 1, message: "Invalid JSON" });
+      return;
+    }
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      result.issues.push({ line: i + 1, message: "Expected a JSON object" });
+      return;
+    }
+    const record = recordFromFields(
+      raw as Record<string, unknown>,
+      request,
+      exchangeIds,
+      now
+    );
+    if (typeof record === "string") {
+      result.issues.push({ line: i + 1, message: record });
+    } else {
+      result.records.push(record);
+    }
+  });
+  return result;
+}
+
+// Helper: Mean absolute difference between consecutive samples
+const meanJitter = (samples: number[]) =>
+  samples.length > 1
+    ? samples
+        .slice(1)
+        .reduce((sum, s, i) => sum + Math.abs(s - samples[i]), 0) /
+      (samples.length - 1)
+    : 0;
+
+/**
+ * ping output from Linux, macOS or Windows. Replies stamped with `ping -D`
+ * become one record per reply; otherwise the run is summarized into a
+ * single record with loss, jitter and percentiles over its replies.
+ */
+function parsePing(request: LatencyImportRequest, now: number): ParsedImport {
+  const result: ParsedImport = { records: [], issues: [] };
+  const replies: { timestamp?: number; rtt: number }[] = [];
+  let average: number | undefined;
+  let packetLoss: number | undefined;
+
+  lines(request.content).forEach((row) => {
+    const reply = row.match(/time[=<]([\d.]+)\s*ms/);
+    if (reply && /bytes from|Reply from/.test(row)) {
+      const stamp = row.match(/^\[(\d+(?:\.\d+)?)\]/);
+      replies.push({
+        timestamp: stamp ? Math.round(Number(stamp[1]) * 1000) : undefined,
+        rtt: Number(reply[1]),
+      });
+      return;
+    }
+    const loss = row.match(/([\d.]+)% (?:packet )?loss/);
+    if (loss) packetLoss = Number(loss[1]);
+    // Linux/macOS: "rtt min/avg/max/mdev = a/b/c/d ms"
+    const summary = row.match(/= [\d.]+\/([\d.]+)\/[\d.]+/);
+    if (summary) average = Number(summary[1]);
+    // Windows: "Minimum = 13ms, Maximum = 15ms, Average = 14ms"
+    const windowsAverage = row.match(/Average = ([\d.]+)ms/);
+    if (windowsAverage) average = Number(windowsAverage[1]);
+  });
+
+  const source = request.source as string;
+  const target = request.target as string;
+  if (replies.length > 0 && replies.every((r) => r.timestamp !== undefined)) {
+    replies.forEach((reply, i) =>
+      result.records.push({
+        timestamp: reply.timestamp as number,
+        source,
+        target,
+        latency: reply.rtt,
+        jitter: i > 0 ? Math.abs(reply.rtt - replies[i - 1].rtt) : 0,
+      })
+    );
+    return result;
+  }
+
+  const samples = replies.map((r) => r.rtt);
+  const latency =
+    average ??
+    (samples.length > 0
+      ? samples.reduce((sum, s) => sum + s, 0) / samples.length
+      : undefined);
+  if (latency === undefined) {
+    result.issues.push({ line: 1, message: "No ping replies found" });
+    return result;
+  }
+  result.records.push({
+    timestamp: request.timestamp ?? now,
+    source,
+    target,
+    latency,
+    packetLoss,
+    jitter: meanJitter(samples),
+    percentiles: samples.length > 1 ? computePercentiles(samples) : undefined,
+  });
+  return result;
+}
+
+// Helper: Last hop of an `mtr --json` report
+function parseMtrJson(
+  request: LatencyImportRequest,
+  now: number
+): ParsedImport {
+  const result: ParsedImport = { records: [], issues: [] };
+  let hubs: Record<string, unknown>[] | undefined;
+  try {
+    hubs = JSON.parse(request.content)?.report?.hubs;
+  } catch {
+    result.issues.push({ line: 1, message: "Invalid mtr JSON report" });
+    return result;
+  }
+  const last = Array.isArray(hubs) ? hubs[hubs.length - 1] : undefined;
+  const latency = optionalNumber(last?.Avg);
+  if (latency === undefined || !(latency >= 0)) {
+    result.issues.push({ line: 1, message: "mtr report has no hops" });
+    return result;
+  }
+  const packetLoss = optionalNumber(last?.["Loss%"]);
+  const jitter = optionalNumber(last?.Javg ?? last?.StDev);
+  const issue = measurementIssue(packetLoss, jitter);
+  if (issue) {
+    result.issues.push({ line: 1, message: issue });
+    return result;
+  }
+  result.records.push({
+    timestamp: request.timestamp ?? now,
+    source: request.source as string,
+    target: request.target as string,
+    latency,
+    packetLoss,
+    jitter,
+  });
+  return result;
+}
+
+/**
+ * `mtr --report` text. The final hop is the destination: its Avg is the
+ * latency, Loss% the packet loss and Javg (or StDev) the jitter. Several
+ * reports appended to one file become one record each, timed by their
+ * `Start:` line.
+ */
+function parseMtr(request: LatencyImportRequest, now: number): ParsedImport {
+  if (request.content.trimStart().startsWith("{")) {
+    return parseMtrJson(request, now);
+  }
+  const result: ParsedImport = { records: [], issues: [] };
+  let start: number | undefined;
+  let columns: string[] = [];
+  let lastHop: { line: number; values: string[] } | null = null;
+
+  const flush = () => {
+    const hop = lastHop;
+    lastHop = null;
+    if (!hop) return;
+    if (hop.values.length < columns.length) {
+      result.issues.push({
+        line: hop.line,
+        message: `Hop has ${hop.values.length} of ${columns.length} columns`,
+      });
+      return;
+    }
+    const value = (column: string) => {
+      const raw = hop.values[columns.indexOf(column)];
+      return raw === undefined ? undefined : Number(raw.replace(/%$/, ""));
+    };
+    const latency = value("Avg");
+    const packetLoss = value("Loss%");
+    const jitter = value("Javg") ?? value("StDev");
+    const issue = measurementIssue(packetLoss, jitter);
+    if (latency === undefined || !(latency >= 0)) {
+      result.issues.push({ line: hop.line, message: "Hop has no Avg" });
+    } else if (issue) {
+      result.issues.push({ line: hop.line, message: issue });
+    } else {
+      result.records.push({
+        timestamp: start ?? request.timestamp ?? now,
+        source: request.source as string,
+        target: request.target as string,
+        latency,
+        packetLoss,
+        jitter,
+      });
+    }
+  };
+
+  lines(request.content).forEach((row, i) => {
+    const startLine = row.match(/^Start:\s*(.+)$/);
+    if (startLine) {
+      flush();
+      const parsed = Date.parse(startLine[1].trim());
+      start = isNaN(parsed) ? undefined : parsed;
+      return;
+    }
+    if (/^HOST:/.test(row)) {
+      flush();
+      // "HOST: name  Loss%  Snt  Last  Avg ..." - columns after the host
+      columns = row.trim().split(/\s+/).slice(2);
+      return;
+    }
+    const hop = row.match(/^\s*\d+\.(?:\|--)?\s+\S+\s+(.+)$/);
+    if (hop) lastHop = { line: i + 1, values: hop[1].trim().split(/\s+/) };
+  });
+  flush();
+
+  if (result.records.length === 0 && result.issues.length === 0) {
+    result.issues.push({ line: 1, message: "No mtr report found" });
+  }
+  return result;
+}
+
+const PARSERS: Record<
+  LatencyImportFormat,
+  (
+    request: LatencyImportRequest,
+    exchangeIds: Set<string>,
+    now: number
+  ) => ParsedImport
+> = {
+  csv: parseCsv,
+  ndjson: parseNdjson,
+  // The pair for mtr/ping output is checked before parsing
+  mtr: (request, _, now) => parseMtr(request, now),
+  ping: (request, _, now) => parsePing(request, now),
+};
+
+/**
+ * Parse an upload into latency records; validate the request first. Rows
+ * naming an exchange outside `exchangeIds` are skipped and reported, as
+ * is a pair given for mtr/ping output.
+ */
+export function parseLatencyImport(
+  request: LatencyImportRequest,
+  exchangeIds: Set<string>,
+  now: number = Date.now()
+): ParsedImport {
+  if (PAIRLESS_IMPORT_FORMATS.includes(request.format)) {
+    const unknown = [request.source, request.target].find(
+      (id) => !exchangeIds.has(id as string)
+    );
+    if (unknown) {
+      return {
+        records: [],
+        issues: [{ line: 0, message: `Unknown exchange "${unknown}"` }],
+      };
+    }
+  }
+  return PARSERS[request.format](request, exchangeIds, now);
+}
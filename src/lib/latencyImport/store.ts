@@ -0,0 +1,70 @@
+import { mkdir, readdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { LatencyImportDataset } from "@/types";
+import { ImportedRecord } from "./parsers";
+
+interface DatasetFile {
+  dataset: LatencyImportDataset;
+  records: ImportedRecord[];
+}
+
+// Each imported dataset is one JSON file: <LATENCY_IMPORT_DIR>/<id>.json
+const importDir = () =>
+  process.env.LATENCY_IMPORT_DIR ||
+  path.join(process.cwd(), ".data", "imports");
+
+const datasetPath = (id: string) => {
+  if (!/^[a-z0-9-]+$/.test(id)) throw new Error(`Invalid dataset id: ${id}`);
+  return path.join(importDir(), `${id}.json`);
+};
+
+async function readDatasetFile(id: string): Promise<DatasetFile | null> {
+  try {
+    return JSON.parse(await readFile(datasetPath(id), "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+// Helper: Dataset file names in the import directory
+const datasetFiles = async () =>
+  (await readdir(importDir()).catch(() => [] as string[])).filter((f) =>
+    f.endsWith(".json")
+  );
+
+// Imported datasets, newest first
+export async function listImportedDatasets(): Promise<LatencyImportDataset[]> {
+  const datasets = await Promise.all(
+    (await datasetFiles()).map((f) =>
+      readDatasetFile(f.slice(0, -".json".length))
+    )
+  );
+  return datasets
+    .filter((file): file is DatasetFile => !!file)
+    .map((file) => file.dataset)
+    .sort((a, b) => b.importedAt - a.importedAt);
+}
+
+// Counts stored datasets without reading them
+export const countImportedDatasets = async () => (await datasetFiles()).length;
+
+export const readImportedDataset = (id: string) =>
+  /^[a-z0-9-]+$/.test(id) ? readDatasetFile(id) : Promise.resolve(null);
+
+export async function saveImportedDataset(
+  dataset: LatencyImportDataset,
+  records: ImportedRecord[]
+): Promise<void> {
+  await mkdir(importDir(), { recursive: true });
+  await writeFile(
+    datasetPath(dataset.id),
+    JSON.stringify({ dataset, records })
+  );
+}
+
+// Returns false when there was no such dataset
+export async function deleteImportedDataset(id: string): Promise<boolean> {
+  if (!(await readImportedDataset(id))) return false;
+  await rm(datasetPath(id), { force: true });
+  return true;
+}
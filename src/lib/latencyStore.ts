@@ -0,0 +1,146 @@
+import {
+  ExchangeLocation,
+  FilterOptions,
+  LatencyConnection,
+  LatencyData,
+  LatencySnapshot,
+  MetricsData,
+  NetworkNode,
+  RadarLocation,
+} from "@/types";
+import {
+  CLOUD_REGIONS,
+  EXCHANGE_LOCATIONS,
+} from "@/constants/exchangeLocations";
+import {
+  filterExchangesByName,
+  filterExchangesByProvider,
+  toCloudRegionNode,
+} from "./exchangeData";
+import { averageUptime } from "./exchangeStatus/uptime";
+import {
+  fetchRadarLocation,
+  fetchRadarLocations,
+} from "./dataSources/radarSource";
+import {
+  isRadarLocationCode,
+  RADAR_TARGET,
+  RADAR_TARGET_NODE,
+  toInternetRegion,
+} from "./radar/locations";
+
+// Helper: Compute a selector once per snapshot, however many views read it
+const memoizeSelector = <T>(select: (snapshot: LatencySnapshot) => T) => {
+  const cache = new WeakMap<LatencySnapshot, T>();
+  return (snapshot: LatencySnapshot): T => {
+    if (!cache.has(snapshot)) cache.set(snapshot, select(snapshot));
+    return cache.get(snapshot) as T;
+  };
+};
+
+/**
+ * Nodes for the latency endpoints outside the exchange catalog: cloud
+ * regions (by CLOUD_REGIONS id), Radar countries and Cloudflare's edge.
+ * Country metadata comes from the location registry; countries missing
+ * there (e.g. from a replay file) are resolved through the API once and
+ * skipped if that fails.
+ */
+export async function synthesizeRegionNodes(
+  latencyData: LatencyData[],
+  catalog: ExchangeLocation[] = EXCHANGE_LOCATIONS
+): Promise<NetworkNode[]> {
+  const ids = new Set(latencyData.flatMap((d) => [d.source, d.target]));
+  // Avoid duplicates with real exchanges
+  catalog.forEach((e) => ids.delete(e.id));
+  const nodes: NetworkNode[] = CLOUD_REGIONS.filter((r) => ids.has(r.id)).map(
+    toCloudRegionNode
+  );
+  if (ids.has(RADAR_TARGET)) nodes.push(RADAR_TARGET_NODE);
+  const codes = Array.from(ids).filter(isRadarLocationCode);
+  if (codes.length === 0) return nodes;
+
+  const locations = await fetchRadarLocations()
+    .then((registry) => registry.locations)
+    .catch(() => [] as RadarLocation[]);
+  const known = new Map(locations.map((l) => [l.code, l]));
+  const resolved = await Promise.all(
+    codes.map((code) => known.get(code) ?? fetchRadarLocation(code))
+  );
+  const countries = resolved
+    .filter((l): l is RadarLocation => !!l)
+    .map(toInternetRegion);
+  return [...countries, ...nodes];
+}
+
+// Nodes left by the provider and exchange filters
+export const filterNodes = (
+  nodes: NetworkNode[],
+  filters: FilterOptions
+): NetworkNode[] =>
+  filterExchangesByName(
+    filterExchangesByProvider(nodes, filters.cloudProviders),
+    filters.exchanges
+  );
+
+// Connections between shown nodes within the latency range
+export const filterConnections = (
+  connections: LatencyConnection[],
+  nodes: NetworkNode[],
+  filters: FilterOptions
+): LatencyConnection[] => {
+  const shown = new Set(nodes.map((node) => node.id));
+  const { min, max } = filters.latencyRange;
+  return connections.filter(
+    (connection) =>
+      shown.has(connection.source.id) &&
+      shown.has(connection.target.id) &&
+      connection.latency >= min &&
+      connection.latency <= max
+  );
+};
+
+export const selectNodes = (snapshot: LatencySnapshot) => snapshot.nodes;
+
+export const selectExchanges = memoizeSelector((snapshot) =>
+  snapshot.nodes.filter(
+    (node): node is ExchangeLocation => node.kind === "exchange"
+  )
+);
+
+export const selectFilteredNodes = memoizeSelector((snapshot) =>
+  filterNodes(snapshot.nodes, snapshot.filters)
+);
+
+export const selectFilteredConnections = memoizeSelector((snapshot) =>
+  filterConnections(
+    snapshot.connections,
+    selectFilteredNodes(snapshot),
+    snapshot.filters
+  )
+);
+
+/**
+ * Dashboard metrics for what the filters leave on the map. Uptime is the
+ * rolling 24h uptime of the shown nodes from their status pages, falling
+ * back to the share of them online when none has a feed.
+ */
+export const selectShownMetrics = memoizeSelector((snapshot): MetricsData => {
+  const nodes = selectFilteredNodes(snapshot);
+  const connections = selectFilteredConnections(snapshot);
+  const onlineCount = nodes.filter((n) => n.status === "online").length;
+  const uptime =
+    averageUptime(
+      nodes.flatMap((n) => snapshot.statusReports.get(n.id) ?? [])
+    ) ?? (nodes.length > 0 ? (onlineCount / nodes.length) * 100 : 0);
+  return {
+    totalExchanges: nodes.length,
+    activeConnections: connections.length,
+    averageLatency:
+      connections.length > 0
+        ? connections.reduce((sum, c) => sum + c.latency, 0) /
+          connections.length
+        : 0,
+    uptime,
+    lastUpdated: snapshot.lastUpdated,
+  };
+});
@@ -1,6 +1,7 @@
 import {
   LatencyData,
   HistoricalLatencyData,
+  LatencyPercentiles,
   MetricsData,
   ExchangeLocation,
 } from "@/types";
@@ -30,7 +31,7 @@ const calculateBaseLatency = (
 };
 
 // Calculate distance between two coordinates using Haversine formula
-function getDistance(
+export function getDistance(
   lat1: number,
   lon1: number,
   lat2: number,
@@ -49,10 +50,22 @@ function getDistance(
   return R * c;
 }
 
-// Generate mock latency data
-export const generateMockLatencyData = (): LatencyData[] => {
+// Synthesize a right-skewed distribution around a median latency: tails
+// widen with jitter and, proportionally, with distance
+const generatePercentiles = (
+  median: number,
+  jitter: number
+): LatencyPercentiles => {
+  const p90 = median + jitter * 1.5 + median * (0.03 + Math.random() * 0.05);
+  const p99 = p90 + jitter * 2 + median * (0.05 + Math.random() * 0.1);
+  return { p50: median, p90, p99 };
+};
+
+// Generate mock latency data between every pair of catalogued exchanges
+export const generateMockLatencyData = (
+  exchanges: ExchangeLocation[] = EXCHANGE_LOCATIONS
+): LatencyData[] => {
   const data: LatencyData[] = [];
-  const exchanges = EXCHANGE_LOCATIONS;
 
   // Generate connections between exchanges
   for (let i = 0; i < exchanges.length; i++) {
@@ -75,6 +88,7 @@ export const generateMockLatencyData = (): LatencyData[] => {
       else if (currentLatency <= LATENCY_THRESHOLDS.good) quality = "good";
       else if (currentLatency <= LATENCY_THRESHOLDS.fair) quality = "fair";
 
+      const jitter = Math.random() * 2; // 0-2ms jitter
       data.push({
         id: `${source.id}-${target.id}`,
         source: source.id,
@@ -83,7 +97,8 @@ export const generateMockLatencyData = (): LatencyData[] => {
         timestamp: Date.now(),
         quality,
         packetLoss: Math.random() * 0.1, // 0-0.1% packet loss
-        jitter: Math.random() * 2, // 0-2ms jitter
+        jitter,
+        percentiles: generatePercentiles(currentLatency, jitter),
       });
     }
   }
@@ -136,6 +151,7 @@ export const generateHistoricalData = (
           latency,
           source,
           target,
+          percentiles: generatePercentiles(latency, Math.random() * 2),
         });
       }
     }
@@ -145,9 +161,11 @@ export const generateHistoricalData = (
 };
 
 // Generate mock metrics
-export const generateMockMetrics = (): MetricsData => {
+export const generateMockMetrics = (
+  exchanges: ExchangeLocation[] = EXCHANGE_LOCATIONS
+): MetricsData => {
   return {
-    totalExchanges: EXCHANGE_LOCATIONS.length,
+    totalExchanges: exchanges.length,
     activeConnections: Math.floor(Math.random() * 50) + 20,
     averageLatency: Math.random() * 30 + 15, // 15-45ms
     uptime: 99.5 + Math.random() * 0.5, // 99.5-100%
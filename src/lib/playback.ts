@@ -0,0 +1,73 @@
+import { HistoricalLatencyData, LatencyData, PlaybackFrame } from "@/types";
+import { classifyLatency } from "@/lib/exchangeData";
+
+export const PLAYBACK_MAX_FRAMES = 200;
+
+/**
+ * Turn stored history into replay frames over [from, to]. The window is cut
+ * into at most `maxFrames` buckets; each non-empty bucket becomes a frame
+ * holding the latest known sample of every pair as of the bucket's end, so
+ * pairs sampled at different times all stay on the map.
+ */
+export function buildPlaybackFrames(
+  history: HistoricalLatencyData[],
+  from: number,
+  to: number,
+  maxFrames: number = PLAYBACK_MAX_FRAMES
+): PlaybackFrame[] {
+  const sorted = history
+    .filter((d) => d.timestamp <= to)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const bucketMs = Math.max((to - from) / maxFrames, 1);
+  const latest = new Map<string, HistoricalLatencyData>();
+  const frames: PlaybackFrame[] = [];
+
+  // Helper: snapshot the carried-forward state as a frame
+  const pushFrame = (timestamp: number) =>
+    frames.push({
+      timestamp,
+      data: Array.from(latest.values()).map(
+        (d): LatencyData => ({
+          id: `${d.source}-${d.target}`,
+          source: d.source,
+          target: d.target,
+          latency: d.latency,
+          timestamp: d.timestamp,
+          quality: classifyLatency(d.latency),
+          percentiles: d.percentiles,
+        })
+      ),
+    });
+
+  let bucket = -1;
+  let bucketEnd = 0;
+  sorted.forEach((d) => {
+    if (d.timestamp >= from) {
+      const next = Math.floor((d.timestamp - from) / bucketMs);
+      if (next !== bucket && bucket >= 0) pushFrame(bucketEnd);
+      bucket = next;
+    }
+    latest.set(`${d.source}->${d.target}`, d);
+    bucketEnd = d.timestamp;
+  });
+  if (bucket >= 0) pushFrame(bucketEnd);
+
+  return frames;
+}
+
+// Index of the frame closest to a timestamp
+export const findFrameIndex = (
+  frames: PlaybackFrame[],
+  timestamp: number
+): number => {
+  let best = 0;
+  frames.forEach((frame, idx) => {
+    if (
+      Math.abs(frame.timestamp - timestamp) <
+      Math.abs(frames[best].timestamp - timestamp)
+    ) {
+      best = idx;
+    }
+  });
+  return best;
+};
@@ -0,0 +1,47 @@
+import { readFile } from "fs/promises";
+import { ProbeConfig, ProbeTarget } from "@/types";
+import { DEFAULT_PROBE_CONFIG } from "@/constants/probeTargets";
+
+const isValidTarget = (target: ProbeTarget): boolean => {
+  if (!target || typeof target.exchangeId !== "string") return false;
+  if (target.method === "http") return typeof target.url === "string";
+  if (target.method === "tcp")
+    return typeof target.host === "string" && typeof target.port === "number";
+  return false;
+};
+
+/**
+ * Load the probe configuration. A JSON file at PROBE_CONFIG_PATH overrides
+ * the defaults field by field; PROBE_ORIGIN overrides the vantage point.
+ */
+export async function loadProbeConfig(): Promise<ProbeConfig> {
+  let config: ProbeConfig = { ...DEFAULT_PROBE_CONFIG };
+  const path = process.env.PROBE_CONFIG_PATH;
+
+  if (path) {
+    const raw = JSON.parse(await readFile(path, "utf8"));
+    const targets: ProbeTarget[] = Array.isArray(raw.targets)
+      ? raw.targets
+      : config.targets;
+    const invalid = targets.filter((t) => !isValidTarget(t));
+    if (invalid.length > 0) {
+      throw new Error(
+        `Invalid probe targets in ${path}: ${invalid
+          .map((t) => t?.exchangeId ?? "<unknown>")
+          .join(", ")}`
+      );
+    }
+    config = {
+      origin: typeof raw.origin === "string" ? raw.origin : config.origin,
+      samples: Number(raw.samples) > 0 ? Number(raw.samples) : config.samples,
+      timeoutMs:
+        Number(raw.timeoutMs) > 0 ? Number(raw.timeoutMs) : config.timeoutMs,
+      targets,
+    };
+  }
+
+  if (process.env.PROBE_ORIGIN) {
+    config = { ...config, origin: process.env.PROBE_ORIGIN };
+  }
+  return config;
+}
@@ -0,0 +1,35 @@
+import { LatencyData, ProbeResult } from "@/types";
+import { classifyLatency } from "@/lib/exchangeData";
+
+export { loadProbeConfig } from "./config";
+export {
+  measureHttpHead,
+  measureTcpConnect,
+  probeTarget,
+  runProbes,
+} from "./runner";
+export {
+  getLastProbeTime,
+  getLatestProbeResults,
+  getProbeHistory,
+  recordProbeResults,
+} from "./store";
+
+// Convert a probe measurement into the LatencyData shape used by the map.
+// Fully failed probes are dropped: no RTT was measured.
+export const probeResultsToLatencyData = (
+  results: ProbeResult[]
+): LatencyData[] =>
+  results
+    .filter((r) => r.packetLoss < 100)
+    .map((r) => ({
+      id: `probe-${r.source}-${r.target}`,
+      source: r.source,
+      target: r.target,
+      latency: r.rtt,
+      timestamp: r.timestamp,
+      quality: classifyLatency(r.rtt),
+      packetLoss: r.packetLoss,
+      jitter: r.jitter,
+      percentiles: r.percentiles,
+    }));
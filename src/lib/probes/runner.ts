@@ -0,0 +1,115 @@
+import { connect } from "net";
+import { performance } from "perf_hooks";
+import { ProbeConfig, ProbeResult, ProbeTarget } from "@/types";
+import { computePercentiles } from "@/lib/statistics";
+
+// Time a single TCP handshake (SYN -> SYN/ACK) to host:port
+export function measureTcpConnect(
+  host: string,
+  port: number,
+  timeoutMs: number
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const start = performance.now();
+    const socket = connect({ host, port });
+    socket.setTimeout(timeoutMs);
+    socket.once("connect", () => {
+      const elapsed = performance.now() - start;
+      socket.destroy();
+      resolve(elapsed);
+    });
+    socket.once("timeout", () => {
+      socket.destroy();
+      reject(new Error(`TCP connect to ${host}:${port} timed out`));
+    });
+    socket.once("error", (err) => {
+      socket.destroy();
+      reject(err);
+    });
+  });
+}
+
+// Time an HTTP HEAD request until response headers arrive
+export async function measureHttpHead(
+  url: string,
+  timeoutMs: number
+): Promise<number> {
+  const start = performance.now();
+  const res = await fetch(url, {
+    method: "HEAD",
+    cache: "no-store",
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  const elapsed = performance.now() - start;
+  // Any response (even 4xx) proves the round trip; only 5xx means the venue is unhealthy
+  if (res.status >= 500) throw new Error(`HEAD ${url} returned ${res.status}`);
+  return elapsed;
+}
+
+const measureOnce = (target: ProbeTarget, timeoutMs: number) =>
+  target.method === "http"
+    ? measureHttpHead(target.url as string, timeoutMs)
+    : measureTcpConnect(
+        target.host as string,
+        target.port as number,
+        timeoutMs
+      );
+
+// Probe one target several times sequentially and summarize the samples
+export async function probeTarget(
+  origin: string,
+  target: ProbeTarget,
+  samples: number,
+  timeoutMs: number
+): Promise<ProbeResult> {
+  const timings: number[] = [];
+  let lastError: string | undefined;
+
+  for (let i = 0; i < samples; i++) {
+    try {
+      timings.push(await measureOnce(target, timeoutMs));
+    } catch (e) {
+      lastError = e instanceof Error ? e.message : String(e);
+    }
+  }
+
+  // Jitter as mean absolute difference between consecutive samples (RFC 3550 style)
+  let jitter = 0;
+  for (let i = 1; i < timings.length; i++) {
+    jitter += Math.abs(timings[i] - timings[i - 1]);
+  }
+  if (timings.length > 1) jitter /= timings.length - 1;
+  const percentiles = timings.length ? computePercentiles(timings) : undefined;
+
+  return {
+    source: origin,
+    target: target.exchangeId,
+    method: target.method,
+    rtt: percentiles?.p50 ?? 0,
+    min: timings.length ? Math.min(...timings) : 0,
+    max: timings.length ? Math.max(...timings) : 0,
+    percentiles,
+    jitter,
+    packetLoss: ((samples - timings.length) / samples) * 100,
+    samples,
+    timestamp: Date.now(),
+    error: timings.length === 0 ? lastError : undefined,
+  };
+}
+
+// Probe every configured target (except the origin itself) in parallel
+export async function runProbes(
+  config: ProbeConfig,
+  exchangeIds?: string[]
+): Promise<ProbeResult[]> {
+  const targets = config.targets.filter(
+    (t) =>
+      t.exchangeId !== config.origin &&
+      (!exchangeIds || exchangeIds.includes(t.exchangeId))
+  );
+  return Promise.all(
+    targets.map((t) =>
+      probeTarget(config.origin, t, config.samples, config.timeoutMs)
+    )
+  );
+}
@@ -0,0 +1,41 @@
+import { ProbeResult } from "@/types";
+import { processState } from "@/lib/processState";
+
+const MAX_HISTORY = 5000;
+
+// In-memory store of probe results, keyed by "source->target".
+// Results from remote probe agents land here too, building up the full mesh.
+const latestResults = processState(
+  "probeLatestResults",
+  () => new Map<string, ProbeResult>()
+);
+const history = processState("probeHistory", (): ProbeResult[] => []);
+
+const keyOf = (result: ProbeResult) => `${result.source}->${result.target}`;
+
+export function recordProbeResults(results: ProbeResult[]): void {
+  for (const result of results) {
+    latestResults.set(keyOf(result), result);
+    history.push(result);
+  }
+  if (history.length > MAX_HISTORY) {
+    history.splice(0, history.length - MAX_HISTORY);
+  }
+}
+
+export function getLatestProbeResults(): ProbeResult[] {
+  return Array.from(latestResults.values());
+}
+
+export function getProbeHistory(since?: number): ProbeResult[] {
+  return since ? history.filter((r) => r.timestamp >= since) : [...history];
+}
+
+// Latest timestamp among results measured from the given origin
+export function getLastProbeTime(origin: string): number {
+  let last = 0;
+  latestResults.forEach((r) => {
+    if (r.source === origin && r.timestamp > last) last = r.timestamp;
+  });
+  return last;
+}
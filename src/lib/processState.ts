@@ -0,0 +1,14 @@
+// Each route handler (and instrumentation) is bundled separately, so plain
+// module state would give every bundle its own copy. Server state that must
+// be shared - caches, write queues, live feeds - is kept here once per
+// process instead, keyed by name.
+const registry = globalThis as typeof globalThis & {
+  __latencyProcessState?: Map<string, unknown>;
+};
+
+// The process-wide value for `key`, created on first use
+export function processState<T>(key: string, create: () => T): T {
+  const states = (registry.__latencyProcessState ??= new Map());
+  if (!states.has(key)) states.set(key, create());
+  return states.get(key) as T;
+}
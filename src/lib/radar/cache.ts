@@ -0,0 +1,218 @@
+import {
+  RadarCacheStats,
+  RadarCacheStatus,
+  RadarDiagnostics,
+  RadarEndpoint,
+  RadarResponse,
+} from "@/types";
+import { processState } from "@/lib/processState";
+import { createTokenBucket, TokenBucket } from "./limiter";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// How long a reply is fresh, then how much longer it may be served stale
+// while a refresh runs in the background
+export const RADAR_CACHE_POLICIES: Record<
+  RadarEndpoint,
+  { ttlMs: number; staleMs: number }
+> = {
+  realtime: { ttlMs: MINUTE_MS, staleMs: 5 * MINUTE_MS },
+  // Daily aggregates over the last 30 days
+  historical: { ttlMs: HOUR_MS, staleMs: 6 * HOUR_MS },
+  // Location metadata is effectively static
+  location: { ttlMs: 24 * HOUR_MS, staleMs: 7 * 24 * HOUR_MS },
+};
+
+// Cloudflare allows 1200 API calls per 5 minutes per user; stay well below
+const rateLimitPerMinute = () =>
+  Number(process.env.RADAR_RATE_LIMIT_PER_MINUTE) > 0
+    ? Number(process.env.RADAR_RATE_LIMIT_PER_MINUTE)
+    : 120;
+
+const rateLimitBurst = () =>
+  Number(process.env.RADAR_RATE_LIMIT_BURST) > 0
+    ? Number(process.env.RADAR_RATE_LIMIT_BURST)
+    : 20;
+
+const MAX_ENTRIES = 500;
+
+interface CacheEntry {
+  endpoint: RadarEndpoint;
+  response: RadarResponse;
+  fetchedAt: number;
+}
+
+type Counters = Omit<
+  RadarCacheStats,
+  "ttlMs" | "staleMs" | "entries" | "hitRatio"
+>;
+
+const emptyCounters = (): Counters => ({
+  hits: 0,
+  staleHits: 0,
+  misses: 0,
+  coalesced: 0,
+  upstreamRequests: 0,
+  rateLimited: 0,
+  errors: 0,
+});
+
+const ENDPOINTS = Object.keys(RADAR_CACHE_POLICIES) as RadarEndpoint[];
+
+const newCounters = () =>
+  Object.fromEntries(
+    ENDPOINTS.map((endpoint) => [endpoint, emptyCounters()])
+  ) as Record<RadarEndpoint, Counters>;
+
+interface RadarCacheState {
+  entries: Map<string, CacheEntry>;
+  inflight: Map<string, Promise<RadarResponse>>;
+  limiter: TokenBucket;
+  counters: Record<RadarEndpoint, Counters>;
+  since: number;
+}
+
+// One cache and limiter for every route
+const state = processState<RadarCacheState>("radarCache", () => ({
+  entries: new Map(),
+  inflight: new Map(),
+  limiter: createTokenBucket(rateLimitBurst(), rateLimitPerMinute() / 60),
+  counters: newCounters(),
+  since: Date.now(),
+}));
+const { entries, inflight, limiter } = state;
+
+const RATE_LIMITED: RadarResponse = {
+  status: 429,
+  error: "Radar rate limit reached, try again shortly",
+};
+
+const isOk = (response: RadarResponse) =>
+  response.status >= 200 && response.status < 300;
+
+// Helper: Drop the oldest entries once the cache is full
+const evict = () => {
+  if (entries.size <= MAX_ENTRIES) return;
+  const oldest = Array.from(entries.entries())
+    .sort(([, a], [, b]) => a.fetchedAt - b.fetchedAt)
+    .slice(0, entries.size - MAX_ENTRIES);
+  oldest.forEach(([key]) => entries.delete(key));
+};
+
+// Helper: One upstream call per key at a time, paid for from the limiter.
+// Only successful replies are cached.
+function revalidate(
+  endpoint: RadarEndpoint,
+  key: string,
+  load: () => Promise<RadarResponse>
+): Promise<RadarResponse> {
+  const pending = inflight.get(key);
+  if (pending) return pending;
+  const stats = state.counters[endpoint];
+  if (!limiter.take()) {
+    stats.rateLimited++;
+    return Promise.resolve(RATE_LIMITED);
+  }
+
+  stats.upstreamRequests++;
+  const run = load()
+    .then((response) => {
+      if (isOk(response)) {
+        entries.set(key, { endpoint, response, fetchedAt: Date.now() });
+        evict();
+      } else {
+        stats.errors++;
+      }
+      return response;
+    })
+    .catch((e) => {
+      stats.errors++;
+      throw e;
+    })
+    .finally(() => inflight.delete(key));
+  inflight.set(key, run);
+  return run;
+}
+
+/**
+ * Serve a Radar request through the cache. Fresh entries are returned
+ * as-is; stale ones are returned immediately while a background refresh
+ * runs; misses wait for the upstream call, sharing it with any identical
+ * request already in flight. When the upstream call fails or is rate
+ * limited, an expired entry is still preferred over an error.
+ */
+export async function cachedRadarRequest(
+  endpoint: RadarEndpoint,
+  key: string,
+  load: () => Promise<RadarResponse>
+): Promise<{ response: RadarResponse; cache: RadarCacheStatus }> {
+  const { ttlMs, staleMs } = RADAR_CACHE_POLICIES[endpoint];
+  const stats = state.counters[endpoint];
+  const entry = entries.get(key);
+  const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+
+  if (entry && age < ttlMs) {
+    stats.hits++;
+    return { response: entry.response, cache: "hit" };
+  }
+  if (entry && age < ttlMs + staleMs) {
+    stats.staleHits++;
+    revalidate(endpoint, key, load).catch(() => undefined);
+    return { response: entry.response, cache: "stale" };
+  }
+
+  const pending = inflight.get(key);
+  if (pending) {
+    stats.coalesced++;
+    return { response: await pending, cache: "coalesced" };
+  }
+
+  stats.misses++;
+  try {
+    const response = await revalidate(endpoint, key, load);
+    if (!isOk(response) && entry) {
+      return { response: entry.response, cache: "stale" };
+    }
+    return { response, cache: "miss" };
+  } catch (e) {
+    if (entry) return { response: entry.response, cache: "stale" };
+    throw e;
+  }
+}
+
+// Cache and limiter state for the diagnostics route
+export function getRadarDiagnostics(): RadarDiagnostics {
+  const cached = Array.from(entries.values());
+  const endpoints = Object.fromEntries(
+    ENDPOINTS.map((endpoint) => {
+      const stats = state.counters[endpoint];
+      const saved = stats.hits + stats.staleHits + stats.coalesced;
+      const served = saved + stats.misses;
+      return [
+        endpoint,
+        {
+          ...RADAR_CACHE_POLICIES[endpoint],
+          entries: cached.filter((e) => e.endpoint === endpoint).length,
+          ...stats,
+          // Share of requests answered without a call of their own
+          hitRatio: served > 0 ? saved / served : 0,
+        },
+      ];
+    })
+  ) as Record<RadarEndpoint, RadarCacheStats>;
+
+  return {
+    since: state.since,
+    endpoints,
+    inflight: inflight.size,
+    limiter: limiter.snapshot(),
+  };
+}
+
+// Forget cached replies and start counting afresh
+export function resetRadarCache() {
+  entries.clear();
+  state.counters = newCounters();
+  state.since = Date.now();
+}
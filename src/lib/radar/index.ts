@@ -0,0 +1,233 @@
+import {
+  HistoricalLatencyData,
+  LatencyData,
+  RadarCacheStatus,
+  RadarEndpoint,
+  RadarLocation,
+  RadarLocationRegistry,
+  RadarResponse,
+} from "@/types";
+import { cachedRadarRequest } from "./cache";
+import { parseRadarQuality } from "./quality";
+import { parseRadarSeries } from "./series";
+import {
+  loadRadarLocationRegistry,
+  updateRadarLocationRegistry,
+} from "./registry";
+
+export {
+  getRadarDiagnostics,
+  RADAR_CACHE_POLICIES,
+  resetRadarCache,
+} from "./cache";
+export { createTokenBucket } from "./limiter";
+export {
+  DEFAULT_RADAR_LOCATIONS,
+  isRadarLocationCode,
+  normalizeRadarLocationCodes,
+  RADAR_TARGET,
+  validateRadarLocationCodes,
+} from "./locations";
+import { isRadarLocationCode, RADAR_TARGET } from "./locations";
+export { configuredRadarLocations } from "./registry";
+export { parseRadarQuality } from "./quality";
+export { parseRadarSeries } from "./series";
+
+const RADAR_API_BASE = "https://api.cloudflare.com/client/v4/radar";
+
+export const radarApiKey = () => process.env.CLOUDFLARE_API_KEY;
+
+const radarUrl = (endpoint: RadarEndpoint, location: string) => {
+  switch (endpoint) {
+    case "realtime":
+      return `${RADAR_API_BASE}/quality/speed/summary?location=${location}`;
+    case "historical":
+      return `${RADAR_API_BASE}/quality/iqi/timeseries_groups?location=${location}&metric=latency&aggInterval=1d&dateRange=30d`;
+    case "location":
+      return `${RADAR_API_BASE}/entities/locations/${location}`;
+  }
+};
+
+// Helper: Call Radar and wrap the reply, keeping upstream errors as data
+async function loadRadar(url: string, label: string): Promise<RadarResponse> {
+  const res = await fetch(url, {
+    headers: {
+      Authorization: `Bearer ${radarApiKey()}`,
+      "Content-Type": "application/json",
+    },
+  });
+  if (!res.ok) {
+    const text = await res.text();
+    console.error(`${label} error:`, url, res.status, text);
+    return {
+      status: res.status,
+      error: `${label} error: ${res.status}`,
+      details: text,
+    };
+  }
+  return { status: res.status, data: await res.json() };
+}
+
+/**
+ * Radar data for one location, served from the proxy cache. Identical
+ * concurrent requests share one upstream call, and upstream calls are
+ * rate limited across all clients.
+ */
+export function fetchRadar(
+  endpoint: RadarEndpoint,
+  location: string
+): Promise<{ response: RadarResponse; cache: RadarCacheStatus }> {
+  const code = location.toUpperCase();
+  const url = radarUrl(endpoint, code);
+  const label = endpoint === "location" ? "Radar Location API" : "Radar API";
+  return cachedRadarRequest(endpoint, `${endpoint}:${code}`, () =>
+    loadRadar(url, label)
+  );
+}
+
+// Helper: Pull the country out of Radar's /entities/locations reply
+const parseRadarLocation = (data: unknown): RadarLocation | null => {
+  const location = (
+    data as {
+      result?: {
+        location?: {
+          code?: string;
+          name?: string;
+          latitude?: string | number;
+          longitude?: string | number;
+        };
+      };
+    }
+  )?.result?.location;
+  const latitude = Number(location?.latitude);
+  const longitude = Number(location?.longitude);
+  if (!location?.code || !isFinite(latitude) || !isFinite(longitude)) {
+    return null;
+  }
+  return {
+    code: location.code.toUpperCase(),
+    name: location.name || location.code,
+    latitude,
+    longitude,
+    resolvedAt: Date.now(),
+  };
+};
+
+/**
+ * Metadata for one country: from the registry when it was resolved before,
+ * otherwise from Radar, then saved so it is only fetched once. When Radar
+ * can't describe the country the upstream error is returned instead.
+ */
+export async function resolveRadarLocation(
+  code: string
+): Promise<{ location: RadarLocation | null; response?: RadarResponse }> {
+  const upper = code.toUpperCase();
+  const registry = await loadRadarLocationRegistry();
+  const known = registry.locations.find((l) => l.code === upper);
+  if (known) return { location: known };
+  if (!radarApiKey()) {
+    return {
+      location: null,
+      response: {
+        status: 500,
+        error: "CLOUDFLARE_API_KEY is not set in environment variables.",
+      },
+    };
+  }
+
+  const { response } = await fetchRadar("location", upper);
+  if (response.error) return { location: null, response };
+  const location = parseRadarLocation(response.data);
+  if (!location) {
+    return {
+      location: null,
+      response: { status: 502, error: "Malformed Radar location response" },
+    };
+  }
+  await updateRadarLocationRegistry((current) => ({
+    ...current,
+    locations: [
+      ...current.locations.filter((l) => l.code !== location.code),
+      location,
+    ],
+  }));
+  return { location };
+}
+
+// Helper: Resolve what we can; countries Radar can't describe stay unresolved
+const resolveAll = (codes: string[]) =>
+  Promise.all(
+    codes.map((code) => resolveRadarLocation(code).catch(() => undefined))
+  );
+
+// The registry, after trying to resolve any monitored country not seen yet
+export async function loadRadarLocations(): Promise<RadarLocationRegistry> {
+  const registry = await loadRadarLocationRegistry();
+  if (registry.unresolved.length === 0) return registry;
+  await resolveAll(registry.unresolved);
+  return loadRadarLocationRegistry();
+}
+
+/**
+ * Replace the monitored countries, resolving new ones right away. Pass
+ * null to go back to the server config (RADAR_LOCATIONS).
+ */
+export async function saveMonitoredRadarLocations(
+  codes: string[] | null
+): Promise<RadarLocationRegistry> {
+  await updateRadarLocationRegistry((current) => ({
+    ...current,
+    monitored: codes ?? undefined,
+  }));
+  return loadRadarLocations();
+}
+
+/**
+ * Current latency for every monitored country, served from the proxy cache.
+ * Countries Radar fails for are left out; without an API key it's empty.
+ */
+export async function fetchRadarLatencyData(): Promise<LatencyData[]> {
+  if (!radarApiKey()) return [];
+  const { monitored } = await loadRadarLocations();
+  const now = Date.now();
+  const results = await Promise.all(
+    monitored.map(async (code) => {
+      try {
+        const { response } = await fetchRadar("realtime", code);
+        return response.error
+          ? null
+          : parseRadarQuality(response.data, code, now);
+      } catch {
+        return null;
+      }
+    })
+  );
+  return results.filter((d): d is LatencyData => d !== null);
+}
+
+/**
+ * Radar's own daily series for one country (or every monitored one), from
+ * the proxy cache. Best-effort: without an API key, or for countries Radar
+ * fails for, nothing is returned.
+ */
+export async function fetchRadarSeries(
+  source?: string,
+  target?: string
+): Promise<HistoricalLatencyData[]> {
+  if (!radarApiKey()) return [];
+  if (target && target !== RADAR_TARGET) return [];
+  const codes = source
+    ? [source].filter(isRadarLocationCode)
+    : (await loadRadarLocations()).monitored;
+  const series = await Promise.all(
+    codes.map(async (code) => {
+      try {
+        const { response } = await fetchRadar("historical", code);
+        return response.error ? [] : parseRadarSeries(response.data, code);
+      } catch {
+        return [];
+      }
+    })
+  );
+  return series.flat();
+}
@@ -0,0 +1,47 @@
+export interface TokenBucketState {
+  tokens: number;
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface TokenBucket {
+  // Spend one token; false when the bucket is empty
+  take: () => boolean;
+  snapshot: () => TokenBucketState;
+}
+
+/**
+ * Token bucket holding up to `capacity` tokens, refilled continuously at
+ * `refillPerSecond`. Bursts up to the capacity pass; sustained traffic is
+ * held to the refill rate.
+ */
+export const createTokenBucket = (
+  capacity: number,
+  refillPerSecond: number,
+  now: () => number = Date.now
+): TokenBucket => {
+  let tokens = capacity;
+  let refilledAt = now();
+
+  const refill = () => {
+    const time = now();
+    tokens = Math.min(
+      capacity,
+      tokens + ((time - refilledAt) / 1000) * refillPerSecond
+    );
+    refilledAt = time;
+  };
+
+  return {
+    take: () => {
+      refill();
+      if (tokens < 1) return false;
+      tokens -= 1;
+      return true;
+    },
+    snapshot: () => {
+      refill();
+      return { tokens: Math.floor(tokens), capacity, refillPerSecond };
+    },
+  };
+};
@@ -0,0 +1,54 @@
+import { InternetRegionNode, PopNode, RadarLocation } from "@/types";
+
+// Countries monitored until RADAR_LOCATIONS or the location picker says otherwise
+export const DEFAULT_RADAR_LOCATIONS = ["US", "GB", "DE", "SG", "JP", "IN"];
+
+// Radar measures every country against Cloudflare's network
+export const RADAR_TARGET = "Cloudflare";
+
+// Radar countries are ISO 3166 alpha-2 codes
+export const isRadarLocationCode = (code: unknown): code is string =>
+  typeof code === "string" && /^[A-Z]{2}$/i.test(code);
+
+// Returns an error message for an invalid list of codes, or null when valid
+export function validateRadarLocationCodes(codes: unknown): string | null {
+  if (!Array.isArray(codes)) return "Expected a list of country codes";
+  const invalid = codes.find((code) => !isRadarLocationCode(code));
+  if (invalid !== undefined)
+    return `Invalid country code: ${JSON.stringify(invalid)}`;
+  return null;
+}
+
+// Upper-cased and de-duplicated, keeping the given order
+export const normalizeRadarLocationCodes = (codes: string[]): string[] =>
+  Array.from(new Set(codes.map((code) => code.trim().toUpperCase())));
+
+// Map node for a Radar country
+export const toInternetRegion = (
+  location: RadarLocation
+): InternetRegionNode => ({
+  kind: "internet-region",
+  id: location.code,
+  name: location.code,
+  displayName: `Internet: ${location.name}`,
+  coordinates: {
+    latitude: location.latitude,
+    longitude: location.longitude,
+    altitude: 0,
+  },
+  status: "online",
+  countryCode: location.code,
+  country: location.name,
+});
+
+// Cloudflare's edge is anycast with no single location; pin it at its HQ
+export const RADAR_TARGET_NODE: PopNode = {
+  kind: "pop",
+  id: RADAR_TARGET,
+  name: RADAR_TARGET,
+  displayName: `${RADAR_TARGET} edge`,
+  coordinates: { latitude: 37.7749, longitude: -122.4194, altitude: 0 },
+  status: "online",
+  network: RADAR_TARGET,
+  city: "San Francisco",
+};
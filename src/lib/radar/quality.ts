@@ -0,0 +1,41 @@
+import { LatencyData } from "@/types";
+import { RADAR_TARGET } from "./locations";
+
+interface RadarQualitySummary {
+  latencyIdle?: string;
+  jitterIdle?: string;
+  packetLoss?: string;
+}
+
+/**
+ * A country's current latency to Cloudflare from Radar's
+ * quality/speed/summary reply.
+ */
+export function parseRadarQuality(
+  data: unknown,
+  locationCode: string,
+  timestamp: number
+): LatencyData {
+  const summary = (data as { result?: { summary_0?: RadarQualitySummary } })
+    ?.result?.summary_0;
+  if (!summary) throw new Error("Malformed Radar API response");
+  // A missing latency reads as 0 ms but poor quality
+  const latency = parseFloat(summary.latencyIdle ?? "");
+  return {
+    id: `cf-latency-${locationCode}`,
+    source: locationCode,
+    target: RADAR_TARGET,
+    latency: latency || 0,
+    timestamp,
+    quality:
+      latency < 50
+        ? "excellent"
+        : latency < 100
+        ? "good"
+        : latency < 200
+        ? "fair"
+        : "poor",
+    packetLoss: parseFloat(summary.packetLoss ?? "") || 0,
+    jitter: parseFloat(summary.jitterIdle ?? "") || 0,
+  };
+}
@@ -0,0 +1,61 @@
+import path from "path";
+import { RadarLocation, RadarLocationRegistry } from "@/types";
+import { createJsonFileStore } from "@/lib/jsonFileStore";
+import { processState } from "@/lib/processState";
+import {
+  DEFAULT_RADAR_LOCATIONS,
+  isRadarLocationCode,
+  normalizeRadarLocationCodes,
+} from "./locations";
+
+// What the registry file holds. `monitored` is only written once the set is
+// changed through the API; until then the server config decides.
+export interface RadarLocationRegistryFile {
+  monitored?: string[];
+  locations: RadarLocation[];
+}
+
+const registryPath = () =>
+  process.env.RADAR_LOCATIONS_PATH ||
+  path.join(process.cwd(), ".data", "radar-locations.json");
+
+// Comma-separated country codes, e.g. RADAR_LOCATIONS=US,DE,BR
+export const configuredRadarLocations = (): string[] => {
+  const codes = (process.env.RADAR_LOCATIONS ?? "")
+    .split(",")
+    .filter((code) => isRadarLocationCode(code.trim()));
+  return codes.length > 0
+    ? normalizeRadarLocationCodes(codes)
+    : DEFAULT_RADAR_LOCATIONS;
+};
+
+// Read from disk on every load, so hand edits to the file apply
+const store = processState("radarLocationStore", () =>
+  createJsonFileStore<RadarLocationRegistryFile>({
+    path: registryPath,
+    parse: (raw) => ({
+      monitored: Array.isArray(raw?.monitored) ? raw.monitored : undefined,
+      locations: Array.isArray(raw?.locations) ? raw.locations : [],
+    }),
+  })
+);
+
+const toRegistry = (file: RadarLocationRegistryFile): RadarLocationRegistry => {
+  const monitored = file.monitored ?? configuredRadarLocations();
+  const resolved = new Set(file.locations.map((l) => l.code));
+  return {
+    monitored,
+    locations: file.locations,
+    unresolved: monitored.filter((code) => !resolved.has(code)),
+    source: file.monitored ? "file" : "config",
+    path: registryPath(),
+  };
+};
+
+export const loadRadarLocationRegistry =
+  async (): Promise<RadarLocationRegistry> => toRegistry(await store.load());
+
+// Apply a change to the registry file, returning the registry it describes
+export const updateRadarLocationRegistry = async (
+  update: (current: RadarLocationRegistryFile) => RadarLocationRegistryFile
+): Promise<RadarLocationRegistry> => toRegistry(await store.update(update));
@@ -0,0 +1,52 @@
+import { HistoricalLatencyData } from "@/types";
+import { RADAR_TARGET } from "./locations";
+
+/**
+ * A country's daily latency from Radar's timeseries_groups reply. Radar has
+ * returned the series both as an array of points and as parallel
+ * timestamp/p50 arrays, so both are accepted.
+ */
+export function parseRadarSeries(
+  data: unknown,
+  locationCode: string
+): HistoricalLatencyData[] {
+  const serie = (data as { result?: { serie_0?: unknown } })?.result?.serie_0;
+  if (!serie) throw new Error("Malformed Radar historical API response");
+  // Handle both array and object (Cloudflare may return either)
+  if (Array.isArray(serie)) {
+    // Old format (should not happen now, but fallback)
+    return (serie as Array<{ timestamp: string; median: number }>).map(
+      (item) => ({
+        timestamp: new Date(item.timestamp).getTime(),
+        latency: item.median || 0,
+        source: locationCode,
+        target: RADAR_TARGET,
+      })
+    );
+  }
+  const { timestamps, p50 } = serie as {
+    timestamps?: unknown;
+    p50?: unknown;
+  };
+  if (!Array.isArray(timestamps) || !Array.isArray(p50)) {
+    throw new Error(
+      "Malformed Radar historical API response: unexpected format"
+    );
+  }
+  // New format: timestamps and p50 (median) arrays
+  const result: HistoricalLatencyData[] = [];
+  for (let i = 0; i < timestamps.length; i++) {
+    const ts = timestamps[i];
+    const median = p50[i];
+    if (ts && median !== undefined && median !== null) {
+      result.push({
+        timestamp: new Date(ts).getTime(),
+        latency: parseFloat(median),
+        percentiles: { p50: parseFloat(median) },
+        source: locationCode,
+        target: RADAR_TARGET,
+      });
+    }
+  }
+  return result;
+}
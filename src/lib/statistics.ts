@@ -0,0 +1,22 @@
+import { LatencyPercentiles } from "@/types";
+
+/**
+ * Percentile of an ascending-sorted array, linearly interpolated between
+ * the closest ranks. `p` is 0..100.
+ */
+export const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+export const computePercentiles = (values: number[]): LatencyPercentiles => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+  };
+};
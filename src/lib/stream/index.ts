@@ -0,0 +1,88 @@
+import { LatencyData, LatencyStreamSource } from "@/types";
+import { generateMockLatencyData } from "@/lib/mockApi";
+import {
+  getLatestProbeResults,
+  loadProbeConfig,
+  probeResultsToLatencyData,
+  recordProbeResults,
+  runProbes,
+} from "@/lib/probes";
+import { fetchRadarLatencyData } from "@/lib/radar";
+import { recordSnapshot } from "@/lib/timeseries";
+import { evaluateLatencyAlerts } from "@/lib/alerts";
+import { loadExchangeCatalog } from "@/lib/exchangeCatalog";
+import { processState } from "@/lib/processState";
+import { createLatencyFeed, LatencyFeed, LatencyProducer } from "./latencyFeed";
+
+export { createLatencyFeed, diffLatencyData } from "./latencyFeed";
+export type { LatencyFeed, LatencyFeedListener } from "./latencyFeed";
+
+export const STREAM_SOURCE_IDS: LatencyStreamSource[] = [
+  "radar",
+  "mock",
+  "probes",
+];
+
+const STREAM_PRODUCERS: Record<
+  LatencyStreamSource,
+  { producer: LatencyProducer; intervalMs: number }
+> = {
+  // Polls through the Radar proxy cache, so it shares upstream calls (and the
+  // rate limit) with /api/radar/latency
+  radar: {
+    producer: async () => {
+      const data = await fetchRadarLatencyData();
+      await recordSnapshot("radar", data);
+      await evaluateLatencyAlerts("radar", data);
+      return data;
+    },
+    intervalMs: 60000,
+  },
+  mock: {
+    producer: async () => {
+      const data = generateMockLatencyData(await loadExchangeCatalog());
+      await recordSnapshot("mock", data);
+      await evaluateLatencyAlerts("mock", data);
+      return data;
+    },
+    intervalMs: 5000,
+  },
+  probes: {
+    producer: async () => {
+      const fresh = await runProbes(await loadProbeConfig());
+      recordProbeResults(fresh);
+      const data = probeResultsToLatencyData(fresh);
+      await recordSnapshot("probes", data);
+      await evaluateLatencyAlerts("probes", data);
+      return probeResultsToLatencyData(getLatestProbeResults());
+    },
+    intervalMs: 30000,
+  },
+};
+
+// One feed per source, shared by all SSE and WebSocket subscribers
+const feeds = processState(
+  "latencyFeeds",
+  () => new Map<LatencyStreamSource, LatencyFeed>()
+);
+
+export const getLatencyFeed = (
+  source: LatencyStreamSource
+): LatencyFeed => {
+  let feed = feeds.get(source);
+  if (!feed) {
+    const { producer, intervalMs } = STREAM_PRODUCERS[source];
+    feed = createLatencyFeed(producer, intervalMs);
+    feeds.set(source, feed);
+  }
+  return feed;
+};
+
+// Latest data for a source: the feed's snapshot when it's running, else a fresh poll
+export const getCurrentLatencyData = async (
+  source: LatencyStreamSource
+): Promise<LatencyData[]> => {
+  const snapshot = getLatencyFeed(source).snapshot();
+  if (snapshot && snapshot.type === "snapshot") return snapshot.data;
+  return STREAM_PRODUCERS[source].producer();
+};
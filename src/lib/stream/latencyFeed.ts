@@ -0,0 +1,127 @@
+import { LatencyData, LatencyDelta, LatencyStreamEvent } from "@/types";
+
+const MAX_BUFFERED_EVENTS = 200;
+
+export type LatencyProducer = () => Promise<LatencyData[]>;
+export type LatencyFeedListener = (event: LatencyStreamEvent) => void;
+
+export interface LatencyFeed {
+  subscribe: (listener: LatencyFeedListener) => () => void;
+  // Events after lastEventId, or null when it can't be resumed (unknown epoch or evicted)
+  eventsSince: (lastEventId: string) => LatencyStreamEvent[] | null;
+  snapshot: () => LatencyStreamEvent | null;
+}
+
+const hasChanged = (prev: LatencyData, next: LatencyData) =>
+  prev.latency !== next.latency ||
+  prev.quality !== next.quality ||
+  prev.packetLoss !== next.packetLoss ||
+  prev.jitter !== next.jitter ||
+  prev.percentiles?.p90 !== next.percentiles?.p90 ||
+  prev.percentiles?.p99 !== next.percentiles?.p99;
+
+// Diff two snapshots by connection id
+export const diffLatencyData = (
+  previous: LatencyData[],
+  next: LatencyData[]
+): LatencyDelta => {
+  const prevById = new Map(previous.map((d) => [d.id, d]));
+  const nextIds = new Set(next.map((d) => d.id));
+  return {
+    upserts: next.filter((d) => {
+      const prev = prevById.get(d.id);
+      return !prev || hasChanged(prev, d);
+    }),
+    removed: previous.filter((d) => !nextIds.has(d.id)).map((d) => d.id),
+  };
+};
+
+/**
+ * A polling feed shared by every stream subscriber of one source. It polls
+ * the producer only while someone is subscribed, and keeps a short buffer of
+ * events so reconnecting clients can resume from their last event id.
+ */
+export const createLatencyFeed = (
+  producer: LatencyProducer,
+  intervalMs: number
+): LatencyFeed => {
+  // Event ids are "<epoch>-<seq>" so ids from a previous server run never match
+  const epoch = Date.now().toString(36);
+  const listeners = new Set<LatencyFeedListener>();
+  const buffer: LatencyStreamEvent[] = [];
+  let current: LatencyData[] | null = null;
+  let seq = 0;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let polling = false;
+
+  const emit = (event: LatencyStreamEvent) => {
+    buffer.push(event);
+    if (buffer.length > MAX_BUFFERED_EVENTS) buffer.shift();
+    listeners.forEach((listener) => listener(event));
+  };
+
+  const poll = async () => {
+    if (polling) return;
+    polling = true;
+    try {
+      const previous = current;
+      current = await producer();
+      if (previous === null) {
+        emit({
+          id: `${epoch}-${++seq}`,
+          type: "snapshot",
+          timestamp: Date.now(),
+          data: current,
+        });
+        return;
+      }
+      const delta = diffLatencyData(previous, current);
+      if (delta.upserts.length > 0 || delta.removed.length > 0) {
+        emit({
+          id: `${epoch}-${++seq}`,
+          type: "delta",
+          timestamp: Date.now(),
+          data: delta,
+        });
+      }
+    } catch (e) {
+      console.error("Latency feed producer failed:", e);
+    } finally {
+      polling = false;
+    }
+  };
+
+  return {
+    subscribe: (listener) => {
+      listeners.add(listener);
+      if (!timer) {
+        poll();
+        timer = setInterval(poll, intervalMs);
+      }
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && timer) {
+          clearInterval(timer);
+          timer = null;
+        }
+      };
+    },
+    eventsSince: (lastEventId) => {
+      const [eventEpoch, eventSeq] = lastEventId.split("-");
+      if (eventEpoch !== epoch) return null;
+      const since = parseInt(eventSeq);
+      const oldest = buffer[0] ? parseInt(buffer[0].id.split("-")[1]) : 0;
+      if (isNaN(since) || since < oldest - 1) return null;
+      return buffer.filter((e) => parseInt(e.id.split("-")[1]) > since);
+    },
+    snapshot: () =>
+      current === null
+        ? null
+        : {
+            id: `${epoch}-${seq}`,
+            type: "snapshot",
+            timestamp: Date.now(),
+            data: current,
+          },
+  };
+};
@@ -0,0 +1,197 @@
+import { WebSocket, WebSocketServer } from "ws";
+import {
+  LatencyData,
+  LatencySocketClientMessage,
+  LatencySocketServerMessage,
+  LatencyStreamEvent,
+  LatencyStreamSource,
+  LatencySubscription,
+} from "@/types";
+import { processState } from "@/lib/processState";
+import { getLatencyFeed, STREAM_SOURCE_IDS } from "./index";
+import { isValidSubscription, matchesSubscription } from "./subscription";
+
+interface ClientState {
+  socket: WebSocket;
+  source: LatencyStreamSource;
+  subscription: LatencySubscription | null;
+  // Connection ids this client currently holds, so removals can be targeted
+  sentIds: Set<string>;
+  unsubscribeFeed: (() => void) | null;
+}
+
+const send = (socket: WebSocket, message: LatencySocketServerMessage) => {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+};
+
+// Helper: Send the filtered current state, resetting the client's view
+function sendSnapshot(client: ClientState) {
+  const snapshot = getLatencyFeed(client.source).snapshot();
+  if (!snapshot || snapshot.type !== "snapshot" || !client.subscription) return;
+  const data = snapshot.data.filter((d) =>
+    matchesSubscription(d, client.subscription as LatencySubscription)
+  );
+  client.sentIds = new Set(data.map((d) => d.id));
+  send(client.socket, {
+    type: "snapshot",
+    id: snapshot.id,
+    timestamp: snapshot.timestamp,
+    data,
+  });
+}
+
+// Helper: Forward one feed event, narrowed to the client's subscription
+function forwardEvent(client: ClientState, event: LatencyStreamEvent) {
+  const subscription = client.subscription;
+  if (!subscription) return;
+
+  if (event.type === "snapshot") {
+    sendSnapshot(client);
+    return;
+  }
+
+  const upserts: LatencyData[] = [];
+  const removed: string[] = event.data.removed.filter((id) =>
+    client.sentIds.delete(id)
+  );
+  event.data.upserts.forEach((d) => {
+    if (matchesSubscription(d, subscription)) {
+      upserts.push(d);
+      client.sentIds.add(d.id);
+    } else if (client.sentIds.delete(d.id)) {
+      // Moved out of the subscription (e.g. left the latency range)
+      removed.push(d.id);
+    }
+  });
+
+  if (upserts.length > 0 || removed.length > 0) {
+    send(client.socket, {
+      type: "delta",
+      id: event.id,
+      timestamp: event.timestamp,
+      data: { upserts, removed },
+    });
+  }
+}
+
+// Helper: Anything parsed from the wire that can be dispatched on its type
+const isClientMessage = (value: unknown): value is LatencySocketClientMessage =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as { type?: unknown }).type === "string";
+
+function handleMessage(
+  client: ClientState,
+  message: LatencySocketClientMessage
+) {
+  switch (message.type) {
+    case "subscribe": {
+      if (!isValidSubscription(message.subscription)) {
+        send(client.socket, { type: "error", error: "Invalid subscription" });
+        return;
+      }
+      const source = message.source ?? client.source;
+      if (!STREAM_SOURCE_IDS.includes(source)) {
+        send(client.socket, { type: "error", error: "Invalid source" });
+        return;
+      }
+      if (source !== client.source && client.unsubscribeFeed) {
+        client.unsubscribeFeed();
+        client.unsubscribeFeed = null;
+      }
+      client.source = source;
+      client.subscription = message.subscription;
+      if (!client.unsubscribeFeed) {
+        client.unsubscribeFeed = getLatencyFeed(source).subscribe((event) =>
+          forwardEvent(client, event)
+        );
+      }
+      send(client.socket, {
+        type: "subscribed",
+        subscription: message.subscription,
+      });
+      sendSnapshot(client);
+      return;
+    }
+    case "unsubscribe":
+      client.unsubscribeFeed?.();
+      client.unsubscribeFeed = null;
+      client.subscription = null;
+      client.sentIds.clear();
+      send(client.socket, { type: "unsubscribed" });
+      return;
+    case "snapshot":
+      if (!client.subscription) {
+        send(client.socket, { type: "error", error: "Not subscribed" });
+        return;
+      }
+      sendSnapshot(client);
+      return;
+    default:
+      send(client.socket, { type: "error", error: "Unknown message type" });
+  }
+}
+
+const running = processState<{ server: WebSocketServer | null }>(
+  "latencySocketServer",
+  () => ({ server: null })
+);
+
+/**
+ * Start the latency WebSocket server (once per process). Clients subscribe
+ * with a filter set and only receive connections that match it.
+ */
+export function startLatencySocketServer(port: number): WebSocketServer {
+  if (running.server) return running.server;
+  const server = new WebSocketServer({ port });
+  running.server = server;
+
+  server.on("connection", (socket) => {
+    const client: ClientState = {
+      socket,
+      source: "mock",
+      subscription: null,
+      sentIds: new Set(),
+      unsubscribeFeed: null,
+    };
+
+    socket.on("message", (raw) => {
+      let message: unknown;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        message = null;
+      }
+      if (!isClientMessage(message)) {
+        send(socket, { type: "error", error: "Malformed message" });
+        return;
+      }
+      // One bad frame must never throw in the server process
+      try {
+        handleMessage(client, message);
+      } catch (error) {
+        console.error("Latency WebSocket message error:", error);
+        send(socket, { type: "error", error: "Invalid message" });
+      }
+    });
+
+    // Protocol errors (bad frames, oversized payloads) close the socket;
+    // without a listener they would be thrown in the server process
+    socket.on("error", (error) => {
+      console.error("Latency WebSocket client error:", error.message);
+    });
+
+    socket.on("close", () => {
+      client.unsubscribeFeed?.();
+      client.unsubscribeFeed = null;
+    });
+  });
+
+  server.on("error", (error) => {
+    console.error("Latency WebSocket server error:", error);
+  });
+
+  return server;
+}
@@ -0,0 +1,47 @@
+import { LatencyData, LatencySubscription } from "@/types";
+import { getExchangeCatalogSnapshot } from "@/lib/exchangeCatalog";
+
+// Helper: Does a node id match the subscription's exchange/provider filters?
+const nodeMatches = (id: string, subscription: LatencySubscription) => {
+  const exchange = getExchangeCatalogSnapshot().find((e) => e.id === id);
+  const exchangeMatch =
+    subscription.exchanges.length === 0 ||
+    subscription.exchanges.includes(id) ||
+    (!!exchange && subscription.exchanges.includes(exchange.name));
+  const providerMatch =
+    subscription.cloudProviders.length === 0 ||
+    (!!exchange?.cloudProvider &&
+      subscription.cloudProviders.includes(exchange.cloudProvider));
+  return exchangeMatch && providerMatch;
+};
+
+/**
+ * A connection matches when either endpoint matches, so the server never
+ * drops anything the client-side filters (which require both) would show.
+ */
+export const matchesSubscription = (
+  data: LatencyData,
+  subscription: LatencySubscription
+): boolean => {
+  const range = subscription.latencyRange;
+  if (range && (data.latency < range.min || data.latency > range.max))
+    return false;
+  return (
+    nodeMatches(data.source, subscription) ||
+    nodeMatches(data.target, subscription)
+  );
+};
+
+export const isValidSubscription = (
+  value: LatencySubscription
+): value is LatencySubscription =>
+  !!value &&
+  Array.isArray(value.exchanges) &&
+  value.exchanges.every((e) => typeof e === "string") &&
+  Array.isArray(value.cloudProviders) &&
+  value.cloudProviders.every((p) => ["AWS", "GCP", "Azure"].includes(p)) &&
+  (value.latencyRange === undefined ||
+    (typeof value.latencyRange === "object" &&
+      value.latencyRange !== null &&
+      typeof value.latencyRange.min === "number" &&
+      typeof value.latencyRange.max === "number"));
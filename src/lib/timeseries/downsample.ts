@@ -0,0 +1,122 @@
+import {
+  HistoricalLatencyData,
+  LatencyDistribution,
+  LatencyHistoryBucket,
+  LatencyPercentiles,
+} from "@/types";
+import { computePercentiles } from "@/lib/statistics";
+
+// The fields aggregation needs; stored records and history points both fit
+type LatencySample = Pick<
+  HistoricalLatencyData,
+  "timestamp" | "source" | "target" | "latency" | "percentiles"
+>;
+
+type SampleSummary = Omit<LatencyHistoryBucket, "timestamp">;
+
+const bucketStart = (timestamp: number, bucketMs: number) =>
+  Math.floor(timestamp / bucketMs) * bucketMs;
+
+// Helper: Group samples by key, keeping first-seen order
+const groupSamples = <T extends LatencySample>(
+  samples: T[],
+  keyOf: (sample: T) => string
+): T[][] => {
+  const groups = new Map<string, T[]>();
+  samples.forEach((s) => {
+    const key = keyOf(s);
+    const group = groups.get(key);
+    if (group) group.push(s);
+    else groups.set(key, [s]);
+  });
+  return Array.from(groups.values());
+};
+
+// Helper: count/min/avg/max and p50/p90/p99 over some samples. A lone
+// sample that carries its own percentiles (e.g. a Radar daily median)
+// keeps them.
+const summarizeSamples = (samples: LatencySample[]): SampleSummary => {
+  const latencies = samples.map((s) => s.latency);
+  const percentiles: LatencyPercentiles =
+    samples.length === 1 && samples[0].percentiles
+      ? samples[0].percentiles
+      : computePercentiles(latencies);
+  return {
+    count: latencies.length,
+    min: latencies.reduce((min, v) => Math.min(min, v), Infinity),
+    avg: latencies.reduce((sum, v) => sum + v, 0) / latencies.length,
+    max: latencies.reduce((max, v) => Math.max(max, v), -Infinity),
+    percentiles,
+  };
+};
+
+/**
+ * Average records into fixed-size time buckets per source/target pair, with
+ * p50/p90/p99 over the bucket's samples. A bucket holding a single record
+ * keeps that record's own percentiles when it has them. Each output point is
+ * stamped with its bucket's start time.
+ */
+export const downsampleRecords = (
+  records: LatencySample[],
+  bucketMs: number
+): HistoricalLatencyData[] =>
+  groupSamples(
+    records,
+    (r) => `${r.source}|${r.target}|${bucketStart(r.timestamp, bucketMs)}`
+  )
+    .map((bucket) => {
+      const { avg, percentiles } = summarizeSamples(bucket);
+      return {
+        timestamp: bucketStart(bucket[0].timestamp, bucketMs),
+        latency: avg,
+        source: bucket[0].source,
+        target: bucket[0].target,
+        percentiles,
+      };
+    })
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+/**
+ * Summarize every pair's samples together per time bucket. Buckets are
+ * aligned to multiples of the bucket size, so summaries for different pairs
+ * line up; empty buckets are left out.
+ */
+export const summarizeBuckets = (
+  records: LatencySample[],
+  bucketMs: number
+): LatencyHistoryBucket[] =>
+  groupSamples(records, (r) => String(bucketStart(r.timestamp, bucketMs)))
+    .map((bucket) => ({
+      timestamp: bucketStart(bucket[0].timestamp, bucketMs),
+      ...summarizeSamples(bucket),
+    }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+// Summarize each pair's samples into a single distribution
+export const summarizeRecords = (
+  records: LatencySample[]
+): LatencyDistribution[] =>
+  groupSamples(records, (r) => `${r.source}|${r.target}`).map(
+    (pairRecords) => ({
+      source: pairRecords[0].source,
+      target: pairRecords[0].target,
+      ...summarizeSamples(pairRecords),
+    })
+  );
+
+// Parse "5m", "1h", "1d" (or plain milliseconds) into a bucket size
+export const parseBucket = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const match = /^(\d+)(ms|s|m|h|d)?$/.exec(value.trim());
+  if (!match) return undefined;
+  const amount = parseInt(match[1]);
+  const unit = match[2] ?? "ms";
+  const multipliers: Record<string, number> = {
+    ms: 1,
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+  };
+  return amount > 0 ? amount * multipliers[unit] : undefined;
+};
@@ -0,0 +1,79 @@
+import {
+  HistoricalLatencyData,
+  HistoryBucketSize,
+  LatencyHistory,
+  LatencyHistoryQuery,
+  TimeWindow,
+} from "@/types";
+import { summarizeBuckets } from "./downsample";
+
+export const HISTORY_BUCKET_MS: Record<HistoryBucketSize, number> = {
+  "1m": 60 * 1000,
+  "5m": 5 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+  "1d": 24 * 60 * 60 * 1000,
+};
+
+const BUCKET_SIZES = Object.keys(HISTORY_BUCKET_MS) as HistoryBucketSize[];
+
+// Upper bound on buckets per query, so a wide range can't ask for 1m buckets
+export const MAX_HISTORY_BUCKETS = 5000;
+
+// Buckets a chart aims for; the finest size that stays under this is used
+const TARGET_CHART_BUCKETS = 400;
+
+// Finest bucket size that keeps a window to a readable number of points
+export const pickHistoryBucket = (from: number, to: number) =>
+  BUCKET_SIZES.find(
+    (size) => (to - from) / HISTORY_BUCKET_MS[size] <= TARGET_CHART_BUCKETS
+  ) ?? "1d";
+
+// Returns an error message for a malformed window or one that would need
+// too many buckets, or null when valid
+export function validateBucketWindow(
+  window: TimeWindow,
+  bucketMs: number
+): string | null {
+  if (!isFinite(window.from) || !isFinite(window.to))
+    return "from/to must be millisecond timestamps";
+  if (window.from >= window.to) return "from must be before to";
+  const buckets = (window.to - window.from) / bucketMs;
+  return buckets > MAX_HISTORY_BUCKETS
+    ? `Range spans ${Math.ceil(buckets)} buckets; use a larger bucket (max ${MAX_HISTORY_BUCKETS})`
+    : null;
+}
+
+/**
+ * Aggregate samples into the query's buckets, keeping only its pair (when
+ * given) and window.
+ */
+export function aggregateHistory(
+  samples: HistoricalLatencyData[],
+  query: LatencyHistoryQuery
+): LatencyHistory {
+  return {
+    ...query,
+    buckets: summarizeBuckets(
+      samples.filter(
+        (s) =>
+          s.timestamp >= query.from &&
+          s.timestamp <= query.to &&
+          (!query.source || s.source === query.source) &&
+          (!query.target || s.target === query.target)
+      ),
+      HISTORY_BUCKET_MS[query.bucket]
+    ),
+  };
+}
+
+// Buckets as plain history points (average latency), for chart helpers
+export const historyToPoints = (
+  history: LatencyHistory
+): HistoricalLatencyData[] =>
+  history.buckets.map((b) => ({
+    timestamp: b.timestamp,
+    latency: b.avg,
+    source: history.source ?? "all",
+    target: history.target ?? "all",
+    percentiles: b.percentiles,
+  }));
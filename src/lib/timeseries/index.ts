@@ -0,0 +1,77 @@
+import {
+  HistoricalLatencyData,
+  HistoricalQuery,
+  LatencyDistribution,
+  LatencyHistoryBucket,
+} from "@/types";
+import { readRecords } from "./store";
+import {
+  downsampleRecords,
+  summarizeBuckets,
+  summarizeRecords,
+} from "./downsample";
+export {
+  aggregateHistory,
+  HISTORY_BUCKET_MS,
+  pickHistoryBucket,
+  validateBucketWindow,
+} from "./history";
+
+export {
+  appendRecords,
+  hasFeedMarker,
+  isValidFeedName,
+  readRecordDays,
+  readRecords,
+  recordSnapshot,
+  toStoredRecords,
+  validateLatencyRecords,
+} from "./store";
+export { ensureMockHistory } from "./seed";
+export {
+  downsampleRecords,
+  parseBucket,
+  summarizeRecords,
+} from "./downsample";
+
+// Range query over stored snapshots, downsampled when a bucket size is given
+export async function queryHistory(
+  query: HistoricalQuery
+): Promise<HistoricalLatencyData[]> {
+  const records = await readRecords(query);
+  if (query.bucketMs) return downsampleRecords(records, query.bucketMs);
+  return records.map((r) => ({
+    timestamp: r.timestamp,
+    latency: r.latency,
+    source: r.source,
+    target: r.target,
+    percentiles: r.percentiles,
+  }));
+}
+
+// Per-pair min/avg/max and percentiles over the queried range
+export async function queryDistribution(
+  query: HistoricalQuery
+): Promise<LatencyDistribution[]> {
+  return summarizeRecords(await readRecords(query));
+}
+
+/**
+ * Min/avg/max and percentiles per time bucket, over every queried pair
+ * together. `extra` adds samples kept elsewhere (e.g. Radar's own daily
+ * series); those outside the query's pair and range are left out.
+ */
+export async function queryBuckets(
+  query: HistoricalQuery & { bucketMs: number },
+  extra: HistoricalLatencyData[] = []
+): Promise<LatencyHistoryBucket[]> {
+  const records = await readRecords(query);
+  const matching = extra.filter(
+    (s) =>
+      s.timestamp >= (query.from ?? -Infinity) &&
+      s.timestamp <= (query.to ?? Infinity) &&
+      (!query.source || s.source === query.source) &&
+      (!query.target || s.target === query.target)
+  );
+  return summarizeBuckets([...records, ...matching], query.bucketMs);
+}
@@ -0,0 +1,32 @@
+import { generateHistoricalData } from "@/lib/mockApi";
+import { processState } from "@/lib/processState";
+import { appendRecords, hasFeedMarker, setFeedMarker } from "./store";
+
+const SEED_MARKER = "seeded";
+
+// Shared by every route, so concurrent first requests seed only once
+const seeding = processState<{ seed: Promise<void> | null }>(
+  "mockHistorySeed",
+  () => ({ seed: null })
+);
+
+/**
+ * Seed the mock feed once with 30 days of generated history so it stays
+ * stable across calls. A marker file records that it ran: live snapshots are
+ * usually recorded before the first history query, so existing records
+ * don't mean the feed was seeded.
+ */
+export function ensureMockHistory(): Promise<void> {
+  seeding.seed ??= (async () => {
+    if (await hasFeedMarker("mock", SEED_MARKER)) return;
+    await appendRecords(
+      generateHistoricalData(30).map((d) => ({ feed: "mock", ...d }))
+    );
+    await setFeedMarker("mock", SEED_MARKER);
+  })().catch((e) => {
+    // Try again on the next call
+    seeding.seed = null;
+    throw e;
+  });
+  return seeding.seed;
+}
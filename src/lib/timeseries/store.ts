@@ -0,0 +1,210 @@
+import { createReadStream } from "fs";
+import { access, appendFile, mkdir, readdir, rm, writeFile } from "fs/promises";
+import path from "path";
+import { createInterface } from "readline";
+import { HistoricalQuery, LatencyData, StoredLatencyRecord } from "@/types";
+import { createUpdateQueue } from "@/lib/jsonFileStore";
+import { processState } from "@/lib/processState";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Snapshots are appended as NDJSON, one file per feed per UTC day:
+//   <LATENCY_DATA_DIR>/<feed>/<YYYY-MM-DD>.ndjson
+const dataDir = () =>
+  process.env.LATENCY_DATA_DIR || path.join(process.cwd(), ".data", "latency");
+
+const retentionDays = () =>
+  Number(process.env.LATENCY_RETENTION_DAYS) > 0
+    ? Number(process.env.LATENCY_RETENTION_DAYS)
+    : 90;
+
+const dayKey = (timestamp: number) =>
+  new Date(timestamp).toISOString().slice(0, 10);
+
+// Feed names become directory names
+export const isValidFeedName = (feed: string) => /^[a-z0-9_-]+$/i.test(feed);
+
+const feedDir = (feed: string) => {
+  if (!isValidFeedName(feed)) throw new Error(`Invalid feed: ${feed}`);
+  return path.join(dataDir(), feed);
+};
+
+// Serialize writes so concurrent snapshots never interleave lines
+const enqueueWrite = processState("latencyWriteQueue", createUpdateQueue);
+const lastPruned = processState(
+  "latencyLastPruned",
+  () => new Map<string, string>()
+);
+
+async function pruneFeed(feed: string, today: string) {
+  if (lastPruned.get(feed) === today) return;
+  lastPruned.set(feed, today);
+  const cutoff = dayKey(Date.now() - retentionDays() * DAY_MS);
+  const files = await readdir(feedDir(feed)).catch(() => [] as string[]);
+  await Promise.all(
+    files
+      .filter((f) => f.endsWith(".ndjson") && f.slice(0, 10) < cutoff)
+      .map((f) => rm(path.join(feedDir(feed), f), { force: true }))
+  );
+}
+
+// Append records (grouped by day) to the feed's files. Rejects when the write
+// fails; later writes still go ahead.
+export function appendRecords(records: StoredLatencyRecord[]): Promise<void> {
+  const byFile = new Map<string, StoredLatencyRecord[]>();
+  records.forEach((r) => {
+    const file = path.join(feedDir(r.feed), `${dayKey(r.timestamp)}.ndjson`);
+    byFile.set(file, [...(byFile.get(file) ?? []), r]);
+  });
+
+  return enqueueWrite(async () => {
+    for (const [file, fileRecords] of Array.from(byFile.entries())) {
+      await mkdir(path.dirname(file), { recursive: true });
+      await appendFile(
+        file,
+        fileRecords.map((r) => JSON.stringify(r)).join("\n") + "\n"
+      );
+    }
+    const feeds = new Set(records.map((r) => r.feed));
+    for (const feed of Array.from(feeds)) {
+      await pruneFeed(feed, dayKey(Date.now()));
+    }
+  });
+}
+
+// Returns an error message for latency data that can't be recorded, or null
+export function validateLatencyRecords(data: unknown[]): string | null {
+  const index = data.findIndex((value) => {
+    const d = value as Partial<LatencyData> | null;
+    return (
+      !d ||
+      typeof d.source !== "string" ||
+      !d.source ||
+      typeof d.target !== "string" ||
+      !d.target ||
+      typeof d.latency !== "number" ||
+      !isFinite(d.latency) ||
+      d.latency < 0 ||
+      typeof d.timestamp !== "number" ||
+      !isFinite(d.timestamp) ||
+      (d.packetLoss !== undefined &&
+        !(d.packetLoss >= 0 && d.packetLoss <= 100)) ||
+      (d.jitter !== undefined && !(d.jitter >= 0))
+    );
+  });
+  return index === -1
+    ? null
+    : `Record ${index} needs source, target, latency >= 0 and a timestamp`;
+}
+
+export const toStoredRecords = (
+  feed: string,
+  data: LatencyData[]
+): StoredLatencyRecord[] =>
+  data.map((d) => ({
+    feed,
+    timestamp: d.timestamp,
+    source: d.source,
+    target: d.target,
+    latency: d.latency,
+    packetLoss: d.packetLoss,
+    jitter: d.jitter,
+    percentiles: d.percentiles,
+  }));
+
+// Minimum spacing between recorded snapshots per feed (0 records every one)
+const recordIntervalMs = () =>
+  process.env.LATENCY_RECORD_INTERVAL_MS !== undefined
+    ? Number(process.env.LATENCY_RECORD_INTERVAL_MS)
+    : 60 * 1000;
+const lastRecorded = processState(
+  "latencyLastRecorded",
+  () => new Map<string, number>()
+);
+
+// Record one snapshot of current latency data for a feed (throttled)
+export function recordSnapshot(
+  feed: string,
+  data: LatencyData[]
+): Promise<void> {
+  const now = Date.now();
+  if (data.length === 0) return Promise.resolve();
+  if (now - (lastRecorded.get(feed) ?? 0) < recordIntervalMs()) {
+    return Promise.resolve();
+  }
+  lastRecorded.set(feed, now);
+  // Best-effort: live feeds keep serving when the disk write fails
+  return appendRecords(toStoredRecords(feed, data)).catch((e) =>
+    console.error("Failed to append latency records:", e)
+  );
+}
+
+// Marker files (dot-prefixed, never read as records) flag one-off setup of a
+// feed such as seeding
+const markerPath = (feed: string, name: string) =>
+  path.join(feedDir(feed), `.${name}`);
+
+export const hasFeedMarker = (feed: string, name: string): Promise<boolean> =>
+  access(markerPath(feed, name)).then(
+    () => true,
+    () => false
+  );
+
+export async function setFeedMarker(feed: string, name: string) {
+  await mkdir(feedDir(feed), { recursive: true });
+  await writeFile(markerPath(feed, name), new Date().toISOString());
+}
+
+const matchesQuery = (record: StoredLatencyRecord, query: HistoricalQuery) =>
+  (!query.source || record.source === query.source) &&
+  (!query.target || record.target === query.target) &&
+  (query.from === undefined || record.timestamp >= query.from) &&
+  (query.to === undefined || record.timestamp <= query.to);
+
+/**
+ * Read the records matching the query one UTC day at a time, oldest first,
+ * so a long range never has to be held in memory at once. Only the day
+ * files that overlap the requested range are opened.
+ */
+export async function* readRecordDays(
+  query: HistoricalQuery
+): AsyncGenerator<StoredLatencyRecord[]> {
+  const dir = feedDir(query.feed);
+  const fromDay = query.from !== undefined ? dayKey(query.from) : "";
+  const toDay = query.to !== undefined ? dayKey(query.to) : "9999-12-31";
+  const files = (await readdir(dir).catch(() => [] as string[]))
+    .filter((f) => f.endsWith(".ndjson"))
+    .filter((f) => f.slice(0, 10) >= fromDay && f.slice(0, 10) <= toDay)
+    .sort();
+
+  for (const file of files) {
+    const records: StoredLatencyRecord[] = [];
+    const lines = createInterface({
+      input: createReadStream(path.join(dir, file)),
+      crlfDelay: Infinity,
+    });
+    for await (const line of lines) {
+      if (!line) continue;
+      try {
+        const record = JSON.parse(line) as StoredLatencyRecord;
+        if (matchesQuery(record, query)) records.push(record);
+      } catch {
+        // Skip a torn line (e.g. from a crash mid-append)
+      }
+    }
+    if (records.length === 0) continue;
+    // Appends are mostly in time order, but seeding can land behind live data
+    yield records.sort((a, b) => a.timestamp - b.timestamp);
+  }
+}
+
+// Read raw records matching the query, oldest first
+export async function readRecords(
+  query: HistoricalQuery
+): Promise<StoredLatencyRecord[]> {
+  let records: StoredLatencyRecord[] = [];
+  for await (const day of readRecordDays(query)) {
+    records = records.concat(day);
+  }
+  return records;
+}
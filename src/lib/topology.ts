@@ -0,0 +1,174 @@
+import { LatencyConnection, LatencyPath, PathHop } from "@/types";
+
+interface GraphEdge {
+  connectionId: string;
+  to: string;
+  latency: number;
+}
+
+export type LatencyGraph = Map<string, GraphEdge[]>;
+
+// Build an undirected adjacency list; RTTs are symmetric. When several
+// connections join the same pair, only the fastest is kept.
+export const buildLatencyGraph = (
+  connections: LatencyConnection[]
+): LatencyGraph => {
+  const graph: LatencyGraph = new Map();
+  const addEdge = (from: string, edge: GraphEdge) => {
+    const edges = graph.get(from) ?? [];
+    const existing = edges.find((e) => e.to === edge.to);
+    if (!existing) edges.push(edge);
+    else if (edge.latency < existing.latency) Object.assign(existing, edge);
+    graph.set(from, edges);
+  };
+
+  connections.forEach((conn) => {
+    if (conn.source.id === conn.target.id || !(conn.latency >= 0)) return;
+    addEdge(conn.source.id, {
+      connectionId: conn.id,
+      to: conn.target.id,
+      latency: conn.latency,
+    });
+    addEdge(conn.target.id, {
+      connectionId: conn.id,
+      to: conn.source.id,
+      latency: conn.latency,
+    });
+  });
+  return graph;
+};
+
+const edgeKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+/**
+ * Dijkstra's algorithm. Nodes in `blockedNodes` and edges in `blockedEdges`
+ * (keyed by edgeKey) are skipped, which Yen's algorithm relies on.
+ */
+export const shortestPath = (
+  graph: LatencyGraph,
+  from: string,
+  to: string,
+  blockedNodes: Set<string> = new Set(),
+  blockedEdges: Set<string> = new Set()
+): LatencyPath | null => {
+  if (!graph.has(from) || !graph.has(to)) return null;
+
+  const distance = new Map<string, number>([[from, 0]]);
+  const previous = new Map<string, { node: string; edge: GraphEdge }>();
+  const visited = new Set<string>();
+
+  // The graph is a few dozen nodes, so a linear scan beats a heap here
+  while (true) {
+    let current: string | null = null;
+    distance.forEach((d, node) => {
+      if (
+        !visited.has(node) &&
+        (current === null || d < (distance.get(current) as number))
+      ) {
+        current = node;
+      }
+    });
+    if (current === null) return null;
+    const node: string = current;
+    if (node === to) break;
+    visited.add(node);
+
+    (graph.get(node) ?? []).forEach((edge) => {
+      if (
+        visited.has(edge.to) ||
+        blockedNodes.has(edge.to) ||
+        blockedEdges.has(edgeKey(node, edge.to))
+      )
+        return;
+      const candidate = (distance.get(node) as number) + edge.latency;
+      if (candidate < (distance.get(edge.to) ?? Infinity)) {
+        distance.set(edge.to, candidate);
+        previous.set(edge.to, { node, edge });
+      }
+    });
+  }
+
+  const hops: PathHop[] = [];
+  let node = to;
+  while (node !== from) {
+    const step = previous.get(node);
+    if (!step) return null;
+    hops.unshift({
+      connectionId: step.edge.connectionId,
+      from: step.node,
+      to: node,
+      latency: step.edge.latency,
+    });
+    node = step.node;
+  }
+  return toPath(from, hops);
+};
+
+const toPath = (from: string, hops: PathHop[]): LatencyPath => ({
+  nodes: [from, ...hops.map((h) => h.to)],
+  hops,
+  totalLatency: hops.reduce((sum, h) => sum + h.latency, 0),
+});
+
+const samePath = (a: LatencyPath, b: LatencyPath) =>
+  a.nodes.length === b.nodes.length &&
+  a.nodes.every((n, i) => n === b.nodes[i]);
+
+// Yen's algorithm: the k loopless paths with the lowest total latency
+export const kShortestPaths = (
+  graph: LatencyGraph,
+  from: string,
+  to: string,
+  k: number
+): LatencyPath[] => {
+  const first = shortestPath(graph, from, to);
+  if (!first) return [];
+  const paths: LatencyPath[] = [first];
+  const candidates: LatencyPath[] = [];
+
+  for (let i = 1; i < k; i++) {
+    const last = paths[i - 1];
+    for (let j = 0; j < last.nodes.length - 1; j++) {
+      const spurNode = last.nodes[j];
+      const rootHops = last.hops.slice(0, j);
+      const rootNodes = last.nodes.slice(0, j + 1);
+
+      // Block the next edge of every known path sharing this root
+      const blockedEdges = new Set<string>();
+      paths.forEach((p) => {
+        const sharesRoot = rootNodes.every((n, idx) => p.nodes[idx] === n);
+        if (sharesRoot && p.nodes[j + 1]) {
+          blockedEdges.add(edgeKey(p.nodes[j], p.nodes[j + 1]));
+        }
+      });
+      // Keep the spur path loopless by blocking the root's earlier nodes
+      const blockedNodes = new Set(rootNodes.slice(0, -1));
+
+      const spur = shortestPath(
+        graph,
+        spurNode,
+        to,
+        blockedNodes,
+        blockedEdges
+      );
+      if (!spur) continue;
+      const candidate = toPath(from, [...rootHops, ...spur.hops]);
+      if (![...paths, ...candidates].some((p) => samePath(p, candidate))) {
+        candidates.push(candidate);
+      }
+    }
+    if (candidates.length === 0) break;
+    candidates.sort((a, b) => a.totalLatency - b.totalLatency);
+    paths.push(candidates.shift() as LatencyPath);
+  }
+  return paths;
+};
+
+// Convenience wrapper over a connection list
+export const findFastestPaths = (
+  connections: LatencyConnection[],
+  from: string,
+  to: string,
+  k: number = 1
+): LatencyPath[] =>
+  kShortestPaths(buildLatencyGraph(connections), from, to, k);
@@ -0,0 +1,202 @@
+import {
+  CameraPosition,
+  FilterOptions,
+  ThemeSettings,
+  TimeRange,
+  ViewState,
+  VisualizationSettings,
+} from "@/types";
+import { DEFAULT_VIEW_STATE } from "@/constants/viewDefaults";
+import { TIME_RANGE_MS } from "@/lib/chartUtils";
+
+const PROVIDERS: FilterOptions["cloudProviders"] = ["AWS", "GCP", "Azure"];
+const THEME_MODES: ThemeSettings["mode"][] = ["dark", "light"];
+const MAP_STYLES: ThemeSettings["mapStyle"][] = ["realistic", "minimal", "neon"];
+const TIME_RANGES = Object.keys(TIME_RANGE_MS) as TimeRange[];
+
+// Query keys owned by the view; anything else (e.g. ?source=) is left alone
+export const VIEW_STATE_KEYS = [
+  "exchanges",
+  "providers",
+  "latency",
+  "realtime",
+  "historical",
+  "regions",
+  "heatmap",
+  "topology",
+  "flow",
+  "speed",
+  "particles",
+  "loss",
+  "jitter",
+  "theme",
+  "style",
+  "exchange",
+  "pair",
+  "range",
+  "camera",
+] as const;
+
+type ViewStateKey = (typeof VIEW_STATE_KEYS)[number];
+
+const CAMERA_PRECISION = 3;
+
+const list = (value: string | null) =>
+  value ? value.split(",").filter(Boolean) : [];
+
+const flag = (value: string | null, fallback: boolean) =>
+  value === "1" ? true : value === "0" ? false : fallback;
+
+const number = (
+  value: string | null,
+  fallback: number,
+  min: number,
+  max: number
+) => {
+  const parsed = value === null ? NaN : Number(value);
+  return isFinite(parsed) && parsed >= min && parsed <= max
+    ? parsed
+    : fallback;
+};
+
+const oneOf = <T extends string>(
+  value: string | null,
+  options: readonly T[],
+  fallback: T
+): T => (options.includes(value as T) ? (value as T) : fallback);
+
+const parseCamera = (value: string | null): CameraPosition | null => {
+  const parts = list(value).map(Number);
+  if (parts.length !== 6 || !parts.every(isFinite)) return null;
+  return {
+    position: [parts[0], parts[1], parts[2]],
+    target: [parts[3], parts[4], parts[5]],
+  };
+};
+
+/**
+ * Read a view from a query string. Missing or malformed values fall back
+ * to the defaults one by one, so a partly broken link still restores what
+ * it can.
+ */
+export function parseViewState(search: string): ViewState {
+  const params = new URLSearchParams(search);
+  const get = (key: ViewStateKey) => params.get(key);
+  const defaults = DEFAULT_VIEW_STATE;
+  const latency = /^(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)$/.exec(
+    get("latency") ?? ""
+  );
+  const pair = list(get("pair"));
+
+  const filters: FilterOptions = {
+    exchanges: list(get("exchanges")),
+    cloudProviders: PROVIDERS.filter((p) =>
+      list(get("providers")).includes(p)
+    ),
+    latencyRange:
+      latency && Number(latency[1]) <= Number(latency[2])
+        ? { min: Number(latency[1]), max: Number(latency[2]) }
+        : defaults.filters.latencyRange,
+    showRealTime: flag(get("realtime"), defaults.filters.showRealTime),
+    showHistorical: flag(get("historical"), defaults.filters.showHistorical),
+    showRegions: flag(get("regions"), defaults.filters.showRegions),
+  };
+
+  const v = defaults.visualization;
+  const visualization: VisualizationSettings = {
+    showLatencyHeatmap: flag(get("heatmap"), v.showLatencyHeatmap),
+    showNetworkTopology: flag(get("topology"), v.showNetworkTopology),
+    showDataFlow: flag(get("flow"), v.showDataFlow),
+    animationSpeed: number(get("speed"), v.animationSpeed, 0.1, 3),
+    particleCount: number(get("particles"), v.particleCount, 10, 100),
+    packetLossThreshold: number(get("loss"), v.packetLossThreshold, 0, 5),
+    jitterThreshold: number(get("jitter"), v.jitterThreshold, 0, 30),
+  };
+
+  return {
+    filters,
+    visualization,
+    theme: {
+      mode: oneOf(get("theme"), THEME_MODES, defaults.theme.mode),
+      mapStyle: oneOf(get("style"), MAP_STYLES, defaults.theme.mapStyle),
+    },
+    selectedExchangeId: get("exchange") || null,
+    selectedPair:
+      pair.length === 2 ? { source: pair[0], target: pair[1] } : null,
+    timeRange: oneOf(get("range"), TIME_RANGES, defaults.timeRange),
+    camera: parseCamera(get("camera")),
+  };
+}
+
+/**
+ * Write a view into query parameters, keeping only what differs from the
+ * defaults. Parameters that aren't part of the view are preserved.
+ */
+export function serializeViewState(
+  state: ViewState,
+  search: string = ""
+): string {
+  const params = new URLSearchParams(search);
+  VIEW_STATE_KEYS.forEach((key) => params.delete(key));
+  const defaults = DEFAULT_VIEW_STATE;
+  const set = (key: ViewStateKey, value: string, fallback: string) => {
+    if (value !== fallback) params.set(key, value);
+  };
+  const bit = (value: boolean) => (value ? "1" : "0");
+
+  const { filters, visualization: v, theme } = state;
+  const d = defaults.visualization;
+  set("exchanges", filters.exchanges.join(","), "");
+  set("providers", filters.cloudProviders.join(","), "");
+  set(
+    "latency",
+    `${filters.latencyRange.min}-${filters.latencyRange.max}`,
+    `${defaults.filters.latencyRange.min}-${defaults.filters.latencyRange.max}`
+  );
+  set(
+    "realtime",
+    bit(filters.showRealTime),
+    bit(defaults.filters.showRealTime)
+  );
+  set(
+    "historical",
+    bit(filters.showHistorical),
+    bit(defaults.filters.showHistorical)
+  );
+  set("regions", bit(filters.showRegions), bit(defaults.filters.showRegions));
+  set("heatmap", bit(v.showLatencyHeatmap), bit(d.showLatencyHeatmap));
+  set("topology", bit(v.showNetworkTopology), bit(d.showNetworkTopology));
+  set("flow", bit(v.showDataFlow), bit(d.showDataFlow));
+  set("speed", String(v.animationSpeed), String(d.animationSpeed));
+  set("particles", String(v.particleCount), String(d.particleCount));
+  set("loss", String(v.packetLossThreshold), String(d.packetLossThreshold));
+  set("jitter", String(v.jitterThreshold), String(d.jitterThreshold));
+  set("theme", theme.mode, defaults.theme.mode);
+  set("style", theme.mapStyle, defaults.theme.mapStyle);
+  set("exchange", state.selectedExchangeId ?? "", "");
+  set(
+    "pair",
+    state.selectedPair
+      ? `${state.selectedPair.source},${state.selectedPair.target}`
+      : "",
+    ""
+  );
+  set("range", state.timeRange, defaults.timeRange);
+  if (state.camera) {
+    params.set(
+      "camera",
+      [...state.camera.position, ...state.camera.target]
+        .map((n) => Number(n.toFixed(CAMERA_PRECISION)))
+        .join(",")
+    );
+  }
+  // Commas are legal in a query string and keep lists readable
+  return params.toString().replace(/%2C/g, ",");
+}
+
+// Full link to a view, based on the given URL (path and other params kept)
+export const buildViewUrl = (state: ViewState, href: string): string => {
+  const url = new URL(href);
+  url.search = serializeViewState(state, url.search);
+  return url.toString();
+};
@@ -1,4 +1,7 @@
-export interface ExchangeLocation {
+export type CloudProvider = 'AWS' | 'GCP' | 'Azure';
+
+// Fields every node on the map shares, whatever it stands for
+export interface NetworkNodeBase {
   id: string;
   name: string;
   displayName: string;
@@ -7,12 +10,55 @@ export interface ExchangeLocation {
     longitude: number;
     altitude: number;
   };
-  cloudProvider: 'AWS' | 'GCP' | 'Azure';
+  status: 'online' | 'offline' | 'maintenance';
+  description?: string;
+}
+
+// A trading venue from the exchange catalog
+export interface ExchangeLocation extends NetworkNodeBase {
+  kind: 'exchange';
+  cloudProvider: CloudProvider;
   region: string;
   regionCode: string;
   serverCount: number;
-  status: 'online' | 'offline' | 'maintenance';
-  description?: string;
+}
+
+// A cloud provider region measured as an endpoint of its own, e.g. a probe
+// origin running in the region rather than at a venue
+export interface CloudRegionNode extends NetworkNodeBase {
+  kind: 'cloud-region';
+  cloudProvider: CloudProvider;
+  region: string;
+  regionCode: string;
+}
+
+// A Radar country: latency from its end users to Cloudflare's network
+export interface InternetRegionNode extends NetworkNodeBase {
+  kind: 'internet-region';
+  countryCode: string;
+  country: string;
+}
+
+// A network's point of presence, e.g. the Cloudflare edge Radar measures to
+export interface PopNode extends NetworkNodeBase {
+  kind: 'pop';
+  network: string;
+  city?: string;
+}
+
+export type NetworkNode =
+  | ExchangeLocation
+  | CloudRegionNode
+  | InternetRegionNode
+  | PopNode;
+
+export type NetworkNodeKind = NetworkNode['kind'];
+
+// Latency distribution in ms. Some feeds (e.g. Radar) only report the median.
+export interface LatencyPercentiles {
+  p50: number;
+  p90?: number;
+  p99?: number;
 }
 
 export interface LatencyData {
@@ -24,6 +70,7 @@ export interface LatencyData {
   quality: 'excellent' | 'good' | 'fair' | 'poor';
   packetLoss?: number;
   jitter?: number;
+  percentiles?: LatencyPercentiles;
 }
 
 export interface HistoricalLatencyData {
@@ -31,11 +78,12 @@ export interface HistoricalLatencyData {
   latency: number;
   source: string;
   target: string;
+  percentiles?: LatencyPercentiles;
 }
 
 export interface CloudRegion {
   id: string;
-  provider: 'AWS' | 'GCP' | 'Azure';
+  provider: CloudProvider;
   name: string;
   code: string;
   coordinates: {
@@ -46,19 +94,102 @@ export interface CloudRegion {
   averageLatency: number;
 }
 
+// The venue list served by /api/exchanges. 'default' means the built-in
+// venues, used until a catalog file exists (or when it is invalid).
+export interface ExchangeCatalogState {
+  exchanges: ExchangeLocation[];
+  source: 'file' | 'default';
+  path: string;
+  error?: string;
+}
+
+export type ExchangeStatus = ExchangeLocation['status'];
+
+// One span of a venue's status timeline; 'unknown' means no measurements
+export interface ExchangeStatusSegment {
+  from: number;
+  to: number;
+  status: ExchangeStatus | 'unknown';
+}
+
+// A Statuspage-style status feed polled for one exchange. `url` is the
+// status page root (its /api/v2 JSON is read) or `mock://` for generated data.
+export interface ExchangeStatusFeed {
+  exchangeId: string;
+  url: string;
+}
+
+export interface ExchangeStatusConfig {
+  pollIntervalMs: number;
+  timeoutMs: number;
+  feeds: ExchangeStatusFeed[];
+}
+
+// A status page incident or maintenance window, mapped onto the exchange
+// status it causes (minor incidents leave a venue online)
+export interface ExchangeIncident {
+  id: string;
+  exchangeId: string;
+  name: string;
+  status: ExchangeStatus;
+  impact: 'none' | 'minor' | 'major' | 'critical' | 'maintenance';
+  startedAt: number;
+  resolvedAt?: number;
+  url?: string;
+}
+
+// Rolling uptime (% of the window not spent offline) per window
+export interface ExchangeUptime {
+  day: number;
+  week: number;
+  month: number;
+}
+
+export interface ExchangeStatusReport {
+  exchangeId: string;
+  status: ExchangeStatus;
+  description: string;
+  checkedAt: number;
+  uptime: ExchangeUptime;
+  activeIncidents: ExchangeIncident[];
+  error?: string;
+}
+
+export interface ExchangeStatusState {
+  reports: ExchangeStatusReport[];
+  incidents: ExchangeIncident[];
+}
+
+// A venue near another, with the live latency between them if measured
+export interface NearbyExchange {
+  exchange: ExchangeLocation;
+  distanceKm: number;
+  latency?: number;
+}
+
+// A cloud region with the exchanges it hosts and their live connections;
+// exchangeCount and averageLatency are recomputed from these
+export interface CloudRegionCluster extends CloudRegion {
+  exchanges: ExchangeLocation[];
+  connections: LatencyConnection[];
+}
+
 export interface LatencyConnection {
   id: string;
-  source: ExchangeLocation;
-  target: ExchangeLocation;
+  source: NetworkNode;
+  target: NetworkNode;
   latency: number;
   quality: 'excellent' | 'good' | 'fair' | 'poor';
   isActive: boolean;
   animationProgress: number;
+  percentiles?: LatencyPercentiles;
+  packetLoss?: number; // %
+  jitter?: number; // ms
 }
 
 export interface FilterOptions {
   exchanges: string[];
-  cloudProviders: ('AWS' | 'GCP' | 'Azure')[];
+  cloudProviders: CloudProvider[];
   latencyRange: {
     min: number;
     max: number;
@@ -76,6 +207,22 @@ export interface MetricsData {
   lastUpdated: number;
 }
 
+// Everything the views read about the network, built from one fetch so
+// nodes, connections and metrics always describe the same latency data
+export interface LatencySnapshot {
+  latencyData: LatencyData[];
+  historicalData: HistoricalLatencyData[];
+  // Catalogued exchanges (with status-page status) plus the regions and
+  // PoPs the latency data refers to
+  nodes: NetworkNode[];
+  connections: LatencyConnection[];
+  filters: FilterOptions;
+  metrics: MetricsData;
+  statusReports: Map<string, ExchangeStatusReport>;
+  incidents: ExchangeIncident[];
+  lastUpdated: number;
+}
+
 export interface ThemeSettings {
   mode: 'dark' | 'light';
   mapStyle: 'realistic' | 'minimal' | 'neon';
@@ -92,12 +239,411 @@ export interface VisualizationSettings {
   showDataFlow: boolean;
   animationSpeed: number;
   particleCount: number;
+  // Links above these render dashed/flickering (loss) or wobbling (jitter)
+  packetLossThreshold: number; // %
+  jitterThreshold: number; // ms
+}
+
+// Everything a shared link restores
+export interface ViewState {
+  filters: FilterOptions;
+  visualization: VisualizationSettings;
+  theme: ThemeSettings;
+  selectedExchangeId: string | null;
+  selectedPair: LatencyPair | null;
+  timeRange: TimeRange;
+  camera: CameraPosition | null;
 }
 
 export type TimeRange = '1h' | '24h' | '7d' | '30d';
 
+export interface LatencyPair {
+  source: string;
+  target: string;
+}
+
+// Network state at one point of a historical replay
+export interface PlaybackFrame {
+  timestamp: number;
+  data: LatencyData[];
+}
+
 export interface ChartDataPoint {
   timestamp: number;
   value: number;
   label: string;
-}
\ No newline at end of file
+  // Extremes within the point's bucket, when it aggregates several samples
+  min?: number;
+  max?: number;
+  p50?: number;
+  p90?: number;
+  p99?: number;
+  anomaly?: LatencyAnomaly;
+}
+export type LatencyDataSourceId = 'radar' | 'mock' | 'replay' | 'probes';
+
+export interface LatencyDataSourceMetadata {
+  id: LatencyDataSourceId;
+  name: string;
+  description: string;
+  isLive: boolean;
+  streamUrl?: string;
+}
+
+export interface HistoricalRange {
+  from?: number;
+  to?: number;
+}
+
+export interface HistoricalQuery extends HistoricalRange {
+  // Data source the snapshots were recorded from (e.g. 'mock', 'probes')
+  feed: string;
+  source?: string;
+  target?: string;
+  // Downsample into buckets of this size, averaging latency per pair
+  bucketMs?: number;
+}
+
+export interface StoredLatencyRecord {
+  feed: string;
+  timestamp: number;
+  source: string;
+  target: string;
+  latency: number;
+  packetLoss?: number;
+  jitter?: number;
+  percentiles?: LatencyPercentiles;
+}
+
+export type ExportFormat = 'csv' | 'ndjson' | 'parquet';
+
+export type ExportColumn =
+  | 'timestamp'
+  | 'source'
+  | 'target'
+  | 'sourceName'
+  | 'targetName'
+  | 'sourceProvider'
+  | 'targetProvider'
+  | 'latency'
+  | 'quality'
+  | 'packetLoss'
+  | 'jitter'
+  | 'p50'
+  | 'p90'
+  | 'p99';
+
+// A latency export: the live snapshot or stored history of one feed,
+// narrowed by the same filters as the map
+export interface LatencyExportOptions extends HistoricalRange {
+  format: ExportFormat;
+  type: 'current' | 'historical';
+  feed: LatencyDataSourceId;
+  columns: ExportColumn[];
+  // Bucket size for historical exports, e.g. '5m' or '1h'
+  bucket?: string;
+  exchanges: string[];
+  cloudProviders: FilterOptions['cloudProviders'];
+  latencyRange: { min: number; max: number };
+}
+
+export type LatencyImportFormat = 'csv' | 'ndjson' | 'mtr' | 'ping';
+
+export interface LatencyImportRequest {
+  name: string;
+  format: LatencyImportFormat;
+  content: string;
+  // Pair the capture was taken between; required for mtr/ping output, which
+  // only names the destination host
+  source?: string;
+  target?: string;
+  // Capture time for output that doesn't carry one; defaults to now
+  timestamp?: number;
+}
+
+export interface LatencyImportIssue {
+  line: number;
+  message: string;
+}
+
+export interface LatencyImportDataset {
+  id: string;
+  name: string;
+  format: LatencyImportFormat;
+  importedAt: number;
+  from: number;
+  to: number;
+  recordCount: number;
+  pairs: LatencyPair[];
+}
+
+export interface LatencyImportResult {
+  dataset: LatencyImportDataset;
+  // Lines that couldn't be parsed or name exchanges outside the catalog
+  skipped: LatencyImportIssue[];
+}
+
+export interface ImportedLatencyData {
+  dataset: LatencyImportDataset;
+  latencyData: LatencyData[];
+  historicalData: HistoricalLatencyData[];
+}
+
+// Show an imported dataset next to the live feed, or in its place
+export type LatencyImportMode = 'overlay' | 'replace';
+
+// Latency distribution of one pair over a queried range
+export interface LatencyDistribution {
+  source: string;
+  target: string;
+  count: number;
+  min: number;
+  avg: number;
+  max: number;
+  percentiles: LatencyPercentiles;
+}
+
+export type HistoryBucketSize = '1m' | '5m' | '1h' | '1d';
+
+export interface TimeWindow {
+  from: number;
+  to: number;
+}
+
+// Aggregated history for one pair, or every pair when source/target are left out
+export interface LatencyHistoryQuery extends TimeWindow {
+  source?: string;
+  target?: string;
+  bucket: HistoryBucketSize;
+}
+
+// Samples in one bucket, stamped with the bucket's start time
+export interface LatencyHistoryBucket {
+  timestamp: number;
+  count: number;
+  min: number;
+  avg: number;
+  max: number;
+  percentiles: LatencyPercentiles;
+}
+
+export interface LatencyHistory extends LatencyHistoryQuery {
+  buckets: LatencyHistoryBucket[];
+}
+
+export interface LatencyDataSource {
+  metadata: LatencyDataSourceMetadata;
+  fetchCurrent: () => Promise<LatencyData[]>;
+  fetchHistorical: (range?: HistoricalRange) => Promise<HistoricalLatencyData[]>;
+  fetchHistory: (query: LatencyHistoryQuery) => Promise<LatencyHistory>;
+  fetchMetrics: (
+    latencyData: LatencyData[],
+    nodes: NetworkNode[]
+  ) => Promise<MetricsData>;
+}
+
+export type ProbeMethod = 'tcp' | 'http';
+
+export interface ProbeTarget {
+  exchangeId: string;
+  method: ProbeMethod;
+  host?: string;
+  port?: number;
+  url?: string;
+}
+
+export interface ProbeConfig {
+  origin: string;
+  samples: number;
+  timeoutMs: number;
+  targets: ProbeTarget[];
+}
+
+export interface ProbeResult {
+  source: string;
+  target: string;
+  method: ProbeMethod;
+  rtt: number;
+  min: number;
+  max: number;
+  percentiles?: LatencyPercentiles;
+  jitter: number;
+  packetLoss: number;
+  samples: number;
+  timestamp: number;
+  error?: string;
+}
+
+export interface LatencyDelta {
+  upserts: LatencyData[];
+  removed: string[];
+}
+
+export type LatencyStreamEvent =
+  | { id: string; type: 'snapshot'; timestamp: number; data: LatencyData[] }
+  | { id: string; type: 'delta'; timestamp: number; data: LatencyDelta };
+
+export type StreamStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export type LatencyStreamSource = 'radar' | 'mock' | 'probes';
+
+export interface LatencySubscription {
+  // ExchangeLocation ids or exchange names (as in FilterOptions.exchanges)
+  exchanges: string[];
+  cloudProviders: CloudProvider[];
+  latencyRange?: {
+    min: number;
+    max: number;
+  };
+}
+
+export type LatencySocketClientMessage =
+  | {
+      type: 'subscribe';
+      subscription: LatencySubscription;
+      source?: LatencyStreamSource;
+    }
+  | { type: 'unsubscribe' }
+  | { type: 'snapshot' };
+
+export type LatencySocketServerMessage =
+  | { type: 'subscribed'; subscription: LatencySubscription }
+  | { type: 'unsubscribed' }
+  | { type: 'snapshot'; id: string; timestamp: number; data: LatencyData[] }
+  | { type: 'delta'; id: string; timestamp: number; data: LatencyDelta }
+  | { type: 'error'; error: string };
+
+export interface PathHop {
+  connectionId: string;
+  from: string;
+  to: string;
+  latency: number;
+}
+
+export interface LatencyPath {
+  nodes: string[];
+  hops: PathHop[];
+  totalLatency: number;
+}
+
+export type AlertRuleType =
+  | 'threshold'
+  | 'rateOfChange'
+  | 'packetLoss'
+  | 'jitter'
+  | 'qualityDowngrade';
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+// Empty scope matches every pair; fields narrow it down
+export interface AlertRuleScope {
+  source?: string;
+  target?: string;
+  cloudProvider?: CloudProvider;
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  type: AlertRuleType;
+  // ms for threshold/jitter, % for rateOfChange/packetLoss, quality steps for qualityDowngrade
+  threshold: number;
+  scope: AlertRuleScope;
+  severity: AlertSeverity;
+  enabled: boolean;
+}
+
+export interface LatencyAlert {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  ruleType: AlertRuleType;
+  severity: AlertSeverity;
+  feed: string;
+  source: string;
+  target: string;
+  value: number;
+  threshold: number;
+  message: string;
+  status: 'active' | 'resolved';
+  triggeredAt: number;
+  resolvedAt?: number;
+  acknowledged: boolean;
+  acknowledgedAt?: number;
+}
+
+export interface AlertCenterState {
+  rules: AlertRule[];
+  alerts: LatencyAlert[];
+  webhooks: string[];
+}
+
+export interface AlertWebhookPayload {
+  event: 'alert.triggered' | 'alert.resolved' | 'alert.test';
+  alert: LatencyAlert;
+  timestamp: number;
+}
+
+export interface LatencyAnomaly {
+  source: string;
+  target: string;
+  timestamp: number;
+  latency: number;
+  // Seasonal baseline plus the smoothed residual at that point
+  expected: number;
+  zScore: number;
+  direction: 'spike' | 'drop';
+}
+
+export type RadarEndpoint = 'realtime' | 'historical' | 'location';
+
+// Upstream Radar reply as the proxy routes pass it on
+export interface RadarResponse {
+  status: number;
+  data?: unknown;
+  error?: string;
+  details?: string;
+}
+
+export type RadarCacheStatus = 'hit' | 'stale' | 'miss' | 'coalesced';
+
+export interface RadarCacheStats {
+  ttlMs: number;
+  staleMs: number;
+  entries: number;
+  hits: number;
+  staleHits: number;
+  misses: number;
+  // Requests that joined an identical upstream call already in flight
+  coalesced: number;
+  upstreamRequests: number;
+  rateLimited: number;
+  errors: number;
+  hitRatio: number;
+}
+
+export interface RadarDiagnostics {
+  since: number;
+  endpoints: Record<RadarEndpoint, RadarCacheStats>;
+  inflight: number;
+  limiter: { tokens: number; capacity: number; refillPerSecond: number };
+}
+
+// Country metadata from Radar, resolved once and kept in the registry
+export interface RadarLocation {
+  code: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  resolvedAt: number;
+}
+
+// The countries the Radar feed monitors and the metadata resolved so far.
+// `unresolved` lists monitored codes Radar hasn't described yet.
+export interface RadarLocationRegistry {
+  monitored: string[];
+  locations: RadarLocation[];
+  unresolved: string[];
+  source: 'file' | 'config';
+  path: string;
+}